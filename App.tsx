@@ -1,11 +1,12 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Prize, PrizeCategory } from './types';
+import { Inventory, MasterKind, MovementType, PlayCost, Prize, PrizeCategory } from './types';
 import PrizeCard from './components/PrizeCard';
 import PrizeFormModal from './components/PrizeFormModal';
 import PlusIcon from './components/icons/PlusIcon';
 import SearchIcon from './components/icons/SearchIcon';
 import PrizeList from './components/PrizeList';
+import PrizeGrid from './components/PrizeGrid';
 import Squares2x2Icon from './components/icons/Squares2x2Icon';
 import QueueListIcon from './components/icons/QueueListIcon';
 import CheckCircleIcon from './components/icons/CheckCircleIcon';
@@ -15,26 +16,240 @@ import CogIcon from './components/icons/CogIcon';
 import ArrowDownTrayIcon from './components/icons/ArrowDownTrayIcon';
 import ArrowUpTrayIcon from './components/icons/ArrowUpTrayIcon';
 import TrashIcon from './components/icons/TrashIcon';
-import { StorageService } from './services/storage';
+import PhotoViewer from './components/PhotoViewer';
+import PrizeHistoryModal from './components/PrizeHistoryModal';
+import Toast, { ToastMessage } from './components/Toast';
+import RecoveryPrompt from './components/RecoveryPrompt';
+import CsvExportModal from './components/CsvExportModal';
+import CsvImportModal from './components/CsvImportModal';
+import ImportMergeModal from './components/ImportMergeModal';
+import FilterPanel from './components/FilterPanel';
+import TagFilterMenu from './components/TagFilterMenu';
+import ArcadesModal from './components/ArcadesModal';
+import CostAnalyticsModal from './components/CostAnalyticsModal';
+import Dashboard from './components/Dashboard';
+import ChartBarIcon from './components/icons/ChartBarIcon';
+import BuildingStorefrontIcon from './components/icons/BuildingStorefrontIcon';
+import LocationsModal from './components/LocationsModal';
+import CubeIcon from './components/icons/CubeIcon';
+import CollectionSwitcher from './components/CollectionSwitcher';
+import CollectionsModal from './components/CollectionsModal';
+import CollectionTransferModal, { TransferMode } from './components/CollectionTransferModal';
+import RectangleStackIcon from './components/icons/RectangleStackIcon';
+import SyncIndicator, { SyncStatus } from './components/SyncIndicator';
+import SyncSettingsModal from './components/SyncSettingsModal';
+import CloudIcon from './components/icons/CloudIcon';
+import MasterDataModal from './components/MasterDataModal';
+import ArrowUturnLeftIcon from './components/icons/ArrowUturnLeftIcon';
+import ArrowUturnRightIcon from './components/icons/ArrowUturnRightIcon';
+import FunnelIcon from './components/icons/FunnelIcon';
+import TagIcon from './components/icons/TagIcon';
+import useUndoHistory from './hooks/useUndoHistory';
+import useServiceWorker from './hooks/useServiceWorker';
+import useDebouncedValue from './hooks/useDebouncedValue';
+import UpdatePrompt from './components/UpdatePrompt';
+import BarcodeScannerModal from './components/BarcodeScannerModal';
+import BulkActionBar from './components/BulkActionBar';
+import BulkEditModal, { BulkEditAction } from './components/BulkEditModal';
+import BarcodeIcon from './components/icons/BarcodeIcon';
+import DuplicatesModal from './components/DuplicatesModal';
+import DocumentDuplicateIcon from './components/icons/DocumentDuplicateIcon';
+import { mergePrizes } from './services/duplicates';
+import { RecoveryDraft, StorageService } from './services/storage';
+import { SettingsService } from './services/settings';
+import { PhotoService } from './services/photos';
+import { createMovement, movementsForReplacement } from './services/ledger';
+import { PrizeFieldChanges, adjustQuantities, deletePrizes, idRange, setPrizeFields } from './services/bulk';
+import { ColumnSort, normalizeColumnSorts, sortByColumns } from './services/listLayout';
+import { CsvImportRow, decodeCsv, parseCsv } from './services/csv';
+import { BackupFormatError, ParsedBackup, createBackup, parseBackup } from './services/backup';
+import { MergeResult, adoptedMovements } from './services/merge';
+import { defaultMasterItems, ensureMasterItems, masterColors, masterItemsOf, masterNamesOf, mergeMasterItems } from './services/masterData';
+import { buildSearchIndex, parseSearchQuery, searchPrizes } from './services/search';
+import { datedFileName, downloadBlob, readFileAsArrayBuffer } from './services/files';
+import {
+  DisplayMode,
+  FilterPreset,
+  PrizeFilter,
+  SortOrder,
+  countPanelFilters,
+  emptyFilter,
+  matchesFilter,
+  renameInFilter,
+  sortOrderLabels,
+  viewStateFromHash,
+  viewStateToHash,
+} from './services/filters';
+import { countTags } from './services/tags';
+import { arcadeLabel, mergeArcades } from './services/arcades';
+import { buildCostRecords, formatYen, spentByPrize, summarizeCosts } from './services/costs';
+import { NO_LOCATION, describePlacements, fitAllPlacements, locationPaths, locationWithDescendants, mergeLocations } from './services/locations';
+import {
+  DEFAULT_COLLECTION_ID,
+  ScopedImport,
+  collectionOf,
+  collectionSubset,
+  copyPrizesTo,
+  countByCollection,
+  defaultCollection,
+  ensureCollections,
+  inImportScope,
+  mergeCollections,
+  movePrizesTo,
+  sortCollections,
+} from './services/collections';
+import { SyncSettings, SyncState, defaultSyncSettings, initialSyncState, syncInventory, withoutLocalEdits } from './services/sync';
+import { RestSyncAdapter } from './services/restSync';
 
-const prizeCategories: PrizeCategory[] = ['マスコット', 'ぬいぐるみ', 'フィギュア', 'その他'];
+type SaveMode = 'manual' | 'auto';
 
-type DisplayMode = 'card' | 'list';
-type SortOrder = 'date-desc' | 'name-asc' | 'name-desc';
+const AUTOSAVE_DELAY = 1500;
+const JOURNAL_DELAY = 300;
+const SEARCH_DELAY = 200;
+// How often to look for changes from other devices while sync is on
+const SYNC_INTERVAL = 60 * 1000;
+
+const emptyInventory: Inventory = { prizes: [], movements: [], masters: [], arcades: [], locations: [], collections: [] };
+
+// Names brought in by imports or other devices get master items, so each value on a prize
+// stays editable, and collections they refer to get an entry.
+const normalizeInventory = (inventory: Inventory): Inventory =>
+  ensureCollections(ensureMasterItems(fitAllPlacements(inventory)));
+
+// A new prize comes with the ledger entry for the items it starts with
+const addPrize = (inventory: Inventory, prize: Prize): Inventory => ({
+  ...inventory,
+  prizes: [...inventory.prizes, prize],
+  movements: prize.quantity > 0
+    ? [...inventory.movements, createMovement(prize.id, prize.quantity, 'won', { date: prize.acquisitionDate })]
+    : inventory.movements,
+});
+
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+};
+
+// Tag cloud font size, relative to the most used tag
+const tagCloudSizeClass = (count: number, maxCount: number): string => {
+  const ratio = count / maxCount;
+  return ratio > 0.75 ? 'text-lg' : ratio > 0.5 ? 'text-base' : ratio > 0.25 ? 'text-sm' : 'text-xs';
+};
 
 const App: React.FC = () => {
-  const [prizes, setPrizes] = useState<Prize[]>([]);
+  const {
+    state: inventory,
+    update: recordInventoryChange,
+    reset: resetInventory,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoHistory<Inventory>(emptyInventory);
+  const { prizes, movements, masters, arcades, locations, collections } = inventory;
+  // Falls back to the first collection when the chosen one is gone (deleted, or another device's setting)
+  const [selectedCollectionId, setSelectedCollectionId] = useState(() => SettingsService.get<string>('active-collection', DEFAULT_COLLECTION_ID));
+  const activeCollection = useMemo(
+    () => collections.find(c => c.id === selectedCollectionId) || sortCollections(collections)[0] || defaultCollection(),
+    [collections, selectedCollectionId]
+  );
+  const activeCollectionId = activeCollection.id;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [prizeToEdit, setPrizeToEdit] = useState<Prize | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<PrizeCategory | 'すべて'>('すべて');
-  const [displayMode, setDisplayMode] = useState<DisplayMode>('card');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('date-desc');
+  const [newPrizeBarcode, setNewPrizeBarcode] = useState<string | undefined>(undefined);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  // The view (search, filter, sort, display mode) is mirrored in the URL hash so it can be bookmarked
+  const [initialView] = useState(() => viewStateFromHash(window.location.hash));
+  const [searchTerm, setSearchTerm] = useState(initialView.search);
+  const [filter, setFilter] = useState<PrizeFilter>(initialView.filter);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(initialView.displayMode);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(initialView.sortOrder);
+  const [showFilters, setShowFilters] = useState(() => countPanelFilters(initialView.filter) > 0);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(() => SettingsService.get<FilterPreset[]>('filter-presets', []));
+  // Sorting chosen from the list headers; while set it takes over from the sort order in the list view
+  const [columnSorts, setColumnSorts] = useState<ColumnSort[]>(() => normalizeColumnSorts(SettingsService.get<unknown>('list-sort', [])));
   
-  const [isDirty, setIsDirty] = useState(false);
+  // What is currently in IndexedDB; save writes only the records that differ from it
+  const [savedInventory, setSavedInventory] = useState<Inventory>(emptyInventory);
+  const isDirty = inventory !== savedInventory;
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [saveMode, setSaveMode] = useState<SaveMode>(() => SettingsService.get<SaveMode>('save-mode', 'manual'));
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Unsaved edits left behind by a crashed or closed session, awaiting the user's decision
+  const [recoveryDraft, setRecoveryDraft] = useState<RecoveryDraft | null>(null);
+  const isSavingRef = useRef(false);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(() => SettingsService.get<SyncSettings>('sync', defaultSyncSettings));
+  const [syncState, setSyncState] = useState<SyncState>(() => SettingsService.get<SyncState>('sync-state', initialSyncState));
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [isSyncSettingsOpen, setIsSyncSettingsOpen] = useState(false);
+  const isSyncingRef = useRef(false);
   const [showTools, setShowTools] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [photoToView, setPhotoToView] = useState<{ prize: Prize; index: number } | null>(null);
+  const [historyPrizeId, setHistoryPrizeId] = useState<string | null>(null);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const { updateAvailable, applyUpdate } = useServiceWorker();
+  const [isUpdateDismissed, setIsUpdateDismissed] = useState(false);
+  const [csvExportScope, setCsvExportScope] = useState<'filtered' | 'selected' | null>(null);
+  const [isMasterDataOpen, setIsMasterDataOpen] = useState(false);
+  const [isArcadesOpen, setIsArcadesOpen] = useState(false);
+  const [isLocationsOpen, setIsLocationsOpen] = useState(false);
+  const [isCollectionsOpen, setIsCollectionsOpen] = useState(false);
+  const [transferPrizes, setTransferPrizes] = useState<Prize[] | null>(null);
+  // Selection mode for bulk actions; only prizes that are on screen count as selected
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkEditAction, setBulkEditAction] = useState<BulkEditAction | null>(null);
+  const selectionAnchorRef = useRef<string | null>(null); // Last prize clicked without Shift
+  const [isCostAnalyticsOpen, setIsCostAnalyticsOpen] = useState(false);
+  // Prizes read from a JSON backup, waiting for the user to choose merge or replace
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const handleUndo = useCallback(() => {
+    const label = undo();
+    if (label) setToast({ id: Date.now(), message: `元に戻しました: ${label}`, actionLabel: 'やり直す', onAction: () => handleRedoRef.current() });
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    const label = redo();
+    if (label) setToast({ id: Date.now(), message: `やり直しました: ${label}`, actionLabel: '元に戻す', onAction: () => handleUndoRef.current() });
+  }, [redo]);
+
+  // The toast actions point at each other, so reach them through refs
+  const handleUndoRef = useRef(handleUndo);
+  const handleRedoRef = useRef(handleRedo);
+  handleUndoRef.current = handleUndo;
+  handleRedoRef.current = handleRedo;
+
+  // Every inventory mutation goes through here so it can be undone
+  const updateInventory = useCallback((label: string, update: (current: Inventory) => Inventory) => {
+    if (recordInventoryChange(label, (current: Inventory) => normalizeInventory(update(current)))) {
+      setToast({ id: Date.now(), message: label, actionLabel: '元に戻す', onAction: () => handleUndoRef.current() });
+    }
+  }, [recordInventoryChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
   // Load data from IndexedDB (with migration from localStorage)
   useEffect(() => {
@@ -55,65 +270,298 @@ const App: React.FC = () => {
           }
         }
         
-        setPrizes(data);
+        // Move inline Base64 photos from older versions into the photo store
+        const withStoredPhotos = await PhotoService.extractInlinePhotos(data);
+        if (withStoredPhotos !== data) {
+          await StorageService.applyChanges(StorageService.diffRecords(data, withStoredPhotos));
+          data = withStoredPhotos;
+        }
+
+        const draft = await StorageService.loadDraft();
+        if (draft && StorageService.countChanges(draft.changes) > 0) {
+          setRecoveryDraft(draft);
+        }
+        // Photos referenced only by the recovery journal must survive the cleanup; ones another tab
+        // has just stored are spared by the cleanup's grace period
+        PhotoService.removeOrphans([...data, ...(draft?.changes.prizes.upserts || [])])
+          .catch(error => console.error("Failed to clean up photos", error));
+
+        const stored: Inventory = {
+          prizes: data,
+          movements: await StorageService.loadMovements(),
+          masters: await StorageService.loadMasters(),
+          arcades: await StorageService.loadArcades(),
+          locations: await StorageService.loadLocations(),
+          collections: await StorageService.loadCollections(),
+        };
+        // Values used by prizes from before master data existed become items of their own,
+        // and prizes from before collections existed get the default collection
+        const loaded = ensureCollections(ensureMasterItems(stored));
+        if (loaded !== stored) {
+          await StorageService.saveInventoryChanges(StorageService.diffInventory(stored, loaded));
+        }
+        setSavedInventory(loaded);
+        resetInventory(loaded);
       } catch (error) {
         console.error("Failed to load prizes from IndexedDB", error);
         // Fallback to localStorage if IndexedDB fails for some reason
         const fallbackData = StorageService.getLocalStorageData();
-        if (fallbackData) setPrizes(fallbackData);
+        if (fallbackData) {
+          const fallback = ensureCollections(ensureMasterItems({
+            prizes: fallbackData,
+            movements: [],
+            masters: defaultMasterItems(),
+            arcades: [],
+            locations: [],
+            collections: [],
+          }));
+          setSavedInventory(fallback);
+          resetInventory(fallback);
+        }
+      } finally {
+        setIsLoaded(true);
       }
     };
     
     initData();
-  }, []);
+  }, [resetInventory]);
 
-  // Async save to IndexedDB
-  const handleSaveToStorage = useCallback(async () => {
+  // Async save to IndexedDB. Throws so each caller can report failures its own way.
+  // Resolves to what is now stored, or null when another save was already running.
+  const persistInventory = useCallback(async (): Promise<Inventory | null> => {
+    if (isSavingRef.current) return null;
+    isSavingRef.current = true;
     setSaveStatus('saving');
     try {
-      await StorageService.savePrizes(prizes);
-      setIsDirty(false);
+      await StorageService.saveInventoryChanges(StorageService.diffInventory(savedInventory, inventory));
+      setSavedInventory(inventory);
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
+      return inventory;
+    } catch (error) {
+      setSaveStatus('idle');
+      throw error;
+    } finally {
+      isSavingRef.current = false;
+    }
+  }, [inventory, savedInventory]);
+
+  const handleSaveToStorage = useCallback(async () => {
+    try {
+      await persistInventory();
     } catch (error) {
       console.error("Storage error:", error);
       alert("【エラー】データの保存に失敗しました。ブラウザの設定でデータベースの使用が許可されているか確認してください。");
-      setSaveStatus('idle');
     }
-  }, [prizes]);
+  }, [persistInventory]);
+
+  const handleToggleSaveMode = useCallback(() => {
+    const next: SaveMode = saveMode === 'auto' ? 'manual' : 'auto';
+    setSaveMode(next);
+    SettingsService.set('save-mode', next);
+    setShowTools(false);
+  }, [saveMode]);
+
+  const syncAdapter = useMemo(
+    () => (syncSettings.enabled && syncSettings.url ? new RestSyncAdapter(syncSettings.url, syncSettings.token) : null),
+    [syncSettings]
+  );
+
+  // Saves, sends what changed since the last sync and takes in what other devices sent.
+  // Received changes can be undone like any other change; undoing sends the old values back.
+  const runSync = useCallback(async () => {
+    if (!syncAdapter || !isLoaded || recoveryDraft || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    setSyncStatus('syncing');
+    try {
+      const saved = await persistInventory();
+      // Another save is running; the next sync picks up what it wrote
+      if (!saved) {
+        setSyncStatus('idle');
+        return;
+      }
+      const { outcome, state } = await syncInventory(syncAdapter, saved, syncState);
+      setSyncState(state);
+      SettingsService.set('sync-state', state);
+      if (StorageService.countChanges(outcome.changes) > 0) {
+        setSavedInventory((current: Inventory) => StorageService.applyInventoryChanges(current, outcome.changes));
+        recordInventoryChange(`他の端末から${outcome.received}件の変更を受け取りました`, (current: Inventory) =>
+          normalizeInventory(StorageService.applyInventoryChanges(current, withoutLocalEdits(outcome.changes, saved, current)))
+        );
+      }
+      if (outcome.conflicts > 0) {
+        setToast({ id: Date.now(), message: `${outcome.conflicts}件の競合は新しい方の変更を残しました` });
+      }
+      setSyncError(null);
+      setSyncStatus('idle');
+    } catch (error) {
+      console.error("Sync error:", error);
+      setSyncError(error instanceof Error ? error.message : String(error));
+      setSyncStatus(navigator.onLine ? 'error' : 'offline');
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [syncAdapter, isLoaded, recoveryDraft, persistInventory, syncState, recordInventoryChange]);
+
+  // Timers and events below always call the latest runSync
+  const runSyncRef = useRef(runSync);
+  runSyncRef.current = runSync;
 
-  const handleExport = useCallback(() => {
-    const dataStr = JSON.stringify(prizes, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-    const exportFileDefaultName = `crane_game_inventory_${new Date().toISOString().split('T')[0]}.json`;
+  const handleSaveSyncSettings = useCallback((next: SyncSettings) => {
+    // Another server has none of this device's data yet, so everything is sent again
+    if (next.url !== syncSettings.url) {
+      setSyncState(initialSyncState);
+      SettingsService.set('sync-state', initialSyncState);
+    }
+    setSyncSettings(next);
+    SettingsService.set('sync', next);
+    setSyncStatus('idle');
+    setSyncError(null);
+    setIsSyncSettingsOpen(false);
+  }, [syncSettings.url]);
 
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
+  // While sync is on, changes are saved and sent shortly after the last edit
+  useEffect(() => {
+    if (!syncAdapter || !isDirty) return;
+    const timer = setTimeout(() => runSyncRef.current(), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [syncAdapter, isDirty, inventory]);
+
+  useEffect(() => {
+    if (!syncAdapter || !isLoaded) return;
+    const sync = () => runSyncRef.current();
+    sync();
+    const timer = setInterval(sync, SYNC_INTERVAL);
+    window.addEventListener('online', sync);
+    window.addEventListener('focus', sync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', sync);
+      window.removeEventListener('focus', sync);
+    };
+  }, [syncAdapter, isLoaded]);
+
+  // The new build reloads the page, so unsaved changes are written first
+  const handleApplyUpdate = useCallback(async () => {
+    if (isDirty) {
+      try {
+        await persistInventory();
+      } catch {
+        setToast({ id: Date.now(), message: '保存に失敗したため更新を中止しました' });
+        return;
+      }
+    }
+    applyUpdate();
+  }, [isDirty, persistInventory, applyUpdate]);
+
+  // Autosave: write shortly after the last change. A failed attempt is retried on the next change.
+  useEffect(() => {
+    if (saveMode !== 'auto' || syncAdapter || !isDirty || !isLoaded || recoveryDraft) return;
+    const timer = setTimeout(() => {
+      persistInventory().catch(error => {
+        console.error("Autosave error:", error);
+        setToast({ id: Date.now(), message: '自動保存に失敗しました', actionLabel: '再試行', onAction: () => handleSaveToStorage() });
+      });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [saveMode, syncAdapter, isDirty, isLoaded, recoveryDraft, persistInventory, handleSaveToStorage]);
+
+  // Recovery journal: keep the unsaved edits in IndexedDB so they survive a crash or closed tab
+  useEffect(() => {
+    if (!isLoaded || recoveryDraft) return;
+    const timer = setTimeout(() => {
+      const task = isDirty
+        ? StorageService.saveDraft({ changes: StorageService.diffInventory(savedInventory, inventory), updatedAt: new Date().toISOString() })
+        : StorageService.clearDraft();
+      task.catch(error => console.error("Failed to update recovery journal", error));
+    }, JOURNAL_DELAY);
+    return () => clearTimeout(timer);
+  }, [inventory, savedInventory, isDirty, isLoaded, recoveryDraft]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  // replaceState keeps typing in the search box from piling up history entries
+  useEffect(() => {
+    const hash = viewStateToHash({ search: searchTerm, filter, sortOrder, displayMode });
+    if (hash === window.location.hash.replace(/^#/, '')) return;
+    window.history.replaceState(null, '', hash ? `#${hash}` : window.location.pathname + window.location.search);
+  }, [searchTerm, filter, sortOrder, displayMode]);
+
+  // Opening a bookmarked view in an already open tab
+  useEffect(() => {
+    const handleHashChange = () => {
+      const view = viewStateFromHash(window.location.hash);
+      setSearchTerm(view.search);
+      setFilter(view.filter);
+      setSortOrder(view.sortOrder);
+      setDisplayMode(view.displayMode);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const handleRestoreDraft = useCallback(() => {
+    if (!recoveryDraft) return;
+    updateInventory('前回の未保存の変更を復元しました', current =>
+      StorageService.applyInventoryChanges(current, recoveryDraft.changes)
+    );
+    setRecoveryDraft(null);
+  }, [recoveryDraft, updateInventory]);
+
+  const handleDiscardDraft = useCallback(() => {
+    StorageService.clearDraft().catch(error => console.error("Failed to clear recovery journal", error));
+    setRecoveryDraft(null);
+  }, []);
+
+  // With a collection id only that collection's prizes are saved; shared data always goes along
+  const handleExport = useCallback(async (collectionId?: string) => {
     setShowTools(false);
-  }, [prizes]);
+    setIsTransferring(true);
+    try {
+      const source = collectionId ? collectionSubset(inventory, collectionId) : inventory;
+      // Photos live in their own store, so inline them to keep the backup self-contained
+      const backup = await createBackup(
+        await PhotoService.inlinePhotos(source.prizes),
+        source.movements,
+        source.masters,
+        source.arcades,
+        source.locations,
+        source.collections
+      );
+      const dataStr = JSON.stringify(backup, null, 2);
+      downloadBlob(new Blob([dataStr], { type: 'application/json' }), datedFileName('crane_game_inventory', 'json'));
+    } catch (error) {
+      console.error("Export error:", error);
+      alert('バックアップの作成に失敗しました。');
+    } finally {
+      setIsTransferring(false);
+    }
+  }, [inventory]);
 
   const handleImport = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const content = e.target?.result as string;
-        const importedData = JSON.parse(content);
-        if (Array.isArray(importedData)) {
-          if (confirm('現在のリストを上書きしてインポートしますか？')) {
-            setPrizes(importedData);
-            setIsDirty(true);
-            alert('インポート完了しました。「保存する」ボタンを押して確定させてください。');
-          }
-        } else {
-          alert('不正なファイル形式です。');
-        }
+        const parsed = await parseBackup(JSON.parse(content));
+        setIsTransferring(true);
+        setPendingImport({ ...parsed, prizes: await PhotoService.extractInlinePhotos(parsed.prizes) });
       } catch (error) {
-        alert('ファイルの読み込みに失敗しました。');
+        console.error("Import error:", error);
+        alert(error instanceof BackupFormatError ? error.message : 'ファイルの読み込みに失敗しました。');
+      } finally {
+        setIsTransferring(false);
       }
     };
     reader.readAsText(file);
@@ -121,77 +569,447 @@ const App: React.FC = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   }, []);
 
+  // Prizes outside the import's scope (other collections) are kept as they are, with their history
+  const handleReplaceImport = useCallback((scoped: ScopedImport) => {
+    if (!pendingImport) return;
+    const { masters: importedMasters, arcades: importedArcades, locations: importedLocations, collections: importedCollections } = pendingImport;
+    const { prizes: importedPrizes, movements: importedMovements } = scoped;
+    const importedIds = new Set(importedPrizes.map(p => p.id));
+    updateInventory(`${importedPrizes.length}件をインポートしました`, current => {
+      const kept = current.prizes.filter(p => !inImportScope(p, scoped));
+      const keptIds = new Set(kept.map(p => p.id));
+      return {
+        prizes: [...kept, ...importedPrizes],
+        // Categories and makers are settings rather than inventory, so local ones are kept
+        masters: importedMasters ? mergeMasterItems(current.masters, importedMasters) : current.masters,
+        arcades: importedArcades ? mergeArcades(current.arcades, importedArcades) : current.arcades,
+        locations: importedLocations ? mergeLocations(current.locations, importedLocations) : current.locations,
+        // Read into one collection, the file's own collections are not needed
+        collections: importedCollections && scoped.collectionId === null
+          ? mergeCollections(current.collections, importedCollections)
+          : current.collections,
+        movements: [
+          ...current.movements.filter(m => keptIds.has(m.prizeId)),
+          // v1 files carry no ledger, so the current one is kept and the difference recorded
+          ...(importedMovements || [
+            ...current.movements.filter(m => importedIds.has(m.prizeId)),
+            ...movementsForReplacement(current.prizes.filter(p => inImportScope(p, scoped)), importedPrizes, 'バックアップから復元'),
+          ]),
+        ],
+      };
+    });
+    setPendingImport(null);
+  }, [pendingImport, updateInventory]);
+
+  const handleMergeImport = useCallback((result: MergeResult, scoped: ScopedImport) => {
+    updateInventory('バックアップを統合しました', current => {
+      const merged = [...current.prizes.filter(p => !inImportScope(p, scoped)), ...result.prizes];
+      const mergedIds = new Set(merged.map(p => p.id));
+      const adopted = adoptedMovements(current.movements, scoped.movements || [], result);
+      return {
+        prizes: merged,
+        masters: pendingImport?.masters ? mergeMasterItems(current.masters, pendingImport.masters) : current.masters,
+        arcades: pendingImport?.arcades ? mergeArcades(current.arcades, pendingImport.arcades) : current.arcades,
+        locations: pendingImport?.locations ? mergeLocations(current.locations, pendingImport.locations) : current.locations,
+        collections: pendingImport?.collections && scoped.collectionId === null
+          ? mergeCollections(current.collections, pendingImport.collections)
+          : current.collections,
+        movements: [
+          ...current.movements.filter(m => mergedIds.has(m.prizeId)),
+          ...adopted,
+          ...movementsForReplacement(current.prizes, result.prizes, 'バックアップから統合', adopted),
+        ],
+      };
+    });
+    setPendingImport(null);
+  }, [pendingImport, updateInventory]);
+
+  const handleCsvFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setShowTools(false);
+    if (csvInputRef.current) csvInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const rows = parseCsv(decodeCsv(await readFileAsArrayBuffer(file)));
+      if (rows.length === 0) {
+        alert('CSVにデータがありません。');
+        return;
+      }
+      setCsvImport({ fileName: file.name, rows });
+    } catch (error) {
+      console.error("CSV read error:", error);
+      alert('ファイルの読み込みに失敗しました。');
+    }
+  }, []);
+
+  // Rows only ever update prizes of the collection on screen, so every row belongs to it
+  const handleApplyCsv = useCallback((rows: CsvImportRow[]) => {
+    const imported = rows.map(r => ({ ...r.prize!, collectionId: activeCollectionId }));
+    updateInventory(`CSVから${imported.length}件を取り込みました`, current => {
+      const importedById = new Map(imported.map(p => [p.id, p]));
+      const existingIds = new Set(current.prizes.map(p => p.id));
+      return {
+        ...current,
+        prizes: [
+          ...current.prizes.map(p => importedById.get(p.id) || p),
+          ...imported.filter(p => !existingIds.has(p.id)),
+        ],
+        movements: [...current.movements, ...movementsForReplacement(current.prizes, imported, 'CSVインポート')],
+      };
+    });
+    setCsvImport(null);
+  }, [activeCollectionId, updateInventory]);
+
+  // Only the collection on screen; the others and the categories, makers, arcades and storage locations are kept
   const handleClearAll = useCallback(() => {
-    if (confirm('すべての在庫データを削除しますか？この操作は取り消せません。')) {
-      setPrizes([]);
-      setIsDirty(true);
+    const name = activeCollection.name;
+    if (confirm(`「${name}」の在庫データをすべて削除しますか？（保存する前なら「元に戻す」で復元できます）`)) {
+      updateInventory(`「${name}」のデータを消去しました`, current => {
+        const removedIds = new Set<string>(current.prizes.filter(p => collectionOf(p) === activeCollectionId).map(p => p.id));
+        return deletePrizes(current, removedIds);
+      });
       setShowTools(false);
     }
-  }, []);
+  }, [activeCollection.name, activeCollectionId, updateInventory]);
 
   const handleSavePrize = useCallback((prize: Prize) => {
-    setPrizes(prevPrizes => {
-      const existingIndex = prevPrizes.findIndex(p => p.id === prize.id);
-      let nextPrizes;
-      if (existingIndex > -1) {
-        nextPrizes = [...prevPrizes];
-        nextPrizes[existingIndex] = prize;
-      } else {
-        nextPrizes = [...prevPrizes, prize];
+    const isNew = !prizes.some(p => p.id === prize.id);
+    updateInventory(`「${prize.name}」を${isNew ? '追加' : '更新'}しました`, current => {
+      const { prizes: prevPrizes, movements: prevMovements } = current;
+      const existing = prevPrizes.find(p => p.id === prize.id);
+      if (existing) {
+        const delta = prize.quantity - existing.quantity;
+        return {
+          ...current,
+          prizes: prevPrizes.map(p => (p.id === prize.id ? prize : p)),
+          movements: delta !== 0 ? [...prevMovements, createMovement(prize.id, delta, 'correction')] : prevMovements,
+        };
       }
-      setIsDirty(true);
-      return nextPrizes;
+      return addPrize(current, { ...prize, collectionId: activeCollectionId });
     });
-  }, []);
+  }, [prizes, activeCollectionId, updateInventory]);
 
+  // A new prize that turned out to be registered already: its items, cost and store go onto the existing one
+  const handleMergeNewPrize = useCallback((targetId: string, prize: Prize) => {
+    const target = prizes.find(p => p.id === targetId);
+    if (!target) return;
+    updateInventory(`「${target.name}」に${prize.quantity}個追加しました`, current =>
+      mergePrizes(addPrize(current, { ...prize, collectionId: activeCollectionId }), targetId, prize.id)
+    );
+  }, [prizes, activeCollectionId, updateInventory]);
+
+  const handleMergeDuplicates = useCallback((targetId: string, sourceId: string) => {
+    const target = prizes.find(p => p.id === targetId);
+    const source = prizes.find(p => p.id === sourceId);
+    if (!target || !source) return;
+    updateInventory(`「${source.name}」を「${target.name}」に統合しました`, current => mergePrizes(current, targetId, sourceId));
+  }, [prizes, updateInventory]);
+
+  // No confirm() here: the toast offers 元に戻す instead
   const handleDeletePrize = useCallback((prizeId: string) => {
-    if (confirm('この景品を削除してもよろしいですか？')) {
-      setPrizes(prevPrizes => {
-        const next = prevPrizes.filter(p => p.id !== prizeId);
-        setIsDirty(true);
-        return next;
-      });
-    }
-  }, []);
+    const prize = prizes.find(p => p.id === prizeId);
+    if (!prize) return;
+    updateInventory(`「${prize.name}」を削除しました`, current => ({
+      ...current,
+      prizes: current.prizes.filter(p => p.id !== prizeId),
+      movements: current.movements.filter(m => m.prizeId !== prizeId),
+    }));
+  }, [prizes, updateInventory]);
 
-  const handleQuantityChange = useCallback((prizeId: string, newQuantity: number) => {
-    setPrizes(prevPrizes => {
-      const next = prevPrizes.map(p =>
-        p.id === prizeId ? { ...p, quantity: newQuantity } : p
-      );
-      setIsDirty(true);
-      return next;
+  const handleAddMovement = useCallback((
+    prizeId: string,
+    delta: number,
+    type: MovementType,
+    date: string,
+    memo: string,
+    win: { arcadeId?: string; cost?: PlayCost } = {}
+  ) => {
+    const prize = prizes.find(p => p.id === prizeId);
+    if (!prize) return;
+    updateInventory(`「${prize.name}」に履歴を追加しました`, current => {
+      const target = current.prizes.find(p => p.id === prizeId);
+      if (!target) return current;
+      // Taking off more than is in stock only records what there was
+      const applied = Math.max(-target.quantity, delta);
+      if (applied === 0) return current;
+      return {
+        ...current,
+        prizes: current.prizes.map(p =>
+          p.id === prizeId ? { ...p, quantity: p.quantity + applied, updatedAt: new Date().toISOString() } : p
+        ),
+        movements: [...current.movements, createMovement(prizeId, applied, type, { date, memo, ...win })],
+      };
     });
+  }, [prizes, updateInventory]);
+
+  // Sets one prize's quantity from its current value and records the difference as a movement
+  const changePrizeQuantity = useCallback((prizeId: string, label: string, quantityOf: (prize: Prize) => number, type?: MovementType) => {
+    updateInventory(label, current => {
+      const prize = current.prizes.find(p => p.id === prizeId);
+      if (!prize) return current;
+      const newQuantity = quantityOf(prize);
+      if (prize.quantity === newQuantity) return current;
+      return {
+        ...current,
+        prizes: current.prizes.map(p => (p.id === prizeId ? { ...p, quantity: newQuantity, updatedAt: new Date().toISOString() } : p)),
+        movements: [...current.movements, createMovement(prizeId, newQuantity - prize.quantity, type)],
+      };
+    });
+  }, [updateInventory]);
+
+  const handleQuantityChange = useCallback((prizeId: string, newQuantity: number, type?: MovementType) => {
+    const target = prizes.find(p => p.id === prizeId);
+    if (!target) return;
+    changePrizeQuantity(prizeId, `「${target.name}」の数量を${newQuantity}個にしました`, () => newQuantity, type);
+  }, [prizes, changePrizeQuantity]);
+
+  // Counted from the current quantity, so quick scans of the same code each add one
+  const handleScanIncrement = useCallback((prize: Prize) => {
+    changePrizeQuantity(prize.id, `「${prize.name}」を1個増やしました`, current => current.quantity + 1, 'won');
+  }, [changePrizeQuantity]);
+
+  const handleRegisterBarcode = useCallback((barcode: string) => {
+    setIsScannerOpen(false);
+    setPrizeToEdit(null);
+    setNewPrizeBarcode(barcode);
+    setIsModalOpen(true);
+  }, []);
+
+  const handleViewPhoto = useCallback((prize: Prize, index = 0) => setPhotoToView({ prize, index }), []);
+  const handleEditPrize = useCallback((prize: Prize) => {
+    setPrizeToEdit(prize);
+    setIsModalOpen(true);
+  }, []);
+  const handleShowHistory = useCallback((prize: Prize) => setHistoryPrizeId(prize.id), []);
+  const handleTransferPrize = useCallback((prize: Prize) => setTransferPrizes([prize]), []);
+  const handleClosePhoto = useCallback(() => setPhotoToView(null), []);
+
+  // Archived items included; each view decides whether to show them
+  const categoryItems = useMemo(() => masterItemsOf(masters, 'category', true), [masters]);
+  const manufacturerItems = useMemo(() => masterItemsOf(masters, 'manufacturer', true), [masters]);
+  const categoryColors = useMemo(() => masterColors(masters, 'category'), [masters]);
+  const manufacturerColors = useMemo(() => masterColors(masters, 'manufacturer'), [masters]);
+  const knownMasterNames = useMemo(
+    () => ({ categories: masterNamesOf(masters, 'category', true), manufacturers: masterNamesOf(masters, 'manufacturer', true) }),
+    [masters]
+  );
+
+  // Everything below the header works on the collection on screen
+  const collectionPrizes = useMemo(() => prizes.filter(p => collectionOf(p) === activeCollectionId), [prizes, activeCollectionId]);
+  const collectionCounts = useMemo(() => countByCollection(prizes), [prizes]);
+  const sortedCollections = useMemo(() => sortCollections(collections), [collections]);
+
+  const handleSelectCollection = useCallback((collectionId: string) => {
+    setSelectedCollectionId(collectionId);
+    SettingsService.set('active-collection', collectionId);
+  }, []);
+
+  const handleTransfer = useCallback((mode: TransferMode, collectionId: string) => {
+    if (!transferPrizes) return;
+    const prizeIds = new Set<string>(transferPrizes.map((p: Prize) => p.id));
+    const subject = transferPrizes.length === 1 ? `「${transferPrizes[0].name}」` : `${transferPrizes.length}件`;
+    const target = collections.find(c => c.id === collectionId)?.name || '';
+    updateInventory(`${subject}を「${target}」へ${mode === 'move' ? '移動' : 'コピー'}しました`, current =>
+      mode === 'move' ? movePrizesTo(current, prizeIds, collectionId) : copyPrizesTo(current, prizeIds, collectionId)
+    );
+    setTransferPrizes(null);
+  }, [transferPrizes, collections, updateInventory]);
+
+  const tagCounts = useMemo(() => countTags(collectionPrizes), [collectionPrizes]);
+  const costRecords = useMemo(() => buildCostRecords(collectionPrizes, movements), [collectionPrizes, movements]);
+  const costSummary = useMemo(() => summarizeCosts(costRecords), [costRecords]);
+  const prizeSpending = useMemo(() => spentByPrize(costRecords), [costRecords]);
+  const arcadeLabels = useMemo(() => Object.fromEntries(arcades.map(a => [a.id, arcadeLabel(a)])), [arcades]);
+  const locationLabels = useMemo(() => locationPaths(locations), [locations]);
+
+  const handleFilterPresetsChange = useCallback((presets: FilterPreset[]) => {
+    setFilterPresets(presets);
+    SettingsService.set('filter-presets', presets);
+  }, []);
+
+  // The prizes are renamed with the item; the filter on screen and the saved ones follow here
+  const handleMasterRenamed = useCallback((kind: MasterKind, oldName: string, newName: string) => {
+    setFilter(current => renameInFilter(current, kind, oldName, newName));
+    handleFilterPresetsChange(filterPresets.map(preset => {
+      const renamed = renameInFilter(preset.filter, kind, oldName, newName);
+      return renamed === preset.filter ? preset : { ...preset, filter: renamed };
+    }));
+  }, [filterPresets, handleFilterPresetsChange]);
+
+  const toggleTagFilter = useCallback((tag: string) => {
+    setFilter(current => ({
+      ...current,
+      tags: current.tags.includes(tag) ? current.tags.filter(t => t !== tag) : [...current.tags, tag],
+    }));
   }, []);
 
   const stats = useMemo(() => {
-    const totalTypes = prizes.length;
-    const totalQuantity = prizes.reduce((sum, p) => sum + p.quantity, 0);
-    const categoryCount = prizes.reduce((acc, p) => {
+    const totalTypes = collectionPrizes.length;
+    const totalQuantity = collectionPrizes.reduce((sum, p) => sum + p.quantity, 0);
+    const categoryCount = collectionPrizes.reduce((acc, p) => {
       acc[p.category] = (acc[p.category] || 0) + p.quantity;
       return acc;
     }, {} as Record<string, number>);
     return { totalTypes, totalQuantity, categoryCount };
-  }, [prizes]);
+  }, [collectionPrizes]);
+
+  // The search runs once typing pauses; clearing the box applies at once
+  const debouncedSearchTerm = useDebouncedValue(searchTerm, SEARCH_DELAY);
+  const appliedSearchTerm = searchTerm.trim() ? debouncedSearchTerm : '';
+  const searchTerms = useMemo(() => parseSearchQuery(appliedSearchTerm), [appliedSearchTerm]);
+  const isSearching = searchTerms.length > 0;
+  // Only built while searching, and again whenever the prizes change
+  const searchIndex = useMemo(() => (isSearching ? buildSearchIndex(collectionPrizes) : null), [collectionPrizes, isSearching]);
+
+  // Matched ranges per prize id; null while the search box is empty
+  const searchMatches = useMemo(
+    () => (searchIndex && isSearching ? searchPrizes(searchIndex, searchTerms) : null),
+    [searchIndex, isSearching, searchTerms]
+  );
+
+  const activeFilterCount = countPanelFilters(filter);
+
+  // A room or shelf also matches what is in the boxes inside it
+  const locationScope = useMemo(
+    () => (filter.location && filter.location !== NO_LOCATION ? locationWithDescendants(locations, filter.location) : undefined),
+    [locations, filter.location]
+  );
 
   const filteredAndSortedPrizes = useMemo(() => {
-    const filtered = prizes
+    const filtered = collectionPrizes
       .filter(prize => {
-        const nameMatch = prize.name.toLowerCase().includes(searchTerm.toLowerCase());
-        const categoryMatch = selectedCategory === 'すべて' || prize.category === selectedCategory;
-        return nameMatch && categoryMatch;
+        const searchMatch = !searchMatches || searchMatches.has(prize.id);
+        return searchMatch && matchesFilter(prize, filter, locationScope);
       });
 
+      let sorted: Prize[];
       switch (sortOrder) {
         case 'name-asc':
-          return [...filtered].sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+          sorted = [...filtered].sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+          break;
         case 'name-desc':
-          return [...filtered].sort((a, b) => b.name.localeCompare(a.name, 'ja'));
+          sorted = [...filtered].sort((a, b) => b.name.localeCompare(a.name, 'ja'));
+          break;
         case 'date-desc':
         default:
-          return [...filtered].sort((a, b) => new Date(b.acquisitionDate).getTime() - new Date(a.acquisitionDate).getTime());
+          sorted = [...filtered].sort((a, b) => new Date(b.acquisitionDate).getTime() - new Date(a.acquisitionDate).getTime());
       }
-  }, [prizes, searchTerm, selectedCategory, sortOrder]);
+      // Header sorts are stable, so rows that tie keep the sort order above
+      return displayMode === 'list' ? sortByColumns(sorted, columnSorts, locationLabels) : sorted;
+  }, [collectionPrizes, searchMatches, filter, locationScope, sortOrder, displayMode, columnSorts, locationLabels]);
+
+  const handleColumnSortChange = useCallback((sorts: ColumnSort[]) => {
+    setColumnSorts(sorts);
+    SettingsService.set('list-sort', sorts);
+  }, []);
+
+  const handleSortOrderChange = useCallback((order: SortOrder) => {
+    setSortOrder(order);
+    handleColumnSortChange([]);
+  }, [handleColumnSortChange]);
+
+  const selectionActive = isSelecting && displayMode !== 'dashboard';
+  const listSortActive = displayMode === 'list' && columnSorts.length > 0;
+  const selectedPrizes = useMemo(
+    () => (selectionActive ? filteredAndSortedPrizes.filter(p => selectedIds.has(p.id)) : []),
+    [selectionActive, filteredAndSortedPrizes, selectedIds]
+  );
+
+  const handleToggleSelecting = useCallback(() => {
+    setIsSelecting(current => !current);
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  }, []);
+
+  // Shift extends from the last clicked prize to this one, in the order on screen
+  const handleToggleSelect = useCallback((prizeId: string, extendRange: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    if (extendRange && anchor && anchor !== prizeId) {
+      const range = idRange(filteredAndSortedPrizes.map(p => p.id), anchor, prizeId);
+      setSelectedIds(current => new Set([...current, ...range]));
+      return;
+    }
+    selectionAnchorRef.current = prizeId;
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(prizeId)) next.delete(prizeId);
+      else next.add(prizeId);
+      return next;
+    });
+  }, [filteredAndSortedPrizes]);
+
+  const handleSelectAllVisible = useCallback(() => {
+    setSelectedIds(new Set(filteredAndSortedPrizes.map(p => p.id)));
+  }, [filteredAndSortedPrizes]);
+
+  const handleClearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!selectionActive) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isEditableTarget(event.target)) setIsSelecting(false);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selectionActive]);
+
+  const handleToggleSelectAll = useCallback(() => {
+    if (filteredAndSortedPrizes.every(p => selectedIds.has(p.id))) handleClearSelection();
+    else handleSelectAllVisible();
+  }, [filteredAndSortedPrizes, selectedIds, handleClearSelection, handleSelectAllVisible]);
+
+  // No confirm() here either: the toast offers 元に戻す
+  const handleBulkDelete = useCallback(() => {
+    if (selectedPrizes.length === 0) return;
+    const ids = new Set<string>(selectedPrizes.map((p: Prize) => p.id));
+    updateInventory(`${ids.size}件を削除しました`, current => deletePrizes(current, ids));
+    handleClearSelection();
+  }, [selectedPrizes, updateInventory, handleClearSelection]);
+
+  const handleBulkSetFields = useCallback((changes: PrizeFieldChanges) => {
+    const ids = new Set<string>(selectedPrizes.map((p: Prize) => p.id));
+    updateInventory(`${ids.size}件を更新しました`, current => setPrizeFields(current, ids, changes));
+  }, [selectedPrizes, updateInventory]);
+
+  const handleUpdatePrizeFields = useCallback((prizeId: string, changes: PrizeFieldChanges) => {
+    const prize = prizes.find(p => p.id === prizeId);
+    if (!prize) return;
+    updateInventory(`「${changes.name || prize.name}」を更新しました`, current => setPrizeFields(current, new Set([prizeId]), changes));
+  }, [prizes, updateInventory]);
+
+  const renderPrizeCard = useCallback((prize: Prize) => (
+    <PrizeCard
+      prize={prize}
+      onEdit={handleEditPrize}
+      onDelete={handleDeletePrize}
+      onQuantityChange={handleQuantityChange}
+      onViewPhoto={handleViewPhoto}
+      onShowHistory={handleShowHistory}
+      highlights={searchMatches?.get(prize.id)}
+      categoryColor={categoryColors[prize.category]}
+      onSelectTag={toggleTagFilter}
+      arcadeName={prize.arcadeId ? arcadeLabels[prize.arcadeId] : undefined}
+      spent={prizeSpending.get(prize.id)}
+      location={describePlacements(prize, locationLabels)}
+      onTransfer={collections.length > 1 ? handleTransferPrize : undefined}
+      isSelected={selectionActive && selectedIds.has(prize.id)}
+      onToggleSelect={selectionActive ? handleToggleSelect : undefined}
+    />
+  ), [
+    handleEditPrize, handleDeletePrize, handleQuantityChange, handleViewPhoto, handleShowHistory, searchMatches, categoryColors, toggleTagFilter,
+    arcadeLabels, prizeSpending, locationLabels, collections.length, handleTransferPrize, selectionActive, selectedIds, handleToggleSelect,
+  ]);
+
+  const handleBulkAdjustQuantity = useCallback((delta: number, type: MovementType, date: string) => {
+    const ids = new Set<string>(selectedPrizes.map((p: Prize) => p.id));
+    updateInventory(`${ids.size}件の数量を${Math.abs(delta)}個${delta > 0 ? '増やしました' : '減らしました'}`, current =>
+      adjustQuantities(current, ids, delta, type, { date })
+    );
+  }, [selectedPrizes, updateInventory]);
 
 
   return (
@@ -203,16 +1021,62 @@ const App: React.FC = () => {
         accept=".json" 
         className="hidden" 
       />
+      <input
+        type="file"
+        ref={csvInputRef}
+        onChange={handleCsvFile}
+        accept=".csv,text/csv"
+        className="hidden"
+      />
 
       <header className="bg-white dark:bg-slate-800 shadow-lg sticky top-0 z-20 border-b border-slate-200 dark:border-slate-700">
         <div className="container mx-auto px-4 py-3">
           <div className="flex flex-col md:flex-row justify-between items-center gap-4">
             <div className="flex items-center justify-between w-full md:w-auto gap-4">
-              <h1 className="text-2xl font-black tracking-tighter text-indigo-600 dark:text-indigo-400">
-                CRANE STOCK
-              </h1>
-              
+              <div className="flex items-center gap-3 min-w-0">
+                <h1 className="text-2xl font-black tracking-tighter text-indigo-600 dark:text-indigo-400">
+                  CRANE STOCK
+                </h1>
+                <CollectionSwitcher
+                  collections={sortedCollections}
+                  activeId={activeCollectionId}
+                  counts={collectionCounts}
+                  onSelect={handleSelectCollection}
+                  onManage={() => setIsCollectionsOpen(true)}
+                />
+              </div>
+
               <div className="flex items-center gap-2">
+                <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-full p-1">
+                  <button
+                    onClick={handleUndo}
+                    disabled={!canUndo}
+                    className="p-1.5 rounded-full hover:bg-white dark:hover:bg-slate-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label="元に戻す"
+                    title="元に戻す (Ctrl+Z)"
+                  >
+                    <ArrowUturnLeftIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={!canRedo}
+                    className="p-1.5 rounded-full hover:bg-white dark:hover:bg-slate-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    aria-label="やり直す"
+                    title="やり直す (Ctrl+Shift+Z)"
+                  >
+                    <ArrowUturnRightIcon className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {syncAdapter ? (
+                  <SyncIndicator
+                    status={syncStatus}
+                    hasPendingChanges={isDirty}
+                    lastSyncedAt={syncState.lastSyncedAt}
+                    error={syncError}
+                    onSync={runSync}
+                  />
+                ) : (
                 <button
                   onClick={handleSaveToStorage}
                   disabled={saveStatus === 'saving'}
@@ -229,8 +1093,11 @@ const App: React.FC = () => {
                   ) : (
                     <SaveIcon className="w-4 h-4" />
                   )}
-                  <span className="hidden sm:inline">{saveStatus === 'saving' ? '保存中...' : saveStatus === 'saved' ? '保存完了' : '保存する'}</span>
+                  <span className="hidden sm:inline">
+                    {saveStatus === 'saving' ? '保存中...' : saveStatus === 'saved' ? '保存完了' : saveMode === 'auto' ? (isDirty ? '保存待ち' : '自動保存') : '保存する'}
+                  </span>
                 </button>
+                )}
                 
                 <div className="relative">
                   <button 
@@ -242,18 +1109,64 @@ const App: React.FC = () => {
                   
                   {showTools && (
                     <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden py-1 animate-in zoom-in-95 duration-200 origin-top-right">
-                      <button onClick={handleExport} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                      {!syncAdapter && (
+                        <button onClick={handleToggleSaveMode} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                          <CheckCircleIcon className={`w-5 h-5 ${saveMode === 'auto' ? 'text-emerald-500' : 'text-slate-300 dark:text-slate-600'}`} />
+                          自動保存: {saveMode === 'auto' ? 'ON' : 'OFF'}
+                        </button>
+                      )}
+                      <button onClick={() => { setIsSyncSettingsOpen(true); setShowTools(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <CloudIcon className={`w-5 h-5 ${syncAdapter ? 'text-emerald-500' : 'text-slate-300 dark:text-slate-600'}`} />
+                        同期: {syncAdapter ? 'ON' : 'OFF'}
+                      </button>
+                      <button onClick={() => { setIsMasterDataOpen(true); setShowTools(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <TagIcon className="w-5 h-5 text-indigo-500" />
+                        カテゴリ・メーカー管理
+                      </button>
+                      <button onClick={() => { setIsArcadesOpen(true); setShowTools(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <BuildingStorefrontIcon className="w-5 h-5 text-indigo-500" />
+                        ゲームセンター・店舗別実績
+                      </button>
+                      <button onClick={() => { setIsLocationsOpen(true); setShowTools(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <CubeIcon className="w-5 h-5 text-indigo-500" />
+                        保管場所
+                      </button>
+                      <button onClick={() => { setIsCollectionsOpen(true); setShowTools(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <RectangleStackIcon className="w-5 h-5 text-indigo-500" />
+                        コレクション
+                      </button>
+                      <button onClick={() => { setIsDuplicatesOpen(true); setShowTools(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <DocumentDuplicateIcon className="w-5 h-5 text-indigo-500" />
+                        重複チェック
+                      </button>
+                      <div className="h-px bg-slate-100 dark:bg-slate-700 my-1"></div>
+                      <button onClick={() => handleExport()} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
                         <ArrowDownTrayIcon className="w-5 h-5 text-indigo-500" />
-                        バックアップを保存 (JSON)
+                        {collections.length > 1 ? 'すべてのコレクションを保存 (JSON)' : 'バックアップを保存 (JSON)'}
                       </button>
+                      {collections.length > 1 && (
+                        <button onClick={() => handleExport(activeCollectionId)} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors text-left">
+                          <ArrowDownTrayIcon className="w-5 h-5 flex-shrink-0 text-indigo-500" />
+                          <span className="truncate">「{activeCollection.name}」だけを保存 (JSON)</span>
+                        </button>
+                      )}
                       <button onClick={() => { fileInputRef.current?.click(); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
                         <ArrowUpTrayIcon className="w-5 h-5 text-indigo-500" />
                         バックアップから復元
                       </button>
                       <div className="h-px bg-slate-100 dark:bg-slate-700 my-1"></div>
+                      <button onClick={() => { setCsvExportScope('filtered'); setShowTools(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <ArrowDownTrayIcon className="w-5 h-5 text-emerald-500" />
+                        CSVで書き出し
+                      </button>
+                      <button onClick={() => { csvInputRef.current?.click(); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <ArrowUpTrayIcon className="w-5 h-5 text-emerald-500" />
+                        CSVから読み込み
+                      </button>
+                      <div className="h-px bg-slate-100 dark:bg-slate-700 my-1"></div>
                       <button onClick={handleClearAll} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
                         <TrashIcon className="w-5 h-5" />
-                        全データを消去
+                        このコレクションを消去
                       </button>
                     </div>
                   )}
@@ -267,23 +1180,78 @@ const App: React.FC = () => {
                 <input
                   type="text"
                   placeholder="アイテム検索..."
+                  title="名前・備考・メーカー・カテゴリ・JANコードを検索します。「メーカー:タイトー」のように項目を指定できます"
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="w-full pl-9 pr-4 py-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 text-sm"
                 />
               </div>
+
+              <button
+                onClick={() => setIsScannerOpen(true)}
+                className="p-2 rounded-xl border bg-slate-50 dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-500 hover:text-indigo-500 transition-all"
+                aria-label="バーコードで探す"
+                title="バーコードで探す"
+              >
+                <BarcodeIcon className="w-5 h-5" />
+              </button>
               
               <select
-                value={selectedCategory}
-                onChange={(e) => setSelectedCategory(e.target.value as PrizeCategory | 'すべて')}
+                value={filter.category}
+                onChange={(e) => setFilter(current => ({ ...current, category: e.target.value as PrizeCategory | 'すべて' }))}
                 className="px-3 py-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 font-bold"
               >
                 <option value="すべて">すべて</option>
-                {prizeCategories.map(cat => (
-                  <option key={cat} value={cat}>{cat}</option>
+                {categoryItems.filter(c => !c.archived || c.name === filter.category).map(c => (
+                  <option key={c.id} value={c.name}>{c.name}</option>
+                ))}
+              </select>
+
+              <TagFilterMenu
+                tagCounts={tagCounts}
+                selected={filter.tags}
+                mode={filter.tagMode}
+                onChange={(tags, tagMode) => setFilter(current => ({ ...current, tags, tagMode }))}
+              />
+
+              <select
+                value={listSortActive ? '' : sortOrder}
+                onChange={(e) => handleSortOrderChange(e.target.value as SortOrder)}
+                className="px-3 py-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 font-bold"
+                aria-label="並び順"
+              >
+                {listSortActive && <option value="" disabled>表の見出し順</option>}
+                {(Object.keys(sortOrderLabels) as SortOrder[]).map(order => (
+                  <option key={order} value={order}>{sortOrderLabels[order]}</option>
                 ))}
               </select>
 
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`relative p-2 rounded-xl border transition-all ${showFilters ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-500'}`}
+                aria-label="絞り込み"
+                title="絞り込み"
+              >
+                <FunnelIcon className="w-5 h-5" />
+                {activeFilterCount > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 bg-orange-500 text-white text-[10px] font-black rounded-full flex items-center justify-center">
+                    {activeFilterCount}
+                  </span>
+                )}
+              </button>
+
+              {displayMode !== 'dashboard' && (
+                <button
+                  onClick={handleToggleSelecting}
+                  className={`p-2 rounded-xl border transition-all ${selectionActive ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-500'}`}
+                  aria-label="選択"
+                  aria-pressed={selectionActive}
+                  title="複数選択してまとめて操作"
+                >
+                  <CheckCircleIcon className="w-5 h-5" />
+                </button>
+              )}
+
               <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-xl p-1">
                 <button
                   onClick={() => setDisplayMode('card')}
@@ -297,6 +1265,14 @@ const App: React.FC = () => {
                 >
                   <QueueListIcon className="w-4 h-4" />
                 </button>
+                <button
+                  onClick={() => setDisplayMode('dashboard')}
+                  className={`p-1.5 rounded-lg transition-all ${displayMode === 'dashboard' ? 'bg-white dark:bg-slate-600 shadow text-indigo-600' : 'text-slate-400'}`}
+                  aria-label="グラフ"
+                  title="グラフ"
+                >
+                  <ChartBarIcon className="w-4 h-4" />
+                </button>
               </div>
             </div>
           </div>
@@ -316,17 +1292,64 @@ const App: React.FC = () => {
           <div className="col-span-2 bg-indigo-50 dark:bg-indigo-900/20 p-4 rounded-2xl shadow-sm border border-indigo-100 dark:border-indigo-800/30">
             <p className="text-[10px] font-black uppercase text-indigo-400 tracking-widest mb-2">カテゴリ別内訳</p>
             <div className="flex flex-wrap gap-2">
-              {prizeCategories.map(cat => (
-                <div key={cat} className="flex items-center gap-1.5 bg-white dark:bg-slate-800 px-2 py-1 rounded-lg text-xs font-bold border border-indigo-100 dark:border-indigo-800/50">
-                  <span className="text-slate-500">{cat}:</span>
-                  <span className="text-indigo-600 dark:text-indigo-400">{stats.categoryCount[cat] || 0}</span>
+              {categoryItems.filter(c => !c.archived || stats.categoryCount[c.name]).map(c => (
+                <div key={c.id} className="flex items-center gap-1.5 bg-white dark:bg-slate-800 px-2 py-1 rounded-lg text-xs font-bold border border-indigo-100 dark:border-indigo-800/50">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: c.color }} />
+                  <span className="text-slate-500">{c.name}:</span>
+                  <span className="text-indigo-600 dark:text-indigo-400">{stats.categoryCount[c.name] || 0}</span>
                 </div>
               ))}
             </div>
           </div>
+          <div className="col-span-2 bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 flex items-center justify-between gap-4">
+            <div>
+              <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">プレイ費用</p>
+              <p className="text-2xl font-black text-slate-800 dark:text-white">{formatYen(costSummary.totalSpent)}</p>
+              <p className="text-xs text-slate-500 mt-0.5">
+                {costSummary.prizeCount > 0
+                  ? `1景品あたり ${formatYen(costSummary.averagePerPrize)}（${costSummary.prizeCount}件）`
+                  : '費用はまだ記録されていません'}
+              </p>
+            </div>
+            <button
+              onClick={() => setIsCostAnalyticsOpen(true)}
+              className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold rounded-xl hover:bg-slate-200 dark:hover:bg-slate-600 whitespace-nowrap"
+            >
+              分析を見る
+            </button>
+          </div>
+          {tagCounts.length > 0 && (
+            <div className="col-span-2 bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
+              <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-2">タグ</p>
+              <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                {tagCounts.map(({ tag, count }) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTagFilter(tag)}
+                    className={`font-bold transition-colors ${tagCloudSizeClass(count, tagCounts[0].count)} ${filter.tags.includes(tag) ? 'text-indigo-600 dark:text-indigo-400 underline underline-offset-4' : 'text-slate-500 hover:text-indigo-600'}`}
+                    title={`${count}件`}
+                  >
+                    #{tag}
+                    <span className="ml-0.5 text-[10px] text-slate-400">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
-        {prizes.length === 0 ? (
+        {showFilters && (
+          <FilterPanel
+            manufacturers={manufacturerItems}
+            locations={locations}
+            filter={filter}
+            onChange={setFilter}
+            presets={filterPresets}
+            onPresetsChange={handleFilterPresetsChange}
+          />
+        )}
+
+        {collectionPrizes.length === 0 ? (
           <div className="text-center py-20 bg-white dark:bg-slate-800 rounded-3xl border-2 border-dashed border-slate-200 dark:border-slate-700">
             <div className="mx-auto w-20 h-20 bg-slate-50 dark:bg-slate-700/50 rounded-full flex items-center justify-center mb-6 text-slate-300">
               <PlusIcon className="w-10 h-10" />
@@ -337,41 +1360,70 @@ const App: React.FC = () => {
         ) : filteredAndSortedPrizes.length === 0 ? (
            <div className="text-center py-20">
             <p className="text-lg text-slate-400 font-bold">検索条件に一致する景品はありません</p>
+            {(searchTerm || activeFilterCount > 0 || filter.category !== 'すべて' || filter.tags.length > 0) && (
+              <button
+                onClick={() => { setSearchTerm(''); setFilter(emptyFilter); }}
+                className="mt-4 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-sm font-bold rounded-xl hover:bg-slate-200"
+              >
+                条件をクリア
+              </button>
+            )}
           </div>
         ) : (
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-            {displayMode === 'card' ? (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {filteredAndSortedPrizes.map(prize => (
-                  <PrizeCard
-                    key={prize.id}
-                    prize={prize}
-                    onEdit={(p) => { setPrizeToEdit(p); setIsModalOpen(true); }}
-                    onDelete={handleDeletePrize}
-                    onQuantityChange={handleQuantityChange}
-                  />
-                ))}
-              </div>
+            {displayMode === 'dashboard' ? (
+              <Dashboard prizes={filteredAndSortedPrizes} categoryColors={categoryColors} manufacturerColors={manufacturerColors} />
+            ) : displayMode === 'card' ? (
+              <PrizeGrid prizes={filteredAndSortedPrizes} renderCard={renderPrizeCard} />
             ) : (
               <PrizeList
                 prizes={filteredAndSortedPrizes}
-                onEdit={(p) => { setPrizeToEdit(p); setIsModalOpen(true); }}
+                onEdit={handleEditPrize}
                 onDelete={handleDeletePrize}
                 onQuantityChange={handleQuantityChange}
+                onUpdateFields={handleUpdatePrizeFields}
+                onViewPhoto={handleViewPhoto}
+                onShowHistory={handleShowHistory}
+                sorts={columnSorts}
+                onSortChange={handleColumnSortChange}
+                categories={categoryItems}
+                manufacturers={manufacturerItems}
+                highlights={searchMatches}
+                categoryColors={categoryColors}
+                onSelectTag={toggleTagFilter}
+                locationPaths={locationLabels}
+                onTransfer={collections.length > 1 ? handleTransferPrize : undefined}
+                selectedIds={selectionActive ? selectedIds : undefined}
+                onToggleSelect={handleToggleSelect}
+                onToggleSelectAll={handleToggleSelectAll}
               />
             )}
           </div>
         )}
       </main>
 
-      <button
-        onClick={() => { setPrizeToEdit(null); setIsModalOpen(true); }}
-        className="fixed bottom-8 right-8 bg-indigo-600 text-white p-5 rounded-2xl shadow-2xl hover:bg-indigo-700 transition-all transform hover:scale-110 active:scale-95 z-30 ring-4 ring-white dark:ring-slate-900"
-      >
-        <PlusIcon className="h-6 w-6 stroke-[3]" />
-      </button>
+      {selectionActive ? (
+        <BulkActionBar
+          selectedCount={selectedPrizes.length}
+          visibleCount={filteredAndSortedPrizes.length}
+          onSelectAll={handleSelectAllVisible}
+          onClearSelection={handleClearSelection}
+          onEdit={setBulkEditAction}
+          onExport={() => setCsvExportScope('selected')}
+          onTransfer={collections.length > 1 ? () => setTransferPrizes(selectedPrizes) : undefined}
+          onDelete={handleBulkDelete}
+          onDone={handleToggleSelecting}
+        />
+      ) : (
+        <button
+          onClick={() => { setPrizeToEdit(null); setIsModalOpen(true); }}
+          className="fixed bottom-8 right-8 bg-indigo-600 text-white p-5 rounded-2xl shadow-2xl hover:bg-indigo-700 transition-all transform hover:scale-110 active:scale-95 z-30 ring-4 ring-white dark:ring-slate-900"
+        >
+          <PlusIcon className="h-6 w-6 stroke-[3]" />
+        </button>
+      )}
 
-      {isDirty && (
+      {isDirty && saveMode === 'manual' && !syncAdapter && !selectionActive && (
         <div className="fixed bottom-8 left-1/2 -translate-x-1/2 bg-orange-500 text-white px-6 py-3 rounded-full shadow-2xl z-40 flex items-center gap-3 animate-in fade-in slide-in-from-bottom duration-300">
           <span className="text-xs font-black uppercase tracking-widest">未保存のデータがあります</span>
           <button 
@@ -383,11 +1435,149 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {isTransferring && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 px-6 py-4 rounded-2xl shadow-2xl flex items-center gap-3 font-bold text-sm">
+            <ArrowPathIcon className="w-5 h-5 animate-spin text-indigo-500" />
+            写真を処理しています...
+          </div>
+        </div>
+      )}
+
+      <ImportMergeModal
+        backup={pendingImport}
+        inventory={inventory}
+        activeCollection={activeCollection}
+        onReplace={handleReplaceImport}
+        onMerge={handleMergeImport}
+        onClose={() => setPendingImport(null)}
+      />
+
+      <CsvExportModal
+        isOpen={csvExportScope !== null}
+        prizes={csvExportScope === 'selected' ? selectedPrizes : filteredAndSortedPrizes}
+        scopeLabel={csvExportScope === 'selected' ? '選択中の' : undefined}
+        onClose={() => setCsvExportScope(null)}
+      />
+
+      <BulkEditModal
+        action={bulkEditAction}
+        count={selectedPrizes.length}
+        categories={categoryItems}
+        manufacturers={manufacturerItems}
+        onSetFields={handleBulkSetFields}
+        onAdjustQuantity={handleBulkAdjustQuantity}
+        onClose={() => setBulkEditAction(null)}
+      />
+
+      <CsvImportModal
+        rows={csvImport?.rows || null}
+        fileName={csvImport?.fileName || ''}
+        existingPrizes={collectionPrizes}
+        knownNames={knownMasterNames}
+        onApply={handleApplyCsv}
+        onClose={() => setCsvImport(null)}
+      />
+
+      <RecoveryPrompt draft={recoveryDraft} onRestore={handleRestoreDraft} onDiscard={handleDiscardDraft} />
+
+      <Toast key={toast?.id} toast={toast} onDismiss={dismissToast} />
+
+      {updateAvailable && !isUpdateDismissed && (
+        <UpdatePrompt onUpdate={handleApplyUpdate} onDismiss={() => setIsUpdateDismissed(true)} />
+      )}
+
+      <PhotoViewer prize={photoToView?.prize ?? null} initialIndex={photoToView?.index} onClose={handleClosePhoto} />
+
+      <PrizeHistoryModal
+        prize={prizes.find(p => p.id === historyPrizeId) || null}
+        movements={movements}
+        arcades={arcades}
+        onClose={() => setHistoryPrizeId(null)}
+        onAddMovement={handleAddMovement}
+      />
+
       <PrizeFormModal
         isOpen={isModalOpen}
-        onClose={() => { setIsModalOpen(false); setPrizeToEdit(null); }}
+        onClose={() => { setIsModalOpen(false); setPrizeToEdit(null); setNewPrizeBarcode(undefined); }}
         onSave={handleSavePrize}
+        onMergeInto={handleMergeNewPrize}
+        existingPrizes={collectionPrizes}
         prizeToEdit={prizeToEdit}
+        initialBarcode={newPrizeBarcode}
+        categories={categoryItems}
+        manufacturers={manufacturerItems}
+        knownTags={tagCounts}
+        arcades={arcades}
+        locations={locations}
+      />
+
+      <MasterDataModal
+        isOpen={isMasterDataOpen}
+        inventory={inventory}
+        onUpdate={updateInventory}
+        onRenamed={handleMasterRenamed}
+        onClose={() => setIsMasterDataOpen(false)}
+      />
+
+      <CostAnalyticsModal
+        isOpen={isCostAnalyticsOpen}
+        summary={costSummary}
+        categoryColors={categoryColors}
+        onClose={() => setIsCostAnalyticsOpen(false)}
+      />
+
+      <ArcadesModal
+        isOpen={isArcadesOpen}
+        inventory={inventory}
+        onUpdate={updateInventory}
+        onClose={() => setIsArcadesOpen(false)}
+      />
+
+      <LocationsModal
+        isOpen={isLocationsOpen}
+        inventory={inventory}
+        onUpdate={updateInventory}
+        onClose={() => setIsLocationsOpen(false)}
+      />
+
+      <CollectionsModal
+        isOpen={isCollectionsOpen}
+        inventory={inventory}
+        activeId={activeCollectionId}
+        onSelect={handleSelectCollection}
+        onUpdate={updateInventory}
+        onClose={() => setIsCollectionsOpen(false)}
+      />
+
+      <CollectionTransferModal
+        prizes={transferPrizes}
+        collections={collections}
+        onTransfer={handleTransfer}
+        onClose={() => setTransferPrizes(null)}
+      />
+
+      <DuplicatesModal
+        isOpen={isDuplicatesOpen}
+        prizes={collectionPrizes}
+        onMerge={handleMergeDuplicates}
+        onClose={() => setIsDuplicatesOpen(false)}
+      />
+
+      <BarcodeScannerModal
+        isOpen={isScannerOpen}
+        prizes={collectionPrizes}
+        onIncrement={handleScanIncrement}
+        onRegister={handleRegisterBarcode}
+        onClose={() => setIsScannerOpen(false)}
+      />
+
+      <SyncSettingsModal
+        isOpen={isSyncSettingsOpen}
+        settings={syncSettings}
+        lastSyncedAt={syncState.lastSyncedAt}
+        onSave={handleSaveSyncSettings}
+        onClose={() => setIsSyncSettingsOpen(false)}
       />
     </div>
   );
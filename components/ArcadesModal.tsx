@@ -0,0 +1,355 @@
+import React, { useMemo, useState } from 'react';
+import { Arcade, Inventory } from '../types';
+import { commonMachineTypes } from '../constants';
+import {
+  ArcadeFields,
+  ArcadeStats,
+  arcadeLabel,
+  computeArcadeStats,
+  createArcade,
+  removeArcade,
+  statsFor,
+  validateArcade,
+} from '../services/arcades';
+import { masterColors } from '../services/masterData';
+import PencilIcon from './icons/PencilIcon';
+import TrashIcon from './icons/TrashIcon';
+import ArchiveBoxIcon from './icons/ArchiveBoxIcon';
+import ArrowUturnLeftIcon from './icons/ArrowUturnLeftIcon';
+
+interface ArcadesModalProps {
+  isOpen: boolean;
+  inventory: Inventory;
+  // Same contract as App's updateInventory, so every edit can be undone
+  onUpdate: (label: string, update: (current: Inventory) => Inventory) => void;
+  onClose: () => void;
+}
+
+type ArcadeSort = 'won' | 'visit' | 'name';
+
+const sortLabels: Record<ArcadeSort, string> = {
+  won: '獲得数が多い順',
+  visit: '最近行った順',
+  name: '店舗名順',
+};
+
+const emptyFields: ArcadeFields = { name: '', chain: '', area: '', machineTypes: [], notes: '' };
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+const labelClass = "block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1";
+
+const iconButtonClass = "p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-700";
+
+const chipClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-lg text-xs font-bold transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'}`;
+
+// Empty optional fields are stored as missing rather than ''
+const cleanFields = (fields: ArcadeFields): ArcadeFields => ({
+  name: fields.name.trim(),
+  chain: fields.chain?.trim() || undefined,
+  area: fields.area?.trim() || undefined,
+  machineTypes: fields.machineTypes,
+  notes: fields.notes?.trim() || undefined,
+});
+
+const ArcadeForm: React.FC<{
+  initial: ArcadeFields;
+  arcades: Arcade[];
+  onSubmit: (fields: ArcadeFields) => string | null;
+  onCancel: () => void;
+  submitLabel: string;
+}> = ({ initial, arcades, onSubmit, onCancel, submitLabel }) => {
+  const [fields, setFields] = useState<ArcadeFields>(initial);
+  const [customType, setCustomType] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ArcadeFields>) => {
+    setFields({ ...fields, ...changes });
+    setError(null);
+  };
+
+  // Types other stores use come after the common ones
+  const machineTypeChoices = Array.from(new Set([
+    ...commonMachineTypes,
+    ...arcades.flatMap(a => a.machineTypes),
+    ...fields.machineTypes,
+  ]));
+  const chains = Array.from(new Set(arcades.map(a => a.chain).filter(Boolean)));
+  const areas = Array.from(new Set(arcades.map(a => a.area).filter(Boolean)));
+
+  const toggleMachineType = (type: string) => {
+    update({
+      machineTypes: fields.machineTypes.includes(type)
+        ? fields.machineTypes.filter(t => t !== type)
+        : [...fields.machineTypes, type],
+    });
+  };
+
+  const addCustomType = () => {
+    const type = customType.trim();
+    if (type && !fields.machineTypes.includes(type)) update({ machineTypes: [...fields.machineTypes, type] });
+    setCustomType('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(onSubmit(cleanFields(fields)));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-50 dark:bg-slate-700/40 rounded-2xl p-4 space-y-3">
+      <div>
+        <label htmlFor="arcade-name" className={labelClass}>店舗名</label>
+        <input id="arcade-name" type="text" value={fields.name} onChange={(e) => update({ name: e.target.value })} placeholder="例: GiGO 秋葉原1号館" className={inputClass} />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="arcade-chain" className={labelClass}>チェーン</label>
+          <input id="arcade-chain" type="text" list="arcade-chains" value={fields.chain || ''} onChange={(e) => update({ chain: e.target.value })} placeholder="例: GiGO" className={inputClass} />
+          <datalist id="arcade-chains">
+            {chains.map(c => <option key={c} value={c} />)}
+          </datalist>
+        </div>
+        <div>
+          <label htmlFor="arcade-area" className={labelClass}>エリア</label>
+          <input id="arcade-area" type="text" list="arcade-areas" value={fields.area || ''} onChange={(e) => update({ area: e.target.value })} placeholder="例: 秋葉原" className={inputClass} />
+          <datalist id="arcade-areas">
+            {areas.map(a => <option key={a} value={a} />)}
+          </datalist>
+        </div>
+      </div>
+      <div>
+        <p className={labelClass}>機種</p>
+        <div className="flex flex-wrap gap-1.5">
+          {machineTypeChoices.map(type => (
+            <button key={type} type="button" onClick={() => toggleMachineType(type)} className={chipClass(fields.machineTypes.includes(type))}>
+              {type}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={customType}
+            onChange={(e) => setCustomType(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                e.preventDefault();
+                addCustomType();
+              }
+            }}
+            placeholder="その他の機種"
+            className={inputClass}
+            aria-label="その他の機種"
+          />
+          <button type="button" onClick={addCustomType} disabled={!customType.trim()} className="px-3 py-2 bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-200 text-xs font-bold rounded-xl whitespace-nowrap disabled:opacity-50">
+            追加
+          </button>
+        </div>
+      </div>
+      <div>
+        <label htmlFor="arcade-notes" className={labelClass}>メモ</label>
+        <input id="arcade-notes" type="text" value={fields.notes || ''} onChange={(e) => update({ notes: e.target.value })} placeholder="設定が甘い、駐車場あり など" className={inputClass} />
+      </div>
+      {error && <p className="text-xs text-red-500 font-bold ml-1">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="flex-1 py-2 bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-200 text-sm font-bold rounded-xl">
+          キャンセル
+        </button>
+        <button type="submit" disabled={!fields.name.trim()} className="flex-[2] py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-black rounded-xl disabled:bg-indigo-400 disabled:cursor-not-allowed">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const StatsSummary: React.FC<{ stats: ArcadeStats; categoryColors: Record<string, string> }> = ({ stats, categoryColors }) => (
+  <div className="mt-2">
+    <div className="grid grid-cols-3 gap-2 text-center">
+      <div className="bg-slate-50 dark:bg-slate-700/40 rounded-xl py-1.5">
+        <p className="text-[10px] font-black text-slate-400">獲得数</p>
+        <p className="text-sm font-black text-indigo-600 dark:text-indigo-400">{stats.wonCount}<span className="text-[10px] font-normal text-slate-500 ml-0.5">個 / {stats.prizeCount}種</span></p>
+      </div>
+      <div className="bg-slate-50 dark:bg-slate-700/40 rounded-xl py-1.5">
+        <p className="text-[10px] font-black text-slate-400">獲得した日</p>
+        <p className="text-sm font-black text-slate-700 dark:text-slate-200">{stats.visitCount}<span className="text-[10px] font-normal text-slate-500 ml-0.5">日</span></p>
+      </div>
+      <div className="bg-slate-50 dark:bg-slate-700/40 rounded-xl py-1.5">
+        <p className="text-[10px] font-black text-slate-400">最終訪問</p>
+        <p className="text-sm font-black text-slate-700 dark:text-slate-200">{stats.lastVisit || '—'}</p>
+      </div>
+    </div>
+    {stats.wonCount > 0 && (
+      <div className="flex flex-wrap gap-1.5 mt-2">
+        {(Object.entries(stats.categoryCount) as [string, number][])
+          .sort((a, b) => b[1] - a[1])
+          .map(([category, count]) => (
+            <span key={category} className="inline-flex items-center gap-1 text-[11px] font-bold text-slate-500">
+              <span className="w-2 h-2 rounded-full bg-slate-300" style={categoryColors[category] ? { backgroundColor: categoryColors[category] } : undefined} />
+              {category} {count}
+            </span>
+          ))}
+      </div>
+    )}
+  </div>
+);
+
+const ArcadesModal: React.FC<ArcadesModalProps> = ({ isOpen, inventory, onUpdate, onClose }) => {
+  const [sort, setSort] = useState<ArcadeSort>('won');
+  // null: list only, 'new': adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const stats = useMemo(() => computeArcadeStats(inventory.prizes, inventory.movements), [inventory.prizes, inventory.movements]);
+  const categoryColors = useMemo(() => masterColors(inventory.masters, 'category'), [inventory.masters]);
+
+  if (!isOpen) return null;
+
+  const arcades = [...inventory.arcades].sort((a, b) => {
+    if (!!a.archived !== !!b.archived) return a.archived ? 1 : -1;
+    const statsA = statsFor(stats, a.id);
+    const statsB = statsFor(stats, b.id);
+    if (sort === 'won' && statsA.wonCount !== statsB.wonCount) return statsB.wonCount - statsA.wonCount;
+    if (sort === 'visit' && statsA.lastVisit !== statsB.lastVisit) return (statsB.lastVisit || '').localeCompare(statsA.lastVisit || '');
+    return a.name.localeCompare(b.name, 'ja');
+  });
+  const unassigned = stats.get('');
+
+  const handleAdd = (fields: ArcadeFields): string | null => {
+    const error = validateArcade(inventory.arcades, fields);
+    if (error) return error;
+    onUpdate(`「${arcadeLabel(fields)}」を登録しました`, current => ({ ...current, arcades: [...current.arcades, createArcade(fields)] }));
+    setEditingId(null);
+    return null;
+  };
+
+  const handleEdit = (arcade: Arcade, fields: ArcadeFields): string | null => {
+    const error = validateArcade(inventory.arcades, fields, arcade.id);
+    if (error) return error;
+    onUpdate(`「${arcadeLabel(fields)}」を更新しました`, current => ({
+      ...current,
+      arcades: current.arcades.map(a => (a.id === arcade.id ? { ...a, ...fields } : a)),
+    }));
+    setEditingId(null);
+    return null;
+  };
+
+  const handleDelete = (arcade: Arcade) => {
+    const count = statsFor(stats, arcade.id).wonCount;
+    if (count > 0 && !confirm(`「${arcadeLabel(arcade)}」を削除しますか？\n獲得記録${count}件の店舗が「未設定」になります。`)) return;
+    onUpdate(`「${arcadeLabel(arcade)}」を削除しました`, current => removeArcade(current, arcade.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-black text-slate-800 dark:text-white">ゲームセンター</h2>
+            <p className="text-sm text-slate-500 mt-1">店舗ごとの獲得実績を比較できます</p>
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ArcadeSort)}
+            className="px-3 py-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-xs font-bold"
+            aria-label="並び順"
+          >
+            {(Object.keys(sortLabels) as ArcadeSort[]).map(s => (
+              <option key={s} value={s}>{sortLabels[s]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-y-auto flex-grow mt-4 space-y-3">
+          {editingId === 'new' ? (
+            <ArcadeForm initial={emptyFields} arcades={inventory.arcades} onSubmit={handleAdd} onCancel={() => setEditingId(null)} submitLabel="登録する" />
+          ) : (
+            <button
+              type="button"
+              onClick={() => setEditingId('new')}
+              className="w-full py-3 border-2 border-dashed border-slate-200 dark:border-slate-600 rounded-2xl text-sm font-bold text-slate-500 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+            >
+              ＋ 店舗を登録
+            </button>
+          )}
+
+          {arcades.length === 0 && editingId !== 'new' && (
+            <p className="text-center text-sm text-slate-400 font-bold py-6">まだ店舗が登録されていません</p>
+          )}
+
+          {arcades.map(arcade =>
+            editingId === arcade.id ? (
+              <ArcadeForm
+                key={arcade.id}
+                initial={arcade}
+                arcades={inventory.arcades}
+                onSubmit={(fields) => handleEdit(arcade, fields)}
+                onCancel={() => setEditingId(null)}
+                submitLabel="更新する"
+              />
+            ) : (
+              <div key={arcade.id} className={`p-4 rounded-2xl border border-slate-200 dark:border-slate-700 ${arcade.archived ? 'opacity-60' : ''}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-black text-slate-800 dark:text-white truncate">{arcadeLabel(arcade)}</p>
+                    {arcade.chain && <p className="text-xs text-slate-500">{arcade.chain}</p>}
+                  </div>
+                  <div className="flex items-center flex-shrink-0">
+                    <button type="button" onClick={() => setEditingId(arcade.id)} className={iconButtonClass} aria-label="編集">
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onUpdate(
+                        arcade.archived ? `「${arcade.name}」を元に戻しました` : `「${arcade.name}」をアーカイブしました`,
+                        current => ({ ...current, arcades: current.arcades.map(a => (a.id === arcade.id ? { ...a, archived: !a.archived } : a)) })
+                      )}
+                      className={iconButtonClass}
+                      aria-label={arcade.archived ? 'アーカイブを解除' : 'アーカイブ'}
+                      title={arcade.archived ? 'アーカイブを解除' : 'アーカイブ（新規登録の選択肢から外します）'}
+                    >
+                      {arcade.archived ? <ArrowUturnLeftIcon className="w-4 h-4" /> : <ArchiveBoxIcon className="w-4 h-4" />}
+                    </button>
+                    <button type="button" onClick={() => handleDelete(arcade)} className={`${iconButtonClass} hover:text-red-500`} aria-label="削除">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {arcade.machineTypes.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {arcade.machineTypes.map(type => (
+                      <span key={type} className="px-2 py-0.5 bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-300 rounded-md text-[11px] font-bold">{type}</span>
+                    ))}
+                  </div>
+                )}
+                {arcade.notes && <p className="text-xs text-slate-500 mt-2">{arcade.notes}</p>}
+                <StatsSummary stats={statsFor(stats, arcade.id)} categoryColors={categoryColors} />
+              </div>
+            )
+          )}
+
+          {unassigned && (
+            <div className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-700/30">
+              <p className="font-black text-slate-500">店舗未設定</p>
+              <StatsSummary stats={unassigned} categoryColors={categoryColors} />
+            </div>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="mt-4 w-full py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ArcadesModal;
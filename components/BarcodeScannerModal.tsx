@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Prize } from '../types';
+import { barcodeError, barcodeFormats, findPrizesByBarcode, normalizeBarcode } from '../services/barcode';
+import BarcodeIcon from './icons/BarcodeIcon';
+import PlusIcon from './icons/PlusIcon';
+
+interface BarcodeScannerModalProps {
+  isOpen: boolean;
+  prizes: Prize[]; // Prizes a code is looked up in
+  onIncrement: (prize: Prize) => void;
+  onRegister: (barcode: string) => void; // Add a new prize with this code
+  onClose: () => void;
+}
+
+// BarcodeDetector is not in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+type CameraState = 'starting' | 'scanning' | 'unsupported' | 'denied' | 'error';
+
+const SCAN_INTERVAL = 250;
+
+const cameraMessages: Partial<Record<CameraState, string>> = {
+  unsupported: 'このブラウザはカメラでの読み取りに対応していません。コードを入力してください。',
+  denied: 'カメラの使用が許可されていません。コードを入力してください。',
+  error: 'カメラを起動できませんでした。コードを入力してください。',
+};
+
+const createDetector = (): BarcodeDetectorLike | null => {
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector || !navigator.mediaDevices?.getUserMedia) return null;
+  try {
+    return new Detector({ formats: barcodeFormats });
+  } catch {
+    return null; // None of the formats is supported on this device
+  }
+};
+
+const BarcodeScannerModal: React.FC<BarcodeScannerModalProps> = ({ isOpen, prizes, onIncrement, onRegister, onClose }) => {
+  const [cameraState, setCameraState] = useState<CameraState>('starting');
+  const [scannedCode, setScannedCode] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [manualError, setManualError] = useState<string | null>(null);
+  const [incrementedIds, setIncrementedIds] = useState<string[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Read by the detection loop, which outlives renders
+  const isPausedRef = useRef(false);
+
+  useEffect(() => {
+    isPausedRef.current = scannedCode !== null;
+  }, [scannedCode]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setScannedCode(null);
+    setManualCode('');
+    setManualError(null);
+    setIncrementedIds([]);
+
+    const detector = createDetector();
+    if (!detector) {
+      setCameraState('unsupported');
+      return;
+    }
+    setCameraState('starting');
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (!isPausedRef.current && video && video.readyState >= 2) {
+        try {
+          const codes = await detector.detect(video);
+          // Partial reads fail the check digit and are ignored until a clean one comes in
+          const code = codes.map(c => normalizeBarcode(c.rawValue)).find(c => barcodeError(c) === null);
+          if (code && !cancelled) {
+            isPausedRef.current = true;
+            setScannedCode(code);
+            navigator.vibrate?.(50);
+          }
+        } catch (error) {
+          console.warn('Barcode detection failed', error);
+        }
+      }
+      if (!cancelled) timer = setTimeout(scan, SCAN_INTERVAL);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(result => {
+        if (cancelled) {
+          result.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = result;
+        if (videoRef.current) {
+          videoRef.current.srcObject = result;
+          videoRef.current.play().catch(() => {});
+        }
+        setCameraState('scanning');
+        scan();
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Camera unavailable', error);
+        setCameraState(error instanceof DOMException && error.name === 'NotAllowedError' ? 'denied' : 'error');
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const matches = scannedCode ? findPrizesByBarcode(prizes, scannedCode) : [];
+  const cameraMessage = cameraMessages[cameraState];
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeBarcode(manualCode);
+    const problem = barcodeError(code);
+    if (problem) {
+      setManualError(problem);
+      return;
+    }
+    setManualError(null);
+    setScannedCode(code);
+  };
+
+  const handleIncrement = (prize: Prize) => {
+    onIncrement(prize);
+    setIncrementedIds(ids => [...ids, prize.id]);
+  };
+
+  const scanAgain = () => {
+    setScannedCode(null);
+    setManualCode('');
+    setIncrementedIds([]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto flex flex-col gap-4 border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-xl font-black text-slate-800 dark:text-white">バーコードで探す</h2>
+          <p className="text-sm text-slate-500 mt-1">タグのJANコードを枠に写すか、数字を入力してください。</p>
+        </div>
+
+        {!cameraMessage && (
+          <div className={`relative aspect-[4/3] rounded-2xl overflow-hidden bg-slate-900 ${scannedCode ? 'opacity-40' : ''}`}>
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-1/3 border-2 border-white/80 rounded-xl pointer-events-none" />
+            {cameraState === 'starting' && (
+              <p className="absolute inset-0 flex items-center justify-center text-sm font-bold text-white/80">カメラを起動しています...</p>
+            )}
+          </div>
+        )}
+        {cameraMessage && (
+          <p className="text-sm font-bold text-slate-500 bg-slate-50 dark:bg-slate-700/50 rounded-2xl p-4 flex items-center gap-3">
+            <BarcodeIcon className="w-6 h-6 flex-shrink-0 text-slate-400" />
+            {cameraMessage}
+          </p>
+        )}
+
+        {scannedCode ? (
+          <div className="flex flex-col gap-3">
+            <p className="text-xs font-black uppercase tracking-widest text-slate-500 ml-1">
+              読み取ったコード <span className="font-mono normal-case tracking-normal text-slate-700 dark:text-slate-200 ml-1">{scannedCode}</span>
+            </p>
+            {matches.length > 0 ? (
+              <ul className="flex flex-col gap-2">
+                {matches.map(prize => (
+                  <li key={prize.id} className="flex items-center gap-3 bg-slate-50 dark:bg-slate-700/50 rounded-2xl px-4 py-3">
+                    <div className="flex-grow min-w-0">
+                      <p className="font-bold text-slate-800 dark:text-white truncate">{prize.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {prize.category} ・ 在庫 {prize.quantity}個
+                        {incrementedIds.includes(prize.id) && <span className="text-emerald-600 dark:text-emerald-400 font-bold ml-2">+1 しました</span>}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleIncrement(prize)}
+                      className="flex-shrink-0 flex items-center gap-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-black rounded-full transition-all active:scale-95"
+                    >
+                      <PlusIcon className="w-4 h-4 stroke-[3]" />
+                      1
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm font-bold text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-700/50 rounded-2xl px-4 py-3">
+                このコードの景品はまだ登録されていません。
+              </p>
+            )}
+            <div className="flex gap-3">
+              <button
+                onClick={scanAgain}
+                className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all text-sm"
+              >
+                続けて読み取る
+              </button>
+              <button
+                onClick={() => onRegister(scannedCode)}
+                className={`flex-1 py-3 font-black rounded-2xl transition-all text-sm ${
+                  matches.length > 0
+                    ? 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200'
+                    : 'bg-indigo-600 hover:bg-indigo-700 text-white'
+                }`}
+              >
+                {matches.length > 0 ? '別の景品として登録' : '新しく登録する'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleManualSubmit} className="flex flex-col gap-1">
+            <label htmlFor="manual-barcode" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-0.5 ml-1">コードを入力</label>
+            <div className="flex gap-2">
+              <input
+                id="manual-barcode"
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                value={manualCode}
+                onChange={(e) => { setManualCode(e.target.value); setManualError(null); }}
+                placeholder="例: 4901234567894"
+                autoFocus={cameraState === 'unsupported'}
+                className="flex-grow min-w-0 px-3 py-2 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-mono"
+              />
+              <button
+                type="submit"
+                disabled={!manualCode.trim()}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-black rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                検索
+              </button>
+            </div>
+            {manualError && <p className="text-xs text-red-500 font-bold mt-1 ml-1">{manualError}</p>}
+          </form>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScannerModal;
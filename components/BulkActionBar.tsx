@@ -0,0 +1,97 @@
+import React from 'react';
+import { BulkEditAction } from './BulkEditModal';
+import TrashIcon from './icons/TrashIcon';
+import ArrowDownTrayIcon from './icons/ArrowDownTrayIcon';
+import ArrowsRightLeftIcon from './icons/ArrowsRightLeftIcon';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number; // Prizes shown with the current search and filters
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onEdit: (action: BulkEditAction) => void;
+  onExport: () => void;
+  onTransfer?: () => void; // Only offered while there are other collections
+  onDelete: () => void;
+  onDone: () => void;
+}
+
+const editActions: { action: BulkEditAction; label: string }[] = [
+  { action: 'category', label: 'カテゴリ' },
+  { action: 'manufacturer', label: '会社' },
+  { action: 'quantity', label: '数量' },
+  { action: 'date', label: '獲得日' },
+];
+
+const actionClassName = 'flex-shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-black transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// Shown at the bottom of the screen while prizes are being selected
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedCount, visibleCount, onSelectAll, onClearSelection, onEdit, onExport, onTransfer, onDelete, onDone }) => {
+  const nothingSelected = selectedCount === 0;
+  const allSelected = visibleCount > 0 && selectedCount === visibleCount;
+
+  return (
+    <div className="fixed bottom-4 inset-x-4 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-[40rem] z-40 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-3xl shadow-2xl p-3 flex flex-col gap-2 animate-in fade-in slide-in-from-bottom duration-300">
+      <div className="flex items-center justify-between gap-3 px-1">
+        <p className="text-sm font-black text-slate-800 dark:text-white">
+          {selectedCount}件を選択中
+          <span className="ml-2 text-xs font-bold text-slate-400 hidden sm:inline">Shiftキーで範囲選択</span>
+        </p>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={allSelected ? onClearSelection : onSelectAll}
+            className="px-3 py-1.5 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 rounded-lg transition-colors"
+          >
+            {allSelected ? '選択を解除' : `表示中の${visibleCount}件をすべて選択`}
+          </button>
+          <button
+            onClick={onDone}
+            className="px-3 py-1.5 text-xs font-black text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 rounded-lg transition-colors"
+          >
+            完了
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {editActions.map(({ action, label }) => (
+          <button
+            key={action}
+            onClick={() => onEdit(action)}
+            disabled={nothingSelected}
+            className={`${actionClassName} bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200`}
+          >
+            {label}
+          </button>
+        ))}
+        {onTransfer && (
+          <button
+            onClick={onTransfer}
+            disabled={nothingSelected}
+            className={`${actionClassName} bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200`}
+          >
+            <ArrowsRightLeftIcon className="w-4 h-4" />
+            移動・コピー
+          </button>
+        )}
+        <button
+          onClick={onExport}
+          disabled={nothingSelected}
+          className={`${actionClassName} bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200`}
+        >
+          <ArrowDownTrayIcon className="w-4 h-4" />
+          CSV
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={nothingSelected}
+          className={`${actionClassName} bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-100`}
+        >
+          <TrashIcon className="w-4 h-4" />
+          削除
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionBar;
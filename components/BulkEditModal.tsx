@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { MasterItem, MovementType } from '../types';
+import { NO_MANUFACTURER } from '../constants';
+import { PrizeFieldChanges } from '../services/bulk';
+import { decreaseMovementTypes, increaseMovementTypes, movementTypeLabels, todayString } from '../services/ledger';
+
+export type BulkEditAction = 'category' | 'manufacturer' | 'quantity' | 'date';
+
+interface BulkEditModalProps {
+  action: BulkEditAction | null; // The modal is open while this is set
+  count: number; // Selected prizes
+  categories: MasterItem[]; // Including archived ones, which are not offered
+  manufacturers: MasterItem[];
+  onSetFields: (changes: PrizeFieldChanges) => void;
+  onAdjustQuantity: (delta: number, type: MovementType, date: string) => void;
+  onClose: () => void;
+}
+
+const titles: Record<BulkEditAction, string> = {
+  category: 'カテゴリを変更',
+  manufacturer: '会社を変更',
+  quantity: '数量を増減',
+  date: '獲得日を変更',
+};
+
+const inputClassName = 'block w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500';
+const labelClassName = 'block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1';
+
+const BulkEditModal: React.FC<BulkEditModalProps> = ({ action, count, categories, manufacturers, onSetFields, onAdjustQuantity, onClose }) => {
+  const categoryNames = categories.filter(c => !c.archived).map(c => c.name);
+  const manufacturerNames = [NO_MANUFACTURER, ...manufacturers.filter(m => !m.archived).map(m => m.name)];
+
+  const [category, setCategory] = useState('');
+  const [manufacturer, setManufacturer] = useState('');
+  const [date, setDate] = useState('');
+  const [delta, setDelta] = useState(1);
+  const [movementType, setMovementType] = useState<MovementType>('won');
+
+  useEffect(() => {
+    if (!action) return;
+    setCategory(categoryNames[0] || '');
+    setManufacturer(NO_MANUFACTURER);
+    setDate(todayString());
+    setDelta(1);
+    setMovementType('won');
+  }, [action]);
+
+  if (!action) return null;
+
+  const movementTypes = delta < 0 ? decreaseMovementTypes : increaseMovementTypes;
+
+  const changeDelta = (value: number) => {
+    setDelta(value);
+    // Keep the reason when it fits both directions, otherwise fall back to the usual one
+    const types = value < 0 ? decreaseMovementTypes : increaseMovementTypes;
+    if (!types.includes(movementType)) setMovementType(types[0]);
+  };
+
+  const isValid =
+    action === 'category' ? !!category :
+    action === 'manufacturer' ? !!manufacturer :
+    action === 'date' ? !!date :
+    Number.isInteger(delta) && delta !== 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    if (action === 'category') onSetFields({ category });
+    else if (action === 'manufacturer') onSetFields({ manufacturer });
+    else if (action === 'date') onSetFields({ acquisitionDate: date });
+    else onAdjustQuantity(delta, movementType, date);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto flex flex-col gap-4 border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <div>
+          <h2 className="text-xl font-black text-slate-800 dark:text-white">{titles[action]}</h2>
+          <p className="text-sm text-slate-500 mt-1">選択中の {count} 件に適用します</p>
+        </div>
+
+        {action === 'category' && (
+          <div>
+            <label htmlFor="bulk-category" className={labelClassName}>カテゴリ</label>
+            <select id="bulk-category" value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName}>
+              {categoryNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+        )}
+
+        {action === 'manufacturer' && (
+          <div>
+            <label htmlFor="bulk-manufacturer" className={labelClassName}>会社</label>
+            <select id="bulk-manufacturer" value={manufacturer} onChange={(e) => setManufacturer(e.target.value)} className={inputClassName}>
+              {manufacturerNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+        )}
+
+        {action === 'quantity' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="bulk-delta" className={labelClassName}>増減（個）</label>
+              <input
+                id="bulk-delta"
+                type="number"
+                step="1"
+                value={delta}
+                onChange={(e) => changeDelta(parseInt(e.target.value, 10) || 0)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="bulk-movement-type" className={labelClassName}>理由</label>
+              <select id="bulk-movement-type" value={movementType} onChange={(e) => setMovementType(e.target.value as MovementType)} className={inputClassName}>
+                {movementTypes.map(type => <option key={type} value={type}>{movementTypeLabels[type]}</option>)}
+              </select>
+            </div>
+            <p className="col-span-2 text-xs text-slate-400 ml-1">マイナスの値で減らします。在庫が足りない景品は0個になります。</p>
+          </div>
+        )}
+
+        {(action === 'date' || action === 'quantity') && (
+          <div>
+            <label htmlFor="bulk-date" className={labelClassName}>{action === 'date' ? '獲得日' : '記録する日付'}</label>
+            <input id="bulk-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} />
+          </div>
+        )}
+
+        <div className="pt-2 flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            キャンセル
+          </button>
+          <button
+            type="submit"
+            disabled={!isValid}
+            className="flex-[2] py-4 text-white font-black rounded-2xl shadow-xl transition-all transform active:scale-[0.98] bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          >
+            {count}件に適用
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default BulkEditModal;
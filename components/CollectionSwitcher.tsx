@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Collection } from '../types';
+import { CollectionCount } from '../services/collections';
+import RectangleStackIcon from './icons/RectangleStackIcon';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+import CheckCircleIcon from './icons/CheckCircleIcon';
+
+interface CollectionSwitcherProps {
+  collections: Collection[]; // In display order
+  activeId: string;
+  counts: Map<string, CollectionCount>;
+  onSelect: (collectionId: string) => void;
+  onManage: () => void;
+}
+
+const CollectionSwitcher: React.FC<CollectionSwitcherProps> = ({ collections, activeId, counts, onSelect, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleOutsideClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleOutsideClick);
+    return () => document.removeEventListener('mousedown', handleOutsideClick);
+  }, [isOpen]);
+
+  const active = collections.find(c => c.id === activeId);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 max-w-[10rem] px-3 py-2 bg-slate-100 dark:bg-slate-700 rounded-full text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+        aria-label="コレクションを切り替え"
+        title="コレクションを切り替え"
+      >
+        <RectangleStackIcon className="w-4 h-4 flex-shrink-0 text-indigo-500" />
+        <span className="truncate">{active?.name || 'コレクション'}</span>
+        <ChevronDownIcon className="w-3 h-3 flex-shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 overflow-hidden py-1 z-30 animate-in zoom-in-95 duration-200 origin-top-left">
+          <div className="max-h-72 overflow-y-auto">
+            {collections.map(collection => {
+              const count = counts.get(collection.id);
+              return (
+                <button
+                  key={collection.id}
+                  onClick={() => { onSelect(collection.id); setIsOpen(false); }}
+                  className={`w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-left transition-colors ${collection.id === activeId ? 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-500/10' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                >
+                  <CheckCircleIcon className={`w-5 h-5 flex-shrink-0 ${collection.id === activeId ? '' : 'invisible'}`} />
+                  <span className="flex-grow truncate">{collection.name}</span>
+                  <span className="text-[11px] font-normal text-slate-400 whitespace-nowrap">{count?.types || 0}種 / {count?.quantity || 0}個</span>
+                </button>
+              );
+            })}
+          </div>
+          <div className="h-px bg-slate-100 dark:bg-slate-700 my-1"></div>
+          <button
+            onClick={() => { onManage(); setIsOpen(false); }}
+            className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            <RectangleStackIcon className="w-5 h-5 text-indigo-500" />
+            コレクションの管理
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionSwitcher;
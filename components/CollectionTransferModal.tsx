@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Collection, Prize } from '../types';
+import { collectionOf, sortCollections } from '../services/collections';
+
+export type TransferMode = 'move' | 'copy';
+
+interface CollectionTransferModalProps {
+  prizes: Prize[] | null; // The modal is open while this is set
+  collections: Collection[];
+  onTransfer: (mode: TransferMode, collectionId: string) => void;
+  onClose: () => void;
+}
+
+const modeLabels: Record<TransferMode, string> = { move: '移動', copy: 'コピー' };
+
+const CollectionTransferModal: React.FC<CollectionTransferModalProps> = ({ prizes, collections, onTransfer, onClose }) => {
+  const [mode, setMode] = useState<TransferMode>('move');
+  const [targetId, setTargetId] = useState('');
+
+  // Prizes already in a collection cannot be moved there, so it is not offered
+  const sourceIds = new Set((prizes || []).map(collectionOf));
+  const targets = sortCollections(collections).filter(c => !(sourceIds.size === 1 && sourceIds.has(c.id)));
+
+  // Reset only when the modal opens for other prizes, not on every render
+  useEffect(() => {
+    if (prizes) {
+      setMode('move');
+      setTargetId(targets[0]?.id || '');
+    }
+  }, [prizes]);
+
+  if (!prizes) return null;
+
+  const subject = prizes.length === 1 ? `「${prizes[0].name}」` : `${prizes.length}件の景品`;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-md flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <h2 className="text-xl font-black text-slate-800 dark:text-white">別のコレクションへ</h2>
+        <p className="text-sm text-slate-500 mt-1 truncate">{subject}</p>
+
+        <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-xl p-1 mt-4">
+          {(Object.keys(modeLabels) as TransferMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${mode === m ? 'bg-white dark:bg-slate-600 shadow text-indigo-600' : 'text-slate-400'}`}
+            >
+              {modeLabels[m]}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-2 ml-1">
+          {mode === 'move'
+            ? '在庫履歴や保管場所もそのまま移ります。'
+            : '現在の数量で新しい景品として登録します。保管場所とプレイ費用はコピーされません。'}
+        </p>
+
+        <div className="mt-4 space-y-2 max-h-64 overflow-y-auto">
+          {targets.map(collection => (
+            <label
+              key={collection.id}
+              className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer text-sm font-bold ${targetId === collection.id ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-500/10 text-indigo-700 dark:text-indigo-300' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'}`}
+            >
+              <input
+                type="radio"
+                name="transfer-target"
+                checked={targetId === collection.id}
+                onChange={() => setTargetId(collection.id)}
+                className="accent-indigo-600"
+              />
+              <span className="truncate">{collection.name}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="pt-4 flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={() => onTransfer(mode, targetId)}
+            disabled={!targets.some(c => c.id === targetId)}
+            className="flex-[2] py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-2xl disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {modeLabels[mode]}する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionTransferModal;
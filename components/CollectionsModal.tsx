@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { Collection, Inventory } from '../types';
+import { countByCollection, createCollection, removeCollection, sortCollections, validateCollectionName } from '../services/collections';
+import PencilIcon from './icons/PencilIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface CollectionsModalProps {
+  isOpen: boolean;
+  inventory: Inventory;
+  activeId: string;
+  onSelect: (collectionId: string) => void;
+  // Same contract as App's updateInventory, so every edit can be undone
+  onUpdate: (label: string, update: (current: Inventory) => Inventory) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+const iconButtonClass = "p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400";
+
+const NameForm: React.FC<{
+  initial: string;
+  onSubmit: (name: string) => string | null;
+  onCancel: () => void;
+  submitLabel: string;
+}> = ({ initial, onSubmit, onCancel, submitLabel }) => {
+  const [name, setName] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(onSubmit(name.trim()));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-50 dark:bg-slate-700/40 rounded-2xl p-4 space-y-3">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => { setName(e.target.value); setError(null); }}
+        placeholder="例: 家族の分、フリマ出品用"
+        className={inputClass}
+        aria-label="コレクション名"
+        autoFocus
+      />
+      {error && <p className="text-xs text-red-500 font-bold ml-1">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="flex-1 py-2 bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-200 text-sm font-bold rounded-xl">
+          キャンセル
+        </button>
+        <button type="submit" disabled={!name.trim()} className="flex-[2] py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-black rounded-xl disabled:bg-indigo-400 disabled:cursor-not-allowed">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CollectionsModal: React.FC<CollectionsModalProps> = ({ isOpen, inventory, activeId, onSelect, onUpdate, onClose }) => {
+  // null: list only, 'new': adding, otherwise the id being renamed
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const counts = useMemo(() => countByCollection(inventory.prizes), [inventory.prizes]);
+
+  if (!isOpen) return null;
+
+  const collections = sortCollections(inventory.collections);
+
+  const handleAdd = (name: string): string | null => {
+    const error = validateCollectionName(inventory.collections, name);
+    if (error) return error;
+    const collection = createCollection(name);
+    onUpdate(`コレクション「${name}」を作成しました`, current => ({ ...current, collections: [...current.collections, collection] }));
+    onSelect(collection.id);
+    setEditingId(null);
+    return null;
+  };
+
+  const handleRename = (collection: Collection, name: string): string | null => {
+    const error = validateCollectionName(inventory.collections, name, collection.id);
+    if (error) return error;
+    onUpdate(`コレクション名を「${name}」に変更しました`, current => ({
+      ...current,
+      collections: current.collections.map(c => (c.id === collection.id ? { ...c, name } : c)),
+    }));
+    setEditingId(null);
+    return null;
+  };
+
+  const handleDelete = (collection: Collection) => {
+    const count = counts.get(collection.id)?.types || 0;
+    if (count > 0 && !confirm(`「${collection.name}」を削除しますか？\n中の景品${count}件と在庫履歴も削除されます。`)) return;
+    onUpdate(`コレクション「${collection.name}」を削除しました`, current => removeCollection(current, collection.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <h2 className="text-xl font-black text-slate-800 dark:text-white">コレクション</h2>
+        <p className="text-sm text-slate-500 mt-1">景品を別々のリストに分けて管理できます。カテゴリ・メーカー・店舗・保管場所は共通です。</p>
+
+        <div className="overflow-y-auto flex-grow mt-4 space-y-3">
+          {editingId === 'new' ? (
+            <NameForm initial="" onSubmit={handleAdd} onCancel={() => setEditingId(null)} submitLabel="作成する" />
+          ) : (
+            <button
+              type="button"
+              onClick={() => setEditingId('new')}
+              className="w-full py-3 border-2 border-dashed border-slate-200 dark:border-slate-600 rounded-2xl text-sm font-bold text-slate-500 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+            >
+              ＋ コレクションを作成
+            </button>
+          )}
+
+          {collections.map(collection => {
+            const count = counts.get(collection.id);
+            return editingId === collection.id ? (
+              <NameForm
+                key={collection.id}
+                initial={collection.name}
+                onSubmit={(name) => handleRename(collection, name)}
+                onCancel={() => setEditingId(null)}
+                submitLabel="変更する"
+              />
+            ) : (
+              <div
+                key={collection.id}
+                className={`p-4 rounded-2xl border flex items-center justify-between gap-2 ${collection.id === activeId ? 'border-indigo-300 dark:border-indigo-500/50 bg-indigo-50/50 dark:bg-indigo-500/10' : 'border-slate-200 dark:border-slate-700'}`}
+              >
+                <button type="button" onClick={() => onSelect(collection.id)} className="min-w-0 text-left flex-grow">
+                  <p className="font-black text-slate-800 dark:text-white truncate">
+                    {collection.name}
+                    {collection.id === activeId && <span className="ml-2 text-[10px] font-black text-indigo-500">表示中</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">{count?.types || 0}種類 / {count?.quantity || 0}個</p>
+                </button>
+                <div className="flex items-center flex-shrink-0">
+                  <button type="button" onClick={() => setEditingId(collection.id)} className={iconButtonClass} aria-label="名前を変更">
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(collection)}
+                    disabled={collections.length <= 1}
+                    className={`${iconButtonClass} hover:text-red-500`}
+                    aria-label="削除"
+                    title={collections.length <= 1 ? '最後のコレクションは削除できません' : '削除'}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="mt-4 w-full py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionsModal;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { CostGroup, CostSummary, formatYen } from '../services/costs';
+
+interface CostAnalyticsModalProps {
+  isOpen: boolean;
+  summary: CostSummary;
+  categoryColors: Record<string, string>;
+  onClose: () => void;
+}
+
+// Months shown in the bar chart, most recent last
+const MONTHS_SHOWN = 12;
+
+const sectionTitleClass = "text-xs font-black uppercase tracking-widest text-slate-500 mb-2";
+
+const GroupTable: React.FC<{ title: string; groups: CostGroup[]; colors?: Record<string, string> }> = ({ title, groups, colors }) => (
+  <section>
+    <h3 className={sectionTitleClass}>{title}</h3>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-[10px] font-black text-slate-400 text-right">
+          <th className="text-left font-black pb-1"></th>
+          <th className="font-black pb-1">合計</th>
+          <th className="font-black pb-1">景品数</th>
+          <th className="font-black pb-1">平均</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+        {groups.map(group => (
+          <tr key={group.key} className="text-right">
+            <td className="text-left py-1.5 font-bold text-slate-700 dark:text-slate-200">
+              <span className="inline-flex items-center gap-1.5">
+                {colors?.[group.key] && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colors[group.key] }} />}
+                {group.key}
+              </span>
+            </td>
+            <td className="py-1.5 font-mono">{formatYen(group.spent)}</td>
+            <td className="py-1.5 font-mono text-slate-500">{group.prizeCount}</td>
+            <td className="py-1.5 font-mono font-bold text-indigo-600 dark:text-indigo-400">{formatYen(group.average)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </section>
+);
+
+const CostAnalyticsModal: React.FC<CostAnalyticsModalProps> = ({ isOpen, summary, categoryColors, onClose }) => {
+  if (!isOpen) return null;
+
+  const months = summary.byMonth.slice(-MONTHS_SHOWN);
+  const maxMonthSpent = Math.max(1, ...months.map(m => m.spent));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <h2 className="text-xl font-black text-slate-800 dark:text-white">プレイ費用の分析</h2>
+        <p className="text-sm text-slate-500 mt-1">費用を記録した{summary.prizeCount}件の景品が対象です</p>
+
+        {summary.prizeCount === 0 ? (
+          <p className="text-center text-sm text-slate-400 font-bold py-12">
+            景品の登録・編集画面や在庫の履歴から<br />プレイ費用を記録すると、ここに集計されます
+          </p>
+        ) : (
+          <div className="overflow-y-auto flex-grow mt-4 space-y-6">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="bg-indigo-50 dark:bg-indigo-900/20 rounded-2xl py-3">
+                <p className="text-[10px] font-black text-indigo-400">合計</p>
+                <p className="text-lg font-black text-indigo-600 dark:text-indigo-400">{formatYen(summary.totalSpent)}</p>
+              </div>
+              <div className="bg-slate-50 dark:bg-slate-700/40 rounded-2xl py-3">
+                <p className="text-[10px] font-black text-slate-400">1景品あたり</p>
+                <p className="text-lg font-black text-slate-700 dark:text-slate-200">{formatYen(summary.averagePerPrize)}</p>
+              </div>
+              <div className="bg-slate-50 dark:bg-slate-700/40 rounded-2xl py-3">
+                <p className="text-[10px] font-black text-slate-400">プレイ回数</p>
+                <p className="text-lg font-black text-slate-700 dark:text-slate-200">{summary.totalPlays}<span className="text-xs font-normal ml-0.5">回</span></p>
+              </div>
+            </div>
+
+            <section>
+              <h3 className={sectionTitleClass}>月別</h3>
+              <ul className="space-y-1.5">
+                {months.map(month => (
+                  <li key={month.key} className="flex items-center gap-2 text-xs">
+                    <span className="w-16 font-mono text-slate-500 flex-shrink-0">{month.key}</span>
+                    <div className="flex-grow h-4 bg-slate-100 dark:bg-slate-700 rounded">
+                      <div className="h-4 bg-indigo-500 rounded" style={{ width: `${(month.spent / maxMonthSpent) * 100}%` }} />
+                    </div>
+                    <span className="w-20 text-right font-mono font-bold flex-shrink-0">{formatYen(month.spent)}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <GroupTable title="カテゴリ別" groups={summary.byCategory} colors={categoryColors} />
+            <GroupTable title="メーカー別" groups={summary.byManufacturer} />
+
+            <section>
+              <h3 className={sectionTitleClass}>高額だった獲得</h3>
+              <ol className="space-y-2">
+                {summary.mostExpensive.map((record, index) => (
+                  <li key={record.movementId || record.prize.id} className="flex items-center gap-3 text-sm">
+                    <span className="w-5 text-center font-black text-slate-400">{index + 1}</span>
+                    <div className="flex-grow min-w-0">
+                      <p className="font-bold text-slate-700 dark:text-slate-200 truncate">{record.prize.name}</p>
+                      <p className="text-xs text-slate-400">
+                        {record.date}
+                        {record.cost.plays !== undefined && ` ・ ${record.cost.plays}回`}
+                        {record.cost.pricePerPlay !== undefined && ` × ${formatYen(record.cost.pricePerPlay)}`}
+                      </p>
+                    </div>
+                    <span className="font-mono font-black text-rose-600">{formatYen(record.cost.total)}</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="mt-4 w-full py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CostAnalyticsModal;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { PlayCost } from '../types';
+import { makePlayCost } from '../services/costs';
+
+interface CostInputProps {
+  initial?: PlayCost; // Read on mount only; remount (key) to reset
+  onChange: (cost: PlayCost | undefined) => void;
+  inputClassName: string;
+}
+
+const parseYen = (value: string): number | null => (value === '' ? null : Math.max(0, Math.floor(Number(value)) || 0));
+
+// 回数 × 単価 fills in the total; a total can also be typed on its own
+const CostInput: React.FC<CostInputProps> = ({ initial, onChange, inputClassName }) => {
+  const [plays, setPlays] = useState(initial?.plays?.toString() ?? '');
+  const [pricePerPlay, setPricePerPlay] = useState(initial?.pricePerPlay?.toString() ?? '');
+  const [total, setTotal] = useState(initial?.total.toString() ?? '');
+
+  const isDerived = plays !== '' && pricePerPlay !== '';
+  const shownTotal = isDerived ? String((parseYen(plays) || 0) * (parseYen(pricePerPlay) || 0)) : total;
+
+  const update = (next: { plays?: string; pricePerPlay?: string; total?: string }) => {
+    const values = { plays, pricePerPlay, total, ...next };
+    setPlays(values.plays);
+    setPricePerPlay(values.pricePerPlay);
+    setTotal(values.total);
+    onChange(makePlayCost(parseYen(values.plays), parseYen(values.pricePerPlay), parseYen(values.total)));
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <input type="number" min="0" inputMode="numeric" value={plays} onChange={(e) => update({ plays: e.target.value })} placeholder="回数" className={inputClassName} aria-label="プレイ回数" />
+      <input type="number" min="0" step="100" inputMode="numeric" value={pricePerPlay} onChange={(e) => update({ pricePerPlay: e.target.value })} placeholder="1回(円)" className={inputClassName} aria-label="1回の料金" />
+      <input
+        type="number"
+        min="0"
+        inputMode="numeric"
+        value={shownTotal}
+        onChange={(e) => update({ total: e.target.value })}
+        disabled={isDerived}
+        placeholder="合計(円)"
+        className={`${inputClassName} disabled:opacity-70`}
+        aria-label="合計金額"
+      />
+    </div>
+  );
+};
+
+export default CostInput;
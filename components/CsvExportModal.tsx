@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Prize } from '../types';
+import { CsvEncoding, CsvField, csvEncodingLabels, csvFieldDefinitions, encodeCsv, prizesToCsv } from '../services/csv';
+import { datedFileName, downloadBlob } from '../services/files';
+import { SettingsService } from '../services/settings';
+
+interface CsvExportModalProps {
+  isOpen: boolean;
+  prizes: Prize[]; // The currently filtered list, or the selected prizes
+  scopeLabel?: string; // Says which prizes `prizes` are
+  onClose: () => void;
+}
+
+const defaultFields: CsvField[] = ['name', 'category', 'manufacturer', 'quantity', 'acquisitionDate', 'notes'];
+
+const CsvExportModal: React.FC<CsvExportModalProps> = ({ isOpen, prizes, scopeLabel = '現在の表示中の', onClose }) => {
+  const [fields, setFields] = useState<CsvField[]>(() => SettingsService.get('csv-export-fields', defaultFields));
+  const [encoding, setEncoding] = useState<CsvEncoding>(() => SettingsService.get<CsvEncoding>('csv-export-encoding', 'utf8-bom'));
+
+  if (!isOpen) return null;
+
+  const toggleField = (field: CsvField) => {
+    setFields(current => current.includes(field) ? current.filter(f => f !== field) : [...current, field]);
+  };
+
+  const handleExport = () => {
+    SettingsService.set('csv-export-fields', fields);
+    SettingsService.set('csv-export-encoding', encoding);
+    const blob = encodeCsv(prizesToCsv(prizes, fields), encoding);
+    downloadBlob(blob, datedFileName('crane_game_inventory', 'csv'));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <h2 className="text-xl font-black text-slate-800 dark:text-white">CSVで書き出し</h2>
+        <p className="text-sm text-slate-500 mt-1">{scopeLabel} {prizes.length} 件を書き出します</p>
+
+        <div className="mt-6">
+          <p className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-2 ml-1">列</p>
+          <div className="grid grid-cols-2 gap-2">
+            {csvFieldDefinitions.map(d => (
+              <label key={d.field} className="flex items-center gap-2 px-3 py-2 bg-slate-50 dark:bg-slate-700/50 rounded-xl text-sm font-bold cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={fields.includes(d.field)}
+                  onChange={() => toggleField(d.field)}
+                  className="accent-indigo-600"
+                />
+                {d.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <label htmlFor="csv-encoding" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-2 ml-1">文字コード</label>
+          <select
+            id="csv-encoding"
+            value={encoding}
+            onChange={(e) => setEncoding(e.target.value as CsvEncoding)}
+            className="block w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {(Object.keys(csvEncodingLabels) as CsvEncoding[]).map(e => (
+              <option key={e} value={e}>{csvEncodingLabels[e]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="pt-6 flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={fields.length === 0 || prizes.length === 0}
+            className="flex-[2] py-4 text-white font-black rounded-2xl shadow-xl transition-all transform active:scale-[0.98] bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          >
+            ダウンロード
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvExportModal;
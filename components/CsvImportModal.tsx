@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Prize } from '../types';
+import { CsvColumnMapping, CsvField, CsvImportRow, csvFieldDefinitions, csvRowsToPrizes, guessColumnMapping } from '../services/csv';
+
+interface CsvImportModalProps {
+  rows: string[][] | null; // Parsed file; the modal is open while this is set
+  fileName: string;
+  existingPrizes: Prize[];
+  knownNames: { categories: string[]; manufacturers: string[] };
+  onApply: (rows: CsvImportRow[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const CsvImportModal: React.FC<CsvImportModalProps> = ({ rows, fileName, existingPrizes, knownNames, onApply, onClose }) => {
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>([]);
+
+  const columnCount = useMemo(() => (rows || []).reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+
+  useEffect(() => {
+    if (!rows) return;
+    setHasHeader(true);
+    const guessed = guessColumnMapping(rows[0] || []);
+    // Without a recognisable header, fall back to the export column order
+    setMapping(guessed.some(Boolean)
+      ? guessed
+      : Array.from({ length: columnCount }, (_, i) => csvFieldDefinitions[i]?.field || null));
+  }, [rows, columnCount]);
+
+  const dataRows = useMemo(() => (rows ? rows.slice(hasHeader ? 1 : 0) : []), [rows, hasHeader]);
+  const results = useMemo(
+    () => csvRowsToPrizes(dataRows, mapping, existingPrizes, hasHeader ? 2 : 1, knownNames),
+    [dataRows, mapping, existingPrizes, hasHeader, knownNames]
+  );
+
+  if (!rows) return null;
+
+  const validRows = results.filter(r => r.prize);
+  const invalidCount = results.length - validRows.length;
+  const updateCount = validRows.filter(r => r.isUpdate).length;
+  const headers = hasHeader ? rows[0] : [];
+  // Rows need a name, or an id to update an existing prize
+  const canMapRows = mapping.includes('name') || mapping.includes('id');
+
+  const setColumnField = (column: number, field: CsvField | null) => {
+    setMapping(current => {
+      const next = Array.from({ length: columnCount }, (_, i) => current[i] ?? null);
+      // A field can only come from one column
+      if (field) next.forEach((f, i) => { if (f === field) next[i] = null; });
+      next[column] = field;
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-black text-slate-800 dark:text-white">CSVから読み込み</h2>
+            <p className="text-sm text-slate-500 mt-1 truncate">{fileName}</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-bold text-slate-600 dark:text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-indigo-600" />
+            1行目は見出し
+          </label>
+        </div>
+
+        <p className="text-xs font-black uppercase tracking-widest text-slate-500 mb-2 ml-1">列の割り当て</p>
+        <div className="overflow-auto flex-grow border border-slate-200 dark:border-slate-700 rounded-2xl">
+          <table className="w-full text-sm text-left text-slate-500 dark:text-slate-400">
+            <thead className="text-xs text-slate-700 bg-slate-50 dark:bg-slate-700 dark:text-slate-300 sticky top-0">
+              <tr>
+                <th className="px-3 py-2">行</th>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <th key={column} className="px-3 py-2 min-w-[140px]">
+                    {headers[column] && <div className="text-[10px] text-slate-400 mb-1 truncate">{headers[column]}</div>}
+                    <select
+                      value={mapping[column] || ''}
+                      onChange={(e) => setColumnField(column, (e.target.value || null) as CsvField | null)}
+                      className="w-full px-2 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-xs font-bold"
+                    >
+                      <option value="">（取り込まない）</option>
+                      {csvFieldDefinitions.map(d => (
+                        <option key={d.field} value={d.field}>{d.label}</option>
+                      ))}
+                    </select>
+                  </th>
+                ))}
+                <th className="px-3 py-2 min-w-[200px]">確認</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.slice(0, PREVIEW_LIMIT).map((result, index) => (
+                <tr key={result.rowNumber} className={`border-b dark:border-slate-700 ${result.prize ? '' : 'bg-red-50 dark:bg-red-900/20'}`}>
+                  <td className="px-3 py-2 font-mono text-xs">{result.rowNumber}</td>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <td key={column} className={`px-3 py-2 truncate max-w-[200px] ${mapping[column] ? 'text-slate-800 dark:text-slate-200' : 'opacity-40'}`}>
+                      {dataRows[index][column]}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-xs">
+                    {result.prize ? (
+                      <span className="font-bold text-emerald-600">{result.isUpdate ? '更新' : '新規'}</span>
+                    ) : (
+                      <span className="text-red-500">{result.errors.join(' / ')}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {results.length > PREVIEW_LIMIT && (
+          <p className="text-xs text-slate-400 mt-2 ml-1">先頭 {PREVIEW_LIMIT} 行のみ表示しています（全 {results.length} 行）</p>
+        )}
+
+        <p className="mt-4 text-sm text-slate-600 dark:text-slate-300">
+          取り込み可能: <span className="font-black">{validRows.length}件</span>
+          （新規 {validRows.length - updateCount} / 更新 {updateCount}）
+          {invalidCount > 0 && <span className="text-red-500 font-bold ml-2">エラー {invalidCount}件はスキップされます</span>}
+        </p>
+        {!canMapRows && (
+          <p className="mt-1 text-sm text-red-500 font-bold">「景品名」または「ID」の列を割り当ててください</p>
+        )}
+
+        <div className="pt-4 flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(validRows)}
+            disabled={validRows.length === 0 || !canMapRows}
+            className="flex-[2] py-4 text-white font-black rounded-2xl shadow-xl transition-all transform active:scale-[0.98] bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          >
+            {validRows.length}件を取り込む
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportModal;
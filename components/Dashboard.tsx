@@ -0,0 +1,129 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Prize } from '../types';
+import { masterColorPalette } from '../constants';
+import {
+  ChartMetric,
+  categoryShare,
+  chartMetricLabels,
+  manufacturerShare,
+  monthlySeries,
+  topByQuantity,
+  yearOverYear,
+} from '../services/dashboard';
+import { datedFileName, downloadSvgAsPng } from '../services/files';
+import ColumnChart, { seriesFromPoints } from './charts/ColumnChart';
+import DonutChart from './charts/DonutChart';
+import HorizontalBarChart from './charts/HorizontalBarChart';
+import ArrowDownTrayIcon from './icons/ArrowDownTrayIcon';
+
+interface DashboardProps {
+  prizes: Prize[]; // Already narrowed by the search and filters in the header
+  categoryColors: Record<string, string>;
+  manufacturerColors: Record<string, string>;
+}
+
+const PRIMARY_COLOR = '#6366f1';
+const PREVIOUS_YEAR_COLOR = '#cbd5e1';
+const OTHER_COLOR = '#94a3b8';
+const TOP_COUNT = 10;
+
+const monthLabels = Array.from({ length: 12 }, (_, i) => `${i + 1}月`);
+
+const ChartCard: React.FC<{ fileName: string; className?: string; children: React.ReactNode }> = ({ fileName, className = '', children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const handleExport = async () => {
+    const svg = containerRef.current?.querySelector('svg');
+    if (!svg) return;
+    try {
+      await downloadSvgAsPng(svg, datedFileName(fileName, 'png'));
+    } catch (error) {
+      console.error("Chart export failed", error);
+      alert('画像の書き出しに失敗しました。');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 ${className}`}>
+      <button
+        onClick={handleExport}
+        className="absolute top-3 right-3 p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+        aria-label="PNGで保存"
+        title="PNGで保存"
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+      </button>
+      {children}
+    </div>
+  );
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ prizes, categoryColors, manufacturerColors }) => {
+  const [metric, setMetric] = useState<ChartMetric>('prizes');
+
+  const charts = useMemo(() => ({
+    monthly: seriesFromPoints(chartMetricLabels[metric], PRIMARY_COLOR, monthlySeries(prizes, metric)),
+    categories: categoryShare(prizes, metric),
+    manufacturers: manufacturerShare(prizes, metric),
+    top: topByQuantity(prizes, TOP_COUNT),
+    yearly: yearOverYear(prizes, metric),
+  }), [prizes, metric]);
+
+  // Master colors where the group has one; その他 and unknown names fall back to the palette
+  const colorFrom = (colors: Record<string, string>) => (label: string, index: number) =>
+    label === 'その他' && !colors[label] ? OTHER_COLOR : colors[label] || masterColorPalette[index % masterColorPalette.length];
+
+  const metricLabel = chartMetricLabels[metric];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-slate-500 font-bold">表示中の{prizes.length}件を集計しています</p>
+        <div className="flex items-center bg-slate-200/60 dark:bg-slate-700 rounded-xl p-1">
+          {(Object.keys(chartMetricLabels) as ChartMetric[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${metric === m ? 'bg-white dark:bg-slate-600 shadow text-indigo-600' : 'text-slate-500'}`}
+            >
+              {chartMetricLabels[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ChartCard fileName="monthly_acquisitions">
+        <ColumnChart title={`月別の獲得（${metricLabel}）`} labels={charts.monthly.labels} series={charts.monthly.series} />
+      </ChartCard>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ChartCard fileName="category_share">
+          <DonutChart title={`カテゴリ別（${metricLabel}）`} points={charts.categories} colorOf={colorFrom(categoryColors)} />
+        </ChartCard>
+        <ChartCard fileName="manufacturer_share">
+          <DonutChart title={`メーカー別（${metricLabel}）`} points={charts.manufacturers} colorOf={colorFrom(manufacturerColors)} />
+        </ChartCard>
+      </div>
+
+      <ChartCard fileName="top_quantity">
+        <HorizontalBarChart title={`数量トップ${TOP_COUNT}`} points={charts.top} color={PRIMARY_COLOR} />
+      </ChartCard>
+
+      {charts.yearly.years.length > 0 && (
+        <ChartCard fileName="year_over_year">
+          <ColumnChart
+            title={`前年比較（${metricLabel}）`}
+            labels={monthLabels}
+            series={charts.yearly.years.map((year, i) => ({
+              name: `${year}年`,
+              color: i === charts.yearly.years.length - 1 ? PRIMARY_COLOR : PREVIOUS_YEAR_COLOR,
+              values: charts.yearly.values[i],
+            }))}
+          />
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Prize } from '../types';
+import { DuplicatePair, duplicateReasonLabels, findDuplicatePairs, pairKey } from '../services/duplicates';
+import PrizeSummary from './PrizeSummary';
+import ArrowPathIcon from './icons/ArrowPathIcon';
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  prizes: Prize[];
+  onMerge: (targetId: string, sourceId: string) => void; // Folds the source into the target
+  onClose: () => void;
+}
+
+const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ isOpen, prizes, onMerge, onClose }) => {
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null); // null while scanning
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [scanCount, setScanCount] = useState(0);
+  // The scan works on the prizes as they were when it started; merges update the list below
+  const prizesRef = useRef(prizes);
+  prizesRef.current = prizes;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setPairs(null);
+    findDuplicatePairs(prizesRef.current)
+      .then(result => { if (!cancelled) setPairs(result); })
+      .catch(error => {
+        console.error('Duplicate scan failed', error);
+        if (!cancelled) setPairs([]);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, scanCount]);
+
+  useEffect(() => {
+    if (isOpen) setDismissed(new Set());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // Merged-away prizes drop out, and the remaining side shows its merged state
+  const prizesById = new Map<string, Prize>(prizes.map((p: Prize) => [p.id, p]));
+  const visiblePairs = (pairs || []).flatMap(pair => {
+    const first = prizesById.get(pair.first.id);
+    const second = prizesById.get(pair.second.id);
+    return first && second && !dismissed.has(pairKey(pair)) ? [{ ...pair, first, second }] : [];
+  });
+
+  const dismiss = (pair: DuplicatePair) => setDismissed(current => new Set(current).add(pairKey(pair)));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col gap-4 border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-black text-slate-800 dark:text-white">重複チェック</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              名前・写真・JANコードが似ている景品の組み合わせです。統合すると数量と履歴がまとまります。
+            </p>
+          </div>
+          <button
+            onClick={() => setScanCount(count => count + 1)}
+            disabled={pairs === null}
+            className="flex-shrink-0 p-2 rounded-full text-slate-400 hover:text-indigo-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-30"
+            aria-label="もう一度チェック"
+            title="もう一度チェック"
+          >
+            <ArrowPathIcon className={`w-5 h-5 ${pairs === null ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto -mx-2 px-2 space-y-3">
+          {pairs === null ? (
+            <p className="text-sm font-bold text-slate-400 text-center py-10">写真と名前を比べています...</p>
+          ) : visiblePairs.length === 0 ? (
+            <p className="text-sm font-bold text-slate-400 text-center py-10">重複していそうな景品は見つかりませんでした。</p>
+          ) : (
+            visiblePairs.map(pair => (
+              <div key={pairKey(pair)} className="bg-slate-50 dark:bg-slate-700/50 rounded-2xl p-3 space-y-3">
+                <div className="flex flex-wrap gap-1">
+                  {pair.reasons.map(reason => (
+                    <span key={reason} className="text-[10px] font-black px-2 py-0.5 rounded-full bg-orange-100 dark:bg-orange-500/20 text-orange-600 dark:text-orange-300">
+                      {duplicateReasonLabels[reason]}
+                    </span>
+                  ))}
+                </div>
+                {[pair.first, pair.second].map((prize, i) => {
+                  const other = i === 0 ? pair.second : pair.first;
+                  return (
+                    <div key={prize.id} className="flex items-center justify-between gap-2">
+                      <PrizeSummary prize={prize} />
+                      <button
+                        onClick={() => onMerge(prize.id, other.id)}
+                        className="flex-shrink-0 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-black rounded-full transition-all active:scale-95"
+                        title={`「${other.name}」をこちらにまとめます`}
+                      >
+                        こちらに統合
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => dismiss(pair)}
+                  className="w-full py-1.5 text-xs font-bold text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 transition-colors"
+                >
+                  別の景品なので残す
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesModal;
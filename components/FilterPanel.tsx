@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Manufacturer, MasterItem, StorageLocation } from '../types';
+import { NO_MANUFACTURER } from '../constants';
+import { FilterPreset, PresenceFilter, PrizeFilter, countPanelFilters, emptyFilter } from '../services/filters';
+import { NO_LOCATION, locationKindLabels, locationTree } from '../services/locations';
+import TrashIcon from './icons/TrashIcon';
+
+interface FilterPanelProps {
+  manufacturers: MasterItem[]; // Including archived ones
+  locations: StorageLocation[];
+  filter: PrizeFilter;
+  onChange: (filter: PrizeFilter) => void;
+  presets: FilterPreset[];
+  onPresetsChange: (presets: FilterPreset[]) => void;
+}
+
+const presenceLabels: Record<PresenceFilter, string> = { any: '指定なし', with: 'あり', without: 'なし' };
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'}`;
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+const labelClass = "block text-xs font-black uppercase tracking-widest text-slate-500 mb-2 ml-1";
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ manufacturers, locations, filter, onChange, presets, onPresetsChange }) => {
+  const [presetName, setPresetName] = useState('');
+
+  // Archived makers only show up while they are selected
+  const manufacturerChoices = [
+    NO_MANUFACTURER,
+    ...manufacturers.filter(m => !m.archived || filter.manufacturers.includes(m.name)).map(m => m.name),
+  ];
+  const colors = new Map(manufacturers.map(m => [m.name, m.color]));
+
+  const update = (changes: Partial<PrizeFilter>) => onChange({ ...filter, ...changes });
+
+  const toggleManufacturer = (manufacturer: Manufacturer) => {
+    update({
+      manufacturers: filter.manufacturers.includes(manufacturer)
+        ? filter.manufacturers.filter(m => m !== manufacturer)
+        : [...filter.manufacturers, manufacturer],
+    });
+  };
+
+  const parseQuantity = (value: string): number | null => (value === '' ? null : Math.max(0, parseInt(value, 10) || 0));
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+    // Saving under an existing name overwrites that preset
+    const preset: FilterPreset = { id: presets.find(p => p.name === name)?.id || `preset_${Date.now().toString(36)}`, name, filter };
+    onPresetsChange([...presets.filter(p => p.id !== preset.id), preset]);
+    setPresetName('');
+  };
+
+  const renderPresence = (key: 'photo' | 'notes', label: string) => (
+    <div>
+      <p className={labelClass}>{label}</p>
+      <div className="flex gap-1.5">
+        {(Object.keys(presenceLabels) as PresenceFilter[]).map(value => (
+          <button key={value} type="button" onClick={() => update({ [key]: value })} className={chipClass(filter[key] === value)}>
+            {presenceLabels[value]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-5 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 mb-6 space-y-5 animate-in fade-in duration-200">
+      <div>
+        <p className={labelClass}>メーカー</p>
+        <div className="flex flex-wrap gap-1.5">
+          {manufacturerChoices.map(m => (
+            <button key={m} type="button" onClick={() => toggleManufacturer(m)} className={chipClass(filter.manufacturers.includes(m))}>
+              {colors.has(m) && <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: colors.get(m) }} />}
+              {m}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div>
+          <p className={labelClass}>獲得日</p>
+          <div className="flex items-center gap-2">
+            <input type="date" value={filter.dateFrom} max={filter.dateTo || undefined} onChange={(e) => update({ dateFrom: e.target.value })} className={inputClass} aria-label="獲得日（から）" />
+            <span className="text-slate-400">〜</span>
+            <input type="date" value={filter.dateTo} min={filter.dateFrom || undefined} onChange={(e) => update({ dateTo: e.target.value })} className={inputClass} aria-label="獲得日（まで）" />
+          </div>
+        </div>
+
+        <div>
+          <p className={labelClass}>数量</p>
+          <div className="flex items-center gap-2">
+            <input type="number" min="0" value={filter.minQuantity ?? ''} onChange={(e) => update({ minQuantity: parseQuantity(e.target.value) })} placeholder="下限" className={inputClass} aria-label="数量（以上）" />
+            <span className="text-slate-400">〜</span>
+            <input type="number" min="0" value={filter.maxQuantity ?? ''} onChange={(e) => update({ maxQuantity: parseQuantity(e.target.value) })} placeholder="上限" className={inputClass} aria-label="数量（以下）" />
+            <button
+              type="button"
+              onClick={() => update({ minQuantity: 2, maxQuantity: null })}
+              className={`${chipClass(filter.minQuantity === 2 && filter.maxQuantity === null)} whitespace-nowrap`}
+            >
+              2個以上
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        {renderPresence('photo', '写真')}
+        {renderPresence('notes', '備考')}
+        {(locations.length > 0 || filter.location) && (
+          <div className="flex-grow md:flex-grow-0 md:w-64">
+            <label htmlFor="filter-location" className={labelClass}>保管場所</label>
+            <select id="filter-location" value={filter.location} onChange={(e) => update({ location: e.target.value })} className={inputClass}>
+              <option value="">指定なし</option>
+              <option value={NO_LOCATION}>未配置の品がある</option>
+              {locationTree(locations).map(({ location, depth }) => (
+                <option key={location.id} value={location.id}>
+                  {'　'.repeat(depth)}{location.name}（{locationKindLabels[location.kind]}）
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-slate-100 dark:border-slate-700">
+        <p className={labelClass}>プリセット</p>
+        {presets.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {presets.map(preset => (
+              <span key={preset.id} className="inline-flex items-center bg-slate-100 dark:bg-slate-700 rounded-lg">
+                <button type="button" onClick={() => onChange({ ...emptyFilter, ...preset.filter })} className="pl-3 pr-1 py-1.5 text-xs font-bold text-slate-600 dark:text-slate-300 hover:text-indigo-600">
+                  {preset.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onPresetsChange(presets.filter(p => p.id !== preset.id))}
+                  className="p-1.5 text-slate-400 hover:text-red-500"
+                  aria-label={`プリセット「${preset.name}」を削除`}
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleSavePreset} className="flex gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="プリセット名（例: ダブり一覧）"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!presetName.trim()}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl whitespace-nowrap disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          >
+            現在の条件を保存
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange({ ...emptyFilter, category: filter.category, tags: filter.tags, tagMode: filter.tagMode })}
+            disabled={countPanelFilters(filter) === 0}
+            className="px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-sm font-bold rounded-xl whitespace-nowrap hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            クリア
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default FilterPanel;
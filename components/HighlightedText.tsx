@@ -0,0 +1,36 @@
+import React from 'react';
+import { MatchRange } from '../services/search';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[];
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  // Overlapping ranges (several terms hitting the same text) are merged first
+  const merged: MatchRange[] = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  merged.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Collection, Inventory } from '../types';
+import { ParsedBackup } from '../services/backup';
+import { ImportScope, ScopedImport, inImportScope, scopeImport } from '../services/collections';
+import {
+  MergeChoice,
+  MergeResult,
+  applyMergePlan,
+  buildMergePlan,
+  comparedFieldLabels,
+  fieldValue,
+  newestChoice,
+} from '../services/merge';
+
+interface ImportMergeModalProps {
+  backup: ParsedBackup | null; // Validated backup file; the modal is open while this is set
+  inventory: Inventory;
+  activeCollection: Collection;
+  onReplace: (scoped: ScopedImport) => void;
+  onMerge: (result: MergeResult, scoped: ScopedImport) => void;
+  onClose: () => void;
+}
+
+type ImportMode = 'merge' | 'replace';
+
+const ImportMergeModal: React.FC<ImportMergeModalProps> = ({ backup, inventory, activeCollection, onReplace, onMerge, onClose }) => {
+  const [scope, setScope] = useState<ImportScope>('all');
+  const scoped = useMemo(
+    () => (backup ? scopeImport(backup, inventory, scope, activeCollection.id) : null),
+    [backup, inventory, scope, activeCollection.id]
+  );
+  const incoming = scoped?.prizes || null;
+  // Only the prizes the import can touch are compared; other collections are left alone
+  const local = useMemo(
+    () => (scoped ? inventory.prizes.filter(p => inImportScope(p, scoped)) : []),
+    [inventory.prizes, scoped]
+  );
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [matchByName, setMatchByName] = useState(false);
+  const [removeLocalOnly, setRemoveLocalOnly] = useState(false);
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  const plan = useMemo(
+    () => buildMergePlan(local, incoming || [], { matchByName }),
+    [local, incoming, matchByName]
+  );
+
+  // Incoming values win by default, like the replace import did
+  useEffect(() => {
+    setChoices(Object.fromEntries(plan.conflicts.map(c => [c.local.id, 'incoming' as MergeChoice])));
+  }, [plan]);
+
+  useEffect(() => {
+    if (backup) {
+      setMode('merge');
+      setScope('all');
+      setRemoveLocalOnly(false);
+    }
+  }, [backup]);
+
+  if (!backup || !scoped || !incoming) return null;
+
+  const setAllChoices = (choose: (index: number) => MergeChoice) => {
+    setChoices(Object.fromEntries(plan.conflicts.map((c, i) => [c.local.id, choose(i)])));
+  };
+
+  const handleApply = () => {
+    if (mode === 'replace') {
+      onReplace(scoped);
+    } else {
+      onMerge(applyMergePlan(local, plan, choices, removeLocalOnly), scoped);
+    }
+  };
+
+  const bulkButtonClass = "px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300">
+        <h2 className="text-xl font-black text-slate-800 dark:text-white">バックアップから復元</h2>
+        <p className="text-sm text-slate-500 mt-1">
+          ファイル内の景品: {incoming.length}件 / {scope === 'all' ? 'この端末' : `「${activeCollection.name}」`}: {local.length}件
+          {backup.exportedAt && <span className="ml-2">（{new Date(backup.exportedAt).toLocaleString('ja-JP')} 作成）</span>}
+        </p>
+
+        {(backup.warnings.length > 0 || backup.errors.length > 0) && (
+          <div className="mt-4 space-y-2 max-h-48 overflow-y-auto">
+            {backup.warnings.map(warning => (
+              <p key={warning} className="text-xs font-bold text-orange-600 dark:text-orange-300 bg-orange-50 dark:bg-orange-900/20 px-3 py-2 rounded-xl">{warning}</p>
+            ))}
+            {backup.errors.length > 0 && (
+              <div className="text-xs bg-red-50 dark:bg-red-900/20 px-3 py-2 rounded-xl">
+                <p className="font-black text-red-600 dark:text-red-300 mb-1">読み込めない景品 {backup.errors.length}件（スキップされます）</p>
+                <ul className="space-y-0.5 text-red-500 dark:text-red-300">
+                  {backup.errors.map(issue => (
+                    <li key={issue.index}>
+                      <span className="font-bold">{issue.index + 1}件目{issue.name ? `「${issue.name}」` : ''}:</span> {issue.messages.join(' / ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-xl p-1 mt-4">
+          {(['all', 'current'] as ImportScope[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              className={`flex-1 min-w-0 truncate py-2 px-2 rounded-lg text-xs font-bold transition-all ${scope === s ? 'bg-white dark:bg-slate-600 shadow text-indigo-600' : 'text-slate-400'}`}
+            >
+              {s === 'all' ? 'ファイルのコレクションのまま' : `「${activeCollection.name}」に読み込む`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-xl p-1 mt-2">
+          {(['merge', 'replace'] as ImportMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${mode === m ? 'bg-white dark:bg-slate-600 shadow text-indigo-600' : 'text-slate-400'}`}
+            >
+              {m === 'merge' ? '統合する' : 'すべて置き換える'}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-y-auto flex-grow mt-4 space-y-5 pr-1">
+          {mode === 'replace' ? (
+            <p className="text-sm text-slate-600 dark:text-slate-300 bg-orange-50 dark:bg-orange-900/20 p-4 rounded-2xl">
+              {scope === 'all'
+                ? `すべてのコレクションをファイルの内容で上書きします。ファイルにない景品 ${plan.localOnly.length}件 は削除されます。`
+                : `「${activeCollection.name}」をファイルの内容で上書きします。ファイルにない景品 ${plan.localOnly.length}件 は削除され、他のコレクションはそのまま残ります。`}
+            </p>
+          ) : (
+            <>
+              <label className="flex items-center gap-2 text-sm font-bold text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={matchByName} onChange={(e) => setMatchByName(e.target.checked)} className="accent-indigo-600" />
+                IDが違っても景品名とメーカーが同じなら同一とみなす
+              </label>
+
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {[
+                  { label: '追加', count: plan.added.length, color: 'text-emerald-600' },
+                  { label: '変更あり', count: plan.conflicts.length, color: 'text-orange-500' },
+                  { label: '同一', count: plan.unchangedCount, color: 'text-slate-400' },
+                  { label: '端末のみ', count: plan.localOnly.length, color: 'text-indigo-500' },
+                ].map(item => (
+                  <div key={item.label} className="bg-slate-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <p className={`text-xl font-black ${item.color}`}>{item.count}</p>
+                    <p className="text-[10px] font-black text-slate-400 tracking-widest">{item.label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {plan.added.length > 0 && (
+                <section>
+                  <p className="text-xs font-black uppercase tracking-widest text-emerald-600 mb-2 ml-1">追加される景品</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {plan.added.map(p => (
+                      <span key={p.id} className="text-xs font-bold bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300 px-2 py-1 rounded-lg">{p.name}</span>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {plan.conflicts.length > 0 && (
+                <section>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <p className="text-xs font-black uppercase tracking-widest text-orange-500 ml-1">変更のある景品</p>
+                    <div className="flex gap-1">
+                      <button onClick={() => setAllChoices(() => 'local')} className={bulkButtonClass}>すべて端末側</button>
+                      <button onClick={() => setAllChoices(() => 'incoming')} className={bulkButtonClass}>すべてファイル側</button>
+                      <button onClick={() => setAllChoices(i => newestChoice(plan.conflicts[i]))} className={bulkButtonClass}>新しい方を採用</button>
+                    </div>
+                  </div>
+                  <div className="space-y-3">
+                    {plan.conflicts.map(conflict => {
+                      const choice = choices[conflict.local.id] || 'incoming';
+                      return (
+                        <div key={conflict.local.id} className="border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden">
+                          <div className="px-4 py-2 bg-slate-50 dark:bg-slate-700/50 flex items-center justify-between gap-2">
+                            <span className="font-bold text-sm truncate">{conflict.local.name}</span>
+                            {conflict.matchedBy === 'name' && <span className="text-[10px] font-bold text-slate-400 flex-shrink-0">名前で一致</span>}
+                          </div>
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-slate-400">
+                                <th className="px-4 py-1 text-left font-bold w-20"></th>
+                                {(['local', 'incoming'] as MergeChoice[]).map(side => (
+                                  <th key={side} className="px-2 py-1 text-left">
+                                    <label className="flex items-center gap-1.5 cursor-pointer font-black">
+                                      <input
+                                        type="radio"
+                                        name={`choice-${conflict.local.id}`}
+                                        checked={choice === side}
+                                        onChange={() => setChoices(current => ({ ...current, [conflict.local.id]: side }))}
+                                        className="accent-indigo-600"
+                                      />
+                                      {side === 'local' ? 'この端末' : 'ファイル'}
+                                    </label>
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {conflict.changedFields.map(field => (
+                                <tr key={field} className="border-t border-slate-100 dark:border-slate-700">
+                                  <td className="px-4 py-1.5 font-bold text-slate-500">{comparedFieldLabels[field]}</td>
+                                  {[conflict.local, conflict.incoming].map((prize, i) => (
+                                    <td
+                                      key={i}
+                                      className={`px-2 py-1.5 break-all ${(i === 0) === (choice === 'local') ? 'text-slate-800 dark:text-white font-bold' : 'text-slate-400 line-through'}`}
+                                    >
+                                      {fieldValue(prize, field) || '—'}
+                                    </td>
+                                  ))}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
+              {plan.localOnly.length > 0 && (
+                <label className="flex items-center gap-2 text-sm font-bold text-slate-600 dark:text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={removeLocalOnly} onChange={(e) => setRemoveLocalOnly(e.target.checked)} className="accent-red-500" />
+                  ファイルにない景品（{plan.localOnly.length}件）を削除する
+                </label>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="pt-4 flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={incoming.length === 0}
+            className={`flex-[2] py-4 text-white font-black rounded-2xl shadow-xl transition-all transform active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed ${mode === 'replace' ? 'bg-orange-500 hover:bg-orange-600' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30'}`}
+          >
+            {mode === 'replace' ? '置き換える' : '統合する'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportMergeModal;
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EditableColumn } from '../services/listLayout';
+
+// Where the active cell goes after an edit is committed
+export type CellMove = 'down' | 'next' | 'previous' | null;
+
+interface ListCellEditorProps {
+  column: EditableColumn;
+  initial: string;
+  choices?: string[]; // For category and manufacturer
+  onCommit: (value: string, move: CellMove) => void;
+  onCancel: () => void;
+}
+
+const editorClassName = 'w-full px-2 py-1 bg-white dark:bg-slate-700 border-2 border-indigo-500 rounded-lg text-sm text-slate-800 dark:text-white outline-none';
+
+// Enter commits and moves down, Tab commits and moves sideways, Escape cancels and
+// leaving the cell commits. Notes take Shift+Enter for a new line.
+const ListCellEditor: React.FC<ListCellEditorProps> = ({ column, initial, choices, onCommit, onCancel }) => {
+  const [value, setValue] = useState(initial);
+  const editorRef = useRef<HTMLInputElement & HTMLSelectElement & HTMLTextAreaElement>(null);
+  // Enter and Tab commit before the editor goes away, which may blur it once more
+  const isDoneRef = useRef(false);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    editor?.focus();
+    if (column === 'name' || column === 'notes') editor?.select();
+  }, [column]);
+
+  const finish = (move: CellMove | 'cancel') => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    if (move === 'cancel') onCancel();
+    else onCommit(value, move);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      finish('cancel');
+    } else if (e.key === 'Enter' && !(column === 'notes' && e.shiftKey) && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      finish('down');
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      finish(e.shiftKey ? 'previous' : 'next');
+    }
+  };
+
+  const common = {
+    ref: editorRef,
+    value,
+    onChange: (e: React.ChangeEvent<HTMLInputElement & HTMLSelectElement & HTMLTextAreaElement>) => setValue(e.target.value),
+    onKeyDown: handleKeyDown,
+    onBlur: () => finish(null),
+    onClick: (e: React.MouseEvent) => e.stopPropagation(),
+    className: editorClassName,
+  };
+
+  if (column === 'category' || column === 'manufacturer') {
+    return (
+      <select {...common}>
+        {(choices || []).map(choice => <option key={choice} value={choice}>{choice}</option>)}
+      </select>
+    );
+  }
+  if (column === 'notes') return <textarea {...common} rows={3} className={`${editorClassName} resize-y`} />;
+  return <input {...common} type={column === 'acquisitionDate' ? 'date' : 'text'} />;
+};
+
+export default ListCellEditor;
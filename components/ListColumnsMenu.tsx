@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListColumn, ListLayout, listColumnDefinition } from '../services/listLayout';
+import ViewColumnsIcon from './icons/ViewColumnsIcon';
+import ChevronUpIcon from './icons/ChevronUpIcon';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+
+interface ListColumnsMenuProps {
+  layout: ListLayout;
+  onToggle: (column: ListColumn) => void;
+  onMove: (column: ListColumn, direction: -1 | 1) => void;
+  onReset: () => void;
+}
+
+// Which list columns are shown and in what order; headers can also be dragged and resized
+const ListColumnsMenu: React.FC<ListColumnsMenuProps> = ({ layout, onToggle, onMove, onReset }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleOutsideClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleOutsideClick);
+    return () => document.removeEventListener('mousedown', handleOutsideClick);
+  }, [isOpen]);
+
+  const arrowClassName = 'p-1 rounded-lg text-slate-400 hover:text-indigo-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold text-slate-500 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <ViewColumnsIcon className="w-4 h-4" />
+        列の表示
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 p-3 z-30 animate-in zoom-in-95 duration-200 origin-top-right">
+          <ul className="space-y-0.5">
+            {layout.map(({ column, visible }, index) => (
+              <li key={column} className="flex items-center gap-1">
+                <label className="flex-grow flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={visible}
+                    disabled={column === 'name'}
+                    onChange={() => onToggle(column)}
+                    className="accent-indigo-600"
+                  />
+                  {listColumnDefinition(column).label}
+                </label>
+                <button onClick={() => onMove(column, -1)} disabled={index === 0} className={arrowClassName} aria-label="左へ">
+                  <ChevronUpIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onMove(column, 1)} disabled={index === layout.length - 1} className={arrowClassName} aria-label="右へ">
+                  <ChevronDownIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onReset}
+            className="w-full mt-2 pt-2 border-t border-slate-100 dark:border-slate-700 text-xs font-bold text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+          >
+            初期状態に戻す
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListColumnsMenu;
@@ -0,0 +1,497 @@
+import React, { useMemo, useState } from 'react';
+import { Inventory, LocationKind, Prize, StorageLocation } from '../types';
+import {
+  LocationContent,
+  LocationFields,
+  NO_LOCATION,
+  contentsByLocation,
+  createLocation,
+  exceededCapacity,
+  locationKindLabels,
+  locationOccupancy,
+  locationPaths,
+  locationTree,
+  locationWithDescendants,
+  movePrizeItems,
+  parentChoices,
+  removeLocation,
+  unplacedQuantity,
+  validateLocation,
+} from '../services/locations';
+import PencilIcon from './icons/PencilIcon';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+
+interface LocationsModalProps {
+  isOpen: boolean;
+  inventory: Inventory;
+  // Same contract as App's updateInventory, so every edit can be undone
+  onUpdate: (label: string, update: (current: Inventory) => Inventory) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+const labelClass = "block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1";
+
+const iconButtonClass = "p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-700";
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'}`;
+
+// What goes inside each kind by default when adding from a row
+const childKind: Record<LocationKind, LocationKind> = { room: 'shelf', shelf: 'box', box: 'box' };
+
+const LocationForm: React.FC<{
+  initial: LocationFields;
+  locations: StorageLocation[];
+  locationId?: string;
+  onSubmit: (fields: LocationFields) => string | null;
+  onCancel: () => void;
+  submitLabel: string;
+}> = ({ initial, locations, locationId, onSubmit, onCancel, submitLabel }) => {
+  const [name, setName] = useState(initial.name);
+  const [kind, setKind] = useState<LocationKind>(initial.kind);
+  const [parentId, setParentId] = useState(initial.parentId || '');
+  const [capacity, setCapacity] = useState(initial.capacity?.toString() ?? '');
+  const [notes, setNotes] = useState(initial.notes || '');
+  const [error, setError] = useState<string | null>(null);
+
+  const paths = useMemo(() => locationPaths(locations), [locations]);
+  const excluded = useMemo(() => (locationId ? locationWithDescendants(locations, locationId) : new Set<string>()), [locations, locationId]);
+  const parents = parentChoices(locations, kind).filter(l => !excluded.has(l.id));
+
+  const handleKindChange = (next: LocationKind) => {
+    setKind(next);
+    setError(null);
+    // A parent that can no longer hold this kind is dropped
+    if (!parentChoices(locations, next).some(l => l.id === parentId)) setParentId('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(onSubmit({
+      name: name.trim(),
+      kind,
+      parentId: parentId || undefined,
+      capacity: capacity === '' ? undefined : Number(capacity),
+      notes: notes.trim() || undefined,
+    }));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-50 dark:bg-slate-700/40 rounded-2xl p-4 space-y-3">
+      <div>
+        <p className={labelClass}>種類</p>
+        <div className="flex gap-1.5">
+          {(Object.keys(locationKindLabels) as LocationKind[]).map(k => (
+            <button key={k} type="button" onClick={() => handleKindChange(k)} className={chipClass(kind === k)}>
+              {locationKindLabels[k]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label htmlFor="location-name" className={labelClass}>名前</label>
+        <input
+          id="location-name"
+          type="text"
+          value={name}
+          onChange={(e) => { setName(e.target.value); setError(null); }}
+          placeholder={kind === 'room' ? '例: 自室' : kind === 'shelf' ? '例: カラーボックス上段' : '例: 衣装ケースA'}
+          className={inputClass}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2">
+          <label htmlFor="location-parent" className={labelClass}>置き場所</label>
+          <select id="location-parent" value={parentId} onChange={(e) => { setParentId(e.target.value); setError(null); }} className={inputClass} disabled={kind === 'room'}>
+            <option value="">なし（最上位）</option>
+            {parents.map(l => (
+              <option key={l.id} value={l.id}>{paths[l.id]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="location-capacity" className={labelClass}>容量</label>
+          <input
+            id="location-capacity"
+            type="number"
+            min="1"
+            inputMode="numeric"
+            value={capacity}
+            onChange={(e) => { setCapacity(e.target.value); setError(null); }}
+            placeholder="個"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor="location-notes" className={labelClass}>メモ</label>
+        <input id="location-notes" type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="押入れの左奥 など" className={inputClass} />
+      </div>
+      {error && <p className="text-xs text-red-500 font-bold ml-1">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="flex-1 py-2 bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-200 text-sm font-bold rounded-xl">
+          キャンセル
+        </button>
+        <button type="submit" disabled={!name.trim()} className="flex-[2] py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-black rounded-xl disabled:bg-indigo-400 disabled:cursor-not-allowed">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CapacityBar: React.FC<{ occupied: number; capacity?: number }> = ({ occupied, capacity }) => {
+  if (capacity === undefined) {
+    return <span className="text-xs font-bold text-slate-500">{occupied}個</span>;
+  }
+  const isOver = occupied > capacity;
+  return (
+    <span className="flex items-center gap-2">
+      <span className="w-16 h-1.5 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+        <span
+          className={`block h-full rounded-full ${isOver ? 'bg-red-500' : occupied / capacity > 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+          style={{ width: `${Math.min(100, (occupied / capacity) * 100)}%` }}
+        />
+      </span>
+      <span className={`text-xs font-bold whitespace-nowrap ${isOver ? 'text-red-500' : 'text-slate-500'}`}>{occupied} / {capacity}個</span>
+    </span>
+  );
+};
+
+// Destination picker shared by single-item and whole-location moves
+const MoveForm: React.FC<{
+  max: number | null; // null: everything, no count to choose
+  fromId: string | null;
+  locations: StorageLocation[];
+  paths: Record<string, string>;
+  onMove: (toId: string | null, count: number) => void;
+  onCancel: () => void;
+}> = ({ max, fromId, locations, paths, onMove, onCancel }) => {
+  const destinations = locationTree(locations).map(n => n.location).filter(l => l.id !== fromId);
+  const [toId, setToId] = useState(fromId === null ? destinations[0]?.id || '' : NO_LOCATION);
+  const [count, setCount] = useState(max ?? 0);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 p-2 bg-indigo-50 dark:bg-indigo-900/20 rounded-xl">
+      {max !== null && max > 1 && (
+        <input
+          type="number"
+          min="1"
+          max={max}
+          value={count}
+          onChange={(e) => setCount(Math.min(max, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+          className={`${inputClass} w-16 text-center`}
+          aria-label="移動する個数"
+        />
+      )}
+      <select value={toId} onChange={(e) => setToId(e.target.value)} className={`${inputClass} flex-grow w-auto min-w-0`} aria-label="移動先">
+        {fromId !== null && <option value={NO_LOCATION}>未配置に戻す</option>}
+        {destinations.map(l => (
+          <option key={l.id} value={l.id}>{paths[l.id]}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => onMove(toId === NO_LOCATION ? null : toId, max === null ? Infinity : count)}
+        disabled={!toId}
+        className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-black rounded-xl whitespace-nowrap disabled:bg-indigo-400"
+      >
+        移動する
+      </button>
+      <button type="button" onClick={onCancel} className="px-2 py-2 text-xs font-bold text-slate-500 whitespace-nowrap">
+        やめる
+      </button>
+    </div>
+  );
+};
+
+const LocationsModal: React.FC<LocationsModalProps> = ({ isOpen, inventory, onUpdate, onClose }) => {
+  // null: the tree, NO_LOCATION: unplaced items, otherwise the location whose contents are shown
+  const [viewId, setViewId] = useState<string | null>(null);
+  // null: nothing open, 'new': adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newParent, setNewParent] = useState<StorageLocation | null>(null);
+  // `${prizeId}:${locationId}` of the row being moved, or 'all'
+  const [movingKey, setMovingKey] = useState<string | null>(null);
+
+  const { locations, prizes } = inventory;
+  const tree = useMemo(() => locationTree(locations), [locations]);
+  const paths = useMemo(() => locationPaths(locations), [locations]);
+  const occupancy = useMemo(() => locationOccupancy(locations, prizes), [locations, prizes]);
+  const contents = useMemo(() => contentsByLocation(prizes), [prizes]);
+  const unplaced = useMemo(
+    () => prizes.filter(p => unplacedQuantity(p) > 0).map(prize => ({ prize, quantity: unplacedQuantity(prize) })),
+    [prizes]
+  );
+
+  if (!isOpen) return null;
+
+  const viewed = viewId && viewId !== NO_LOCATION ? locations.find(l => l.id === viewId) : undefined;
+
+  const openView = (id: string | null) => {
+    setViewId(id);
+    setMovingKey(null);
+    setEditingId(null);
+  };
+
+  const startAdding = (parent: StorageLocation | null) => {
+    setNewParent(parent);
+    setEditingId('new');
+  };
+
+  const handleAdd = (fields: LocationFields): string | null => {
+    const error = validateLocation(locations, fields);
+    if (error) return error;
+    onUpdate(`保管場所「${fields.name}」を登録しました`, current => ({ ...current, locations: [...current.locations, createLocation(fields)] }));
+    setEditingId(null);
+    return null;
+  };
+
+  const handleEdit = (location: StorageLocation, fields: LocationFields): string | null => {
+    const error = validateLocation(locations, fields, location.id);
+    if (error) return error;
+    onUpdate(`保管場所「${fields.name}」を更新しました`, current => ({
+      ...current,
+      locations: current.locations.map(l => (l.id === location.id ? { ...l, ...fields } : l)),
+    }));
+    setEditingId(null);
+    return null;
+  };
+
+  const handleDelete = (location: StorageLocation) => {
+    const count = contents.get(location.id)?.reduce((sum, c) => sum + c.quantity, 0) || 0;
+    const hasChildren = locations.some(l => l.parentId === location.id);
+    if ((count > 0 || hasChildren) && !confirm(
+      `「${location.name}」を削除しますか？` +
+      (count > 0 ? `\n中の${count}個は未配置になります。` : '') +
+      (hasChildren ? '\n中の保管場所は一つ上の場所に移ります。' : '')
+    )) return;
+    onUpdate(`保管場所「${location.name}」を削除しました`, current => removeLocation(current, location.id));
+    if (viewId === location.id) openView(null);
+  };
+
+  // null on either side stands for 未配置
+  const confirmCapacity = (fromId: string | null, toId: string | null, count: number): boolean => {
+    if (toId === null) return true;
+    const full = exceededCapacity(locations, occupancy, fromId, toId, count);
+    return !full || confirm(`「${full.name}」の容量（${full.capacity}個）を超えます。移動しますか？`);
+  };
+
+  const destinationLabel = (toId: string | null) => (toId === null ? '未配置' : `「${paths[toId]}」`);
+
+  const handleMoveItem = (prize: Prize, fromId: string | null, toId: string | null, count: number) => {
+    if (!confirmCapacity(fromId, toId, count)) return;
+    onUpdate(`「${prize.name}」を${destinationLabel(toId)}へ移動しました`, current => ({
+      ...current,
+      prizes: current.prizes.map(p => (p.id === prize.id ? movePrizeItems(p, fromId, toId, count) : p)),
+    }));
+    setMovingKey(null);
+  };
+
+  const handleMoveAll = (items: LocationContent[], fromId: string | null, toId: string | null) => {
+    const total = items.reduce((sum, c) => sum + c.quantity, 0);
+    if (!confirmCapacity(fromId, toId, total)) return;
+    const ids = new Set(items.map(c => c.prize.id));
+    onUpdate(`${total}個を${destinationLabel(toId)}へ移動しました`, current => ({
+      ...current,
+      prizes: current.prizes.map(p => (ids.has(p.id) ? movePrizeItems(p, fromId, toId, Infinity) : p)),
+    }));
+    setMovingKey(null);
+  };
+
+  const renderContents = (items: LocationContent[], fromId: string | null) => (
+    <ul className="space-y-2">
+      {items
+        .slice()
+        .sort((a, b) => a.prize.name.localeCompare(b.prize.name, 'ja'))
+        .map(({ prize, quantity }) => {
+          const key = `${prize.id}:${fromId ?? NO_LOCATION}`;
+          return (
+            <li key={key} className="p-3 rounded-xl border border-slate-200 dark:border-slate-700">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-bold text-sm text-slate-700 dark:text-slate-200 truncate">
+                  {prize.name}
+                  <span className="ml-1.5 text-xs font-black text-indigo-600 dark:text-indigo-400">×{quantity}</span>
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setMovingKey(movingKey === key ? null : key)}
+                  className="px-2.5 py-1 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold rounded-lg hover:bg-slate-200 flex-shrink-0"
+                >
+                  移動
+                </button>
+              </div>
+              {movingKey === key && (
+                <MoveForm
+                  max={quantity}
+                  fromId={fromId}
+                  locations={locations}
+                  paths={paths}
+                  onMove={(toId, count) => handleMoveItem(prize, fromId, toId, count)}
+                  onCancel={() => setMovingKey(null)}
+                />
+              )}
+            </li>
+          );
+        })}
+    </ul>
+  );
+
+  const renderContentsView = () => {
+    const fromId = viewed ? viewed.id : null;
+    const direct = viewed ? contents.get(viewed.id) || [] : unplaced;
+    const children = viewed ? tree.filter(n => n.location.parentId === viewed.id).map(n => n.location) : [];
+    return (
+      <div className="space-y-4">
+        <button type="button" onClick={() => openView(null)} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline">
+          ‹ 保管場所の一覧
+        </button>
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-black text-slate-800 dark:text-white truncate">{viewed ? paths[viewed.id] : '未配置'}</p>
+            {viewed?.notes && <p className="text-xs text-slate-500">{viewed.notes}</p>}
+          </div>
+          {viewed && <CapacityBar occupied={occupancy.get(viewed.id) || 0} capacity={viewed.capacity} />}
+        </div>
+
+        {children.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {children.map(child => (
+              <button key={child.id} type="button" onClick={() => openView(child.id)} className={chipClass(false)}>
+                {locationKindLabels[child.kind]}: {child.name}（{occupancy.get(child.id) || 0}）
+              </button>
+            ))}
+          </div>
+        )}
+
+        {direct.length === 0 ? (
+          <p className="text-center text-sm text-slate-400 font-bold py-6">
+            {viewed ? 'ここに直接置いている景品はありません' : 'すべての景品が保管場所に割り当てられています'}
+          </p>
+        ) : (
+          <>
+            <div>
+              <button
+                type="button"
+                onClick={() => setMovingKey(movingKey === 'all' ? null : 'all')}
+                className="text-xs font-bold text-slate-500 hover:text-indigo-600"
+              >
+                {viewed ? 'ここにある景品をすべて移動…' : '未配置の景品をまとめて収納…'}
+              </button>
+              {movingKey === 'all' && (
+                <MoveForm
+                  max={null}
+                  fromId={fromId}
+                  locations={locations}
+                  paths={paths}
+                  onMove={(toId) => handleMoveAll(direct, fromId, toId)}
+                  onCancel={() => setMovingKey(null)}
+                />
+              )}
+            </div>
+            {renderContents(direct, fromId)}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderTree = () => (
+    <div className="space-y-2">
+      {editingId === 'new' ? (
+        <LocationForm
+          initial={{ name: '', kind: newParent ? childKind[newParent.kind] : 'room', parentId: newParent?.id }}
+          locations={locations}
+          onSubmit={handleAdd}
+          onCancel={() => setEditingId(null)}
+          submitLabel="登録する"
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => startAdding(null)}
+          className="w-full py-3 border-2 border-dashed border-slate-200 dark:border-slate-600 rounded-2xl text-sm font-bold text-slate-500 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+        >
+          ＋ 保管場所を登録
+        </button>
+      )}
+
+      {tree.length === 0 && editingId !== 'new' && (
+        <p className="text-center text-sm text-slate-400 font-bold py-6">部屋 → 棚 → 箱 の順に登録すると、景品の置き場所を記録できます</p>
+      )}
+
+      {tree.map(({ location, depth }) =>
+        editingId === location.id ? (
+          <LocationForm
+            key={location.id}
+            initial={location}
+            locations={locations}
+            locationId={location.id}
+            onSubmit={(fields) => handleEdit(location, fields)}
+            onCancel={() => setEditingId(null)}
+            submitLabel="更新する"
+          />
+        ) : (
+          <div key={location.id} style={{ marginLeft: `${depth * 1.25}rem` }} className="flex items-center gap-2 p-3 rounded-xl border border-slate-200 dark:border-slate-700">
+            <button type="button" onClick={() => openView(location.id)} className="flex-grow min-w-0 flex items-center gap-2 text-left">
+              <span className="px-1.5 py-0.5 bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-300 rounded-md text-[10px] font-black flex-shrink-0">
+                {locationKindLabels[location.kind]}
+              </span>
+              <span className="font-bold text-sm text-slate-700 dark:text-slate-200 truncate hover:text-indigo-600">{location.name}</span>
+            </button>
+            <CapacityBar occupied={occupancy.get(location.id) || 0} capacity={location.capacity} />
+            <div className="flex items-center flex-shrink-0">
+              {location.kind !== 'box' && (
+                <button type="button" onClick={() => startAdding(location)} className={iconButtonClass} aria-label="中に保管場所を追加" title="中に保管場所を追加">
+                  <PlusIcon className="w-4 h-4" />
+                </button>
+              )}
+              <button type="button" onClick={() => setEditingId(location.id)} className={iconButtonClass} aria-label="編集">
+                <PencilIcon className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={() => handleDelete(location)} className={`${iconButtonClass} hover:text-red-500`} aria-label="削除">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )
+      )}
+
+      {unplaced.length > 0 && (
+        <button type="button" onClick={() => openView(NO_LOCATION)} className="w-full flex items-center justify-between p-3 rounded-xl bg-slate-50 dark:bg-slate-700/30 text-left">
+          <span className="font-bold text-sm text-slate-500">未配置</span>
+          <span className="text-xs font-bold text-slate-500">{unplaced.reduce((sum, c) => sum + c.quantity, 0)}個 / {unplaced.length}種</span>
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <h2 className="text-xl font-black text-slate-800 dark:text-white">保管場所</h2>
+        <p className="text-sm text-slate-500 mt-1">どこに何個しまってあるかを記録・移動できます</p>
+
+        <div className="overflow-y-auto flex-grow mt-4">
+          {viewId === null || (viewId !== NO_LOCATION && !viewed) ? renderTree() : renderContentsView()}
+        </div>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="mt-4 w-full py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LocationsModal;
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { Inventory, MasterItem, MasterKind } from '../types';
+import { masterColorPalette } from '../constants';
+import {
+  countMasterUsage,
+  createMasterItem,
+  masterItemsOf,
+  masterKindLabels,
+  moveMasterItem,
+  renameMasterItem,
+  validateMasterName,
+} from '../services/masterData';
+import ChevronUpIcon from './icons/ChevronUpIcon';
+import ChevronDownIcon from './icons/ChevronDownIcon';
+import ArchiveBoxIcon from './icons/ArchiveBoxIcon';
+import ArrowUturnLeftIcon from './icons/ArrowUturnLeftIcon';
+
+interface MasterDataModalProps {
+  isOpen: boolean;
+  inventory: Inventory;
+  // Same contract as App's updateInventory, so every edit can be undone
+  onUpdate: (label: string, update: (current: Inventory) => Inventory) => void;
+  onRenamed: (kind: MasterKind, oldName: string, newName: string) => void; // For references outside the inventory
+  onClose: () => void;
+}
+
+const iconButtonClass = "p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400";
+
+const MasterNameInput: React.FC<{ item: MasterItem; onRename: (name: string) => string | null }> = ({ item, onRename }) => {
+  const [value, setValue] = useState(item.name);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setValue(item.name), [item.name]);
+
+  const commit = () => {
+    const name = value.trim();
+    if (name === item.name) {
+      setValue(item.name);
+      setError(null);
+      return;
+    }
+    const message = onRename(name);
+    setError(message);
+    if (message) setValue(item.name);
+  };
+
+  return (
+    <div className="flex-grow min-w-0">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        className={`w-full px-2 py-1 bg-transparent border border-transparent hover:border-slate-200 dark:hover:border-slate-600 focus:border-indigo-500 rounded-lg text-sm font-bold outline-none ${item.archived ? 'text-slate-400 line-through' : 'text-slate-800 dark:text-white'}`}
+        aria-label={`${item.name}の名前`}
+      />
+      {error && <p className="text-[10px] text-red-500 font-bold ml-2">{error}</p>}
+    </div>
+  );
+};
+
+const MasterDataModal: React.FC<MasterDataModalProps> = ({ isOpen, inventory, onUpdate, onRenamed, onClose }) => {
+  const [kind, setKind] = useState<MasterKind>('category');
+  const [newName, setNewName] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [colorPickerId, setColorPickerId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const items = masterItemsOf(inventory.masters, kind, true);
+  const usage = countMasterUsage(inventory.prizes, kind);
+  const label = masterKindLabels[kind];
+
+  const updateItem = (item: MasterItem, changes: Partial<MasterItem>, message: string) => {
+    onUpdate(message, current => ({
+      ...current,
+      masters: current.masters.map(m => (m.id === item.id ? { ...m, ...changes } : m)),
+    }));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    const error = validateMasterName(inventory.masters, kind, name);
+    setAddError(error);
+    if (error) return;
+    const order = items.reduce((max, m) => Math.max(max, m.order + 1), 0);
+    onUpdate(`${label}「${name}」を追加しました`, current => ({
+      ...current,
+      masters: [...current.masters, createMasterItem(kind, name, order)],
+    }));
+    setNewName('');
+  };
+
+  const handleRename = (item: MasterItem, name: string): string | null => {
+    const error = validateMasterName(inventory.masters, kind, name, item.id);
+    if (error) return error;
+    const count = usage[item.name] || 0;
+    onUpdate(
+      `「${item.name}」を「${name}」に変更しました${count > 0 ? `（${count}件の景品に反映）` : ''}`,
+      current => renameMasterItem(current, item.id, name)
+    );
+    onRenamed(kind, item.name, name);
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <h2 className="text-xl font-black text-slate-800 dark:text-white">カテゴリ・メーカー管理</h2>
+        <p className="text-sm text-slate-500 mt-1">名前の変更は登録済みの景品にも反映されます</p>
+
+        <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-xl p-1 mt-4">
+          {(Object.keys(masterKindLabels) as MasterKind[]).map(k => (
+            <button
+              key={k}
+              onClick={() => { setKind(k); setAddError(null); setColorPickerId(null); }}
+              className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${kind === k ? 'bg-white dark:bg-slate-600 shadow text-indigo-600' : 'text-slate-400'}`}
+            >
+              {masterKindLabels[k]}
+            </button>
+          ))}
+        </div>
+
+        <ul className="overflow-y-auto flex-grow mt-4 divide-y divide-slate-100 dark:divide-slate-700">
+          {items.map((item, index) => (
+            <li key={item.id} className={`py-2 ${item.archived ? 'opacity-60' : ''}`}>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setColorPickerId(colorPickerId === item.id ? null : item.id)}
+                  className="w-6 h-6 rounded-full flex-shrink-0 ring-2 ring-white dark:ring-slate-800 shadow"
+                  style={{ backgroundColor: item.color }}
+                  aria-label={`${item.name}の色`}
+                />
+                <MasterNameInput item={item} onRename={(name) => handleRename(item, name)} />
+                <span className="text-xs font-bold text-slate-400 whitespace-nowrap">{usage[item.name] || 0}件</span>
+                <button
+                  type="button"
+                  onClick={() => onUpdate('並び順を変更しました', current => ({ ...current, masters: moveMasterItem(current.masters, item.id, -1) }))}
+                  disabled={index === 0}
+                  className={iconButtonClass}
+                  aria-label="上へ"
+                >
+                  <ChevronUpIcon className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onUpdate('並び順を変更しました', current => ({ ...current, masters: moveMasterItem(current.masters, item.id, 1) }))}
+                  disabled={index === items.length - 1}
+                  className={iconButtonClass}
+                  aria-label="下へ"
+                >
+                  <ChevronDownIcon className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateItem(
+                    item,
+                    { archived: !item.archived },
+                    item.archived ? `「${item.name}」を元に戻しました` : `「${item.name}」をアーカイブしました`
+                  )}
+                  className={iconButtonClass}
+                  aria-label={item.archived ? 'アーカイブを解除' : 'アーカイブ'}
+                  title={item.archived ? 'アーカイブを解除' : 'アーカイブ（新規登録の選択肢から外します）'}
+                >
+                  {item.archived ? <ArrowUturnLeftIcon className="w-4 h-4" /> : <ArchiveBoxIcon className="w-4 h-4" />}
+                </button>
+              </div>
+              {colorPickerId === item.id && (
+                <div className="flex flex-wrap gap-2 mt-2 ml-8">
+                  {masterColorPalette.map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => {
+                        updateItem(item, { color }, `「${item.name}」の色を変更しました`);
+                        setColorPickerId(null);
+                      }}
+                      className={`w-6 h-6 rounded-full ${color === item.color ? 'ring-2 ring-offset-2 ring-indigo-500 dark:ring-offset-slate-800' : ''}`}
+                      style={{ backgroundColor: color }}
+                      aria-label={color}
+                    />
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleAdd} className="pt-4 border-t border-slate-100 dark:border-slate-700">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => { setNewName(e.target.value); setAddError(null); }}
+              placeholder={kind === 'category' ? '例: キーホルダー' : '例: Good Smile'}
+              className="flex-grow px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="px-5 py-3 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-black rounded-2xl whitespace-nowrap disabled:bg-indigo-400 disabled:cursor-not-allowed"
+            >
+              {label}を追加
+            </button>
+          </div>
+          {addError && <p className="text-xs text-red-500 font-bold mt-2 ml-1">{addError}</p>}
+        </form>
+
+        <button
+          type="button"
+          onClick={onClose}
+          className="mt-4 w-full py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MasterDataModal;
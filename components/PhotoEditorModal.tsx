@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DecodedImage, PhotoService, canvasToBlob } from '../services/photos';
+import { CropRect, FULL_CROP, MIN_CROP_SIZE, Rotation, drawEdited, isFullCrop, rotateBy, rotateCrop } from '../services/photoEditing';
+import ArrowUturnLeftIcon from './icons/ArrowUturnLeftIcon';
+import ArrowUturnRightIcon from './icons/ArrowUturnRightIcon';
+
+interface PhotoEditorModalProps {
+  photoId: string | null; // Open while set
+  onSave: (newPhotoId: string) => void; // The edit is stored as a new photo; the original is left for the orphan cleanup
+  onClose: () => void;
+}
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  handle: DragHandle;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+// Longest side of the on-screen preview; the saved photo is cut from the full-size one
+const PREVIEW_MAX_SIZE = 720;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// The crop after dragging `handle` by a fraction of the picture's width and height
+const dragCrop = (crop: CropRect, handle: DragHandle, dx: number, dy: number): CropRect => {
+  if (handle === 'move') {
+    return { ...crop, x: clamp(crop.x + dx, 0, 1 - crop.width), y: clamp(crop.y + dy, 0, 1 - crop.height) };
+  }
+  let left = crop.x;
+  let top = crop.y;
+  let right = crop.x + crop.width;
+  let bottom = crop.y + crop.height;
+  if (handle === 'nw' || handle === 'sw') left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  else right = clamp(right + dx, left + MIN_CROP_SIZE, 1);
+  if (handle === 'nw' || handle === 'ne') top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  else bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const cornerClasses: Record<Exclude<DragHandle, 'move'>, string> = {
+  nw: '-top-2 -left-2 cursor-nwse-resize',
+  ne: '-top-2 -right-2 cursor-nesw-resize',
+  sw: '-bottom-2 -left-2 cursor-nesw-resize',
+  se: '-bottom-2 -right-2 cursor-nwse-resize',
+};
+
+const PhotoEditorModal: React.FC<PhotoEditorModalProps> = ({ photoId, onSave, onClose }) => {
+  const [image, setImage] = useState<DecodedImage | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const [isSaving, setIsSaving] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    if (!photoId) return;
+    let cancelled = false;
+    setImage(null);
+    setLoadFailed(false);
+    setRotation(0);
+    setCrop(FULL_CROP);
+    PhotoService.decodePhoto(photoId)
+      .then(decoded => {
+        if (cancelled) return;
+        if (decoded) setImage(decoded);
+        else setLoadFailed(true);
+      })
+      .catch(error => {
+        console.error('Failed to open photo for editing', error);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [photoId]);
+
+  // The preview shows the whole rotated picture; the crop is drawn over it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!image || !canvas) return;
+    const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(image.width, image.height));
+    const preview = drawEdited(image, rotation, FULL_CROP, scale);
+    canvas.width = preview.width;
+    canvas.height = preview.height;
+    canvas.getContext('2d')?.drawImage(preview, 0, 0);
+  }, [image, rotation]);
+
+  if (!photoId) return null;
+
+  const rotate = (quarterTurns: 1 | -1) => {
+    setRotation(current => rotateBy(current, quarterTurns));
+    setCrop(current => rotateCrop(current, quarterTurns));
+  };
+
+  const startDrag = (handle: DragHandle) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || !frame) return;
+    const { width, height } = frame.getBoundingClientRect();
+    setCrop(dragCrop(drag.startCrop, drag.handle, (e.clientX - drag.startX) / width, (e.clientY - drag.startY) / height));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+    if (rotation === 0 && isFullCrop(crop)) {
+      onClose();
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const blob = await canvasToBlob(drawEdited(image, rotation, crop));
+      onSave(await PhotoService.savePhoto(blob));
+      onClose();
+    } catch (error) {
+      console.error('Failed to save edited photo', error);
+      alert('写真の保存に失敗しました。');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const percent = (fraction: number) => `${fraction * 100}%`;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex justify-center items-end sm:items-center z-[60] p-0 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-lg max-h-[95vh] overflow-y-auto flex flex-col gap-4 border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 className="text-xl font-black text-slate-800 dark:text-white">写真を編集</h2>
+          <p className="text-sm text-slate-500 mt-1">枠の角をドラッグして切り抜く範囲を決めます。</p>
+        </div>
+
+        <div className="flex justify-center bg-slate-100 dark:bg-slate-900 rounded-2xl p-3 min-h-[12rem] items-center">
+          {loadFailed ? (
+            <p className="text-sm font-bold text-slate-400">写真を読み込めませんでした。</p>
+          ) : !image ? (
+            <p className="text-sm font-bold text-slate-400 animate-pulse">読み込み中...</p>
+          ) : (
+            <div
+              ref={frameRef}
+              className="relative overflow-hidden select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              <canvas ref={canvasRef} className="block max-w-full max-h-[55vh]" />
+              <div
+                className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(15,23,42,0.6)] cursor-move"
+                style={{ left: percent(crop.x), top: percent(crop.y), width: percent(crop.width), height: percent(crop.height) }}
+                onPointerDown={startDrag('move')}
+              >
+                {(Object.keys(cornerClasses) as Exclude<DragHandle, 'move'>[]).map(corner => (
+                  <div
+                    key={corner}
+                    className={`absolute w-5 h-5 bg-white rounded-full shadow border-2 border-indigo-500 ${cornerClasses[corner]}`}
+                    onPointerDown={startDrag(corner)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => rotate(-1)}
+            disabled={!image}
+            className="flex-1 flex items-center justify-center gap-2 py-2 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-sm font-bold rounded-xl hover:bg-slate-200 transition-all disabled:opacity-50"
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+            左に回転
+          </button>
+          <button
+            type="button"
+            onClick={() => rotate(1)}
+            disabled={!image}
+            className="flex-1 flex items-center justify-center gap-2 py-2 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-sm font-bold rounded-xl hover:bg-slate-200 transition-all disabled:opacity-50"
+          >
+            <ArrowUturnRightIcon className="w-4 h-4" />
+            右に回転
+          </button>
+          <button
+            type="button"
+            onClick={() => { setRotation(0); setCrop(FULL_CROP); }}
+            disabled={!image || (rotation === 0 && isFullCrop(crop))}
+            className="px-4 py-2 text-sm font-bold text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 transition-colors disabled:opacity-30"
+          >
+            リセット
+          </button>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!image || isSaving}
+            className="flex-[2] py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-2xl transition-all disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          >
+            {isSaving ? '保存中...' : '適用する'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoEditorModal;
@@ -0,0 +1,60 @@
+import React from 'react';
+import usePhotoUrl from '../hooks/usePhotoUrl';
+import PencilIcon from './icons/PencilIcon';
+
+interface PhotoTileProps {
+  photoId: string;
+  isCover: boolean;
+  isLast: boolean;
+  onMoveEarlier: () => void;
+  onMoveLater: () => void;
+  onMakeCover: () => void;
+  onEdit: () => void;
+  onRemove: () => void;
+}
+
+// One photo of the gallery being edited in the prize form
+const PhotoTile: React.FC<PhotoTileProps> = ({ photoId, isCover, isLast, onMoveEarlier, onMoveLater, onMakeCover, onEdit, onRemove }) => {
+  const url = usePhotoUrl(photoId);
+  const arrowClass = 'px-1.5 py-0.5 text-white font-black disabled:opacity-30';
+
+  return (
+    <div className="relative aspect-square">
+      {url ? (
+        <img src={url} alt="" className="w-full h-full rounded-2xl object-cover shadow border-2 border-white dark:border-slate-700" />
+      ) : (
+        <div className="w-full h-full rounded-2xl bg-slate-100 dark:bg-slate-700 animate-pulse" />
+      )}
+      {isCover ? (
+        <span className="absolute top-1 left-1 bg-indigo-600 text-white text-[9px] font-black px-1.5 py-0.5 rounded-full">表紙</span>
+      ) : (
+        <button
+          type="button"
+          onClick={onMakeCover}
+          className="absolute top-1 left-1 bg-slate-900/60 hover:bg-indigo-600 text-white text-[9px] font-black px-1.5 py-0.5 rounded-full transition-colors"
+        >
+          表紙にする
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-1 shadow-xl hover:bg-red-600 transition-colors"
+        aria-label="写真を削除"
+      >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+      <div className="absolute bottom-1 inset-x-1 flex items-center justify-between bg-slate-900/60 rounded-full text-xs">
+        <button type="button" onClick={onMoveEarlier} disabled={isCover} className={arrowClass} aria-label="前へ">‹</button>
+        <button type="button" onClick={onEdit} className="p-1 text-white hover:text-indigo-200" aria-label="切り抜き・回転">
+          <PencilIcon className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" onClick={onMoveLater} disabled={isLast} className={arrowClass} aria-label="後ろへ">›</button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoTile;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Prize } from '../types';
+import usePhotoUrl from '../hooks/usePhotoUrl';
+import { prizePhotoIds } from '../services/photos';
+
+interface PhotoViewerProps {
+  prize: Prize | null;
+  initialIndex?: number; // Gallery position to open at
+  onClose: () => void;
+}
+
+// Horizontal travel in px after which a touch counts as a swipe to the next photo
+const SWIPE_DISTANCE = 50;
+
+const PhotoViewer: React.FC<PhotoViewerProps> = ({ prize, initialIndex = 0, onClose }) => {
+  const photoIds = prize ? prizePhotoIds(prize) : [];
+  const [index, setIndex] = useState(initialIndex);
+  const touchStartX = useRef<number | null>(null);
+  const photoId = photoIds[Math.min(index, photoIds.length - 1)];
+  // The full-size image is only read from IndexedDB while the viewer is open
+  const thumbnailUrl = usePhotoUrl(photoId, 'thumbnail');
+  const fullUrl = usePhotoUrl(photoId, 'full');
+
+  useEffect(() => {
+    setIndex(initialIndex);
+  }, [prize, initialIndex]);
+
+  const count = photoIds.length;
+  const show = (next: number) => setIndex((next + count) % count);
+
+  useEffect(() => {
+    if (!prize) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+      else if (event.key === 'ArrowLeft') setIndex(current => (current - 1 + count) % count);
+      else if (event.key === 'ArrowRight') setIndex(current => (current + 1) % count);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [prize, count, onClose]);
+
+  if (!prize || !photoId) return null;
+
+  const src = fullUrl || thumbnailUrl;
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const startX = touchStartX.current;
+    touchStartX.current = null;
+    if (startX === null || count < 2) return;
+    const distance = e.changedTouches[0].clientX - startX;
+    if (Math.abs(distance) >= SWIPE_DISTANCE) show(index + (distance < 0 ? 1 : -1));
+  };
+
+  const navButtonClass = 'absolute top-1/2 -translate-y-1/2 p-3 text-white/70 hover:text-white transition-colors';
+
+  return (
+    <div
+      className="fixed inset-0 bg-slate-900/90 backdrop-blur-sm flex flex-col justify-center items-center z-50 p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+      onTouchStart={(e) => { touchStartX.current = e.touches[0].clientX; }}
+      onTouchEnd={handleTouchEnd}
+    >
+      {src && (
+        <img
+          src={src}
+          alt={prize.name}
+          className={`max-w-full max-h-[85vh] rounded-2xl shadow-2xl object-contain transition-all ${fullUrl ? '' : 'blur-sm'}`}
+        />
+      )}
+      <p className="mt-4 text-white font-black text-lg">
+        {prize.name}
+        {count > 1 && <span className="ml-3 text-sm font-bold text-white/60">{index + 1} / {count}</span>}
+      </p>
+      {count > 1 && (
+        <>
+          <button
+            onClick={(e) => { e.stopPropagation(); show(index - 1); }}
+            className={`${navButtonClass} left-2`}
+            aria-label="前の写真"
+          >
+            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.75 19.5 8.25 12l7.5-7.5" />
+            </svg>
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); show(index + 1); }}
+            className={`${navButtonClass} right-2`}
+            aria-label="次の写真"
+          >
+            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+            </svg>
+          </button>
+        </>
+      )}
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 text-white/70 hover:text-white transition-colors"
+        aria-label="閉じる"
+      >
+        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default PhotoViewer;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Placement, StorageLocation } from '../types';
+import { locationKindLabels, locationTree } from '../services/locations';
+import TrashIcon from './icons/TrashIcon';
+
+interface PlacementInputProps {
+  placements: Placement[]; // Rows as edited; run through cleanPlacements before saving
+  locations: StorageLocation[];
+  quantity: number; // The prize's quantity being edited
+  onChange: (placements: Placement[]) => void;
+  inputClassName: string;
+}
+
+// Splits a prize's quantity over storage locations; whatever is left over stays unplaced
+const PlacementInput: React.FC<PlacementInputProps> = ({ placements, locations, quantity, onChange, inputClassName }) => {
+  const nodes = locationTree(locations);
+  const placed = placements.reduce((sum, p) => sum + (p.locationId ? p.quantity : 0), 0);
+  const remaining = quantity - placed;
+
+  const updateRow = (index: number, changes: Partial<Placement>) =>
+    onChange(placements.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+
+  const addRow = () => {
+    const used = new Set(placements.map(p => p.locationId));
+    const next = nodes.find(n => !used.has(n.location.id))?.location.id || '';
+    onChange([...placements, { locationId: next, quantity: Math.max(1, remaining) }]);
+  };
+
+  if (locations.length === 0) {
+    return <p className="text-xs text-slate-400 ml-1">保管場所は設定メニューの「保管場所」から登録できます</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {placements.map((placement, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <select
+            value={placement.locationId}
+            onChange={(e) => updateRow(index, { locationId: e.target.value })}
+            className={`${inputClassName} flex-grow min-w-0`}
+            aria-label="保管場所"
+          >
+            <option value="">選択してください</option>
+            {nodes.map(({ location, depth }) => (
+              <option key={location.id} value={location.id}>
+                {'　'.repeat(depth)}{location.name}（{locationKindLabels[location.kind]}）
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="1"
+            inputMode="numeric"
+            value={placement.quantity}
+            onChange={(e) => updateRow(index, { quantity: Math.max(0, Math.floor(Number(e.target.value)) || 0) })}
+            className={`${inputClassName} w-20 flex-shrink-0 text-center`}
+            aria-label="個数"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(placements.filter((_, i) => i !== index))}
+            className="p-2 text-slate-400 hover:text-red-500 flex-shrink-0"
+            aria-label="この保管場所を外す"
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <button type="button" onClick={addRow} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline">
+          ＋ 保管場所を追加
+        </button>
+        {remaining < 0 ? (
+          <span className="text-xs font-bold text-red-500">個数より{-remaining}個多く割り当てています</span>
+        ) : (
+          placements.length > 0 && <span className="text-xs font-bold text-slate-400">未配置 {remaining}個</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlacementInput;
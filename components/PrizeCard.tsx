@@ -1,64 +1,162 @@
-import React from 'react';
-import { Prize } from '../types';
+import React, { useState } from 'react';
+import { MovementType, Prize } from '../types';
 import PencilIcon from './icons/PencilIcon';
 import TrashIcon from './icons/TrashIcon';
 import ImageIcon from './icons/ImageIcon';
+import ClockIcon from './icons/ClockIcon';
+import ArrowsRightLeftIcon from './icons/ArrowsRightLeftIcon';
+import QuantityControl from './QuantityControl';
+import HighlightedText from './HighlightedText';
+import TagChips from './TagChips';
+import usePhotoUrl from '../hooks/usePhotoUrl';
+import { prizePhotoIds } from '../services/photos';
+import { MatchRanges } from '../services/search';
+import { formatYen } from '../services/costs';
 
 interface PrizeCardProps {
   prize: Prize;
   onEdit: (prize: Prize) => void;
   onDelete: (prizeId: string) => void;
-  onQuantityChange: (prizeId: string, newQuantity: number) => void;
+  onQuantityChange: (prizeId: string, newQuantity: number, type?: MovementType) => void;
+  onViewPhoto: (prize: Prize, index?: number) => void;
+  onShowHistory: (prize: Prize) => void;
+  highlights?: MatchRanges; // Search matches to mark
+  categoryColor?: string;
+  onSelectTag?: (tag: string) => void;
+  arcadeName?: string;
+  spent?: number; // Total play cost in yen
+  location?: string | null; // See describePlacements
+  onTransfer?: (prize: Prize) => void; // Only offered while there are other collections
+  isSelected?: boolean;
+  onToggleSelect?: (prizeId: string, extendRange: boolean) => void; // Set while selecting; the whole card toggles
 }
 
-const PrizeCard: React.FC<PrizeCardProps> = ({ prize, onEdit, onDelete, onQuantityChange }) => {
+const GalleryPhoto: React.FC<{ photoId: string; alt: string; onClick: () => void }> = ({ photoId, alt, onClick }) => {
+  const thumbnailUrl = usePhotoUrl(photoId);
   return (
-    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-lg overflow-hidden transform hover:scale-105 transition-transform duration-300 ease-in-out relative">
-      {prize.photo ? (
-        <img src={prize.photo} alt={prize.name} className="w-full h-40 object-cover" />
+    <button type="button" onClick={onClick} className="block w-full h-40 flex-shrink-0 snap-center bg-slate-200 dark:bg-slate-700" aria-label="写真を拡大">
+      {thumbnailUrl && <img src={thumbnailUrl} alt={alt} className="w-full h-40 object-cover" />}
+    </button>
+  );
+};
+
+const PrizeCard: React.FC<PrizeCardProps> = ({ prize, onEdit, onDelete, onQuantityChange, onViewPhoto, onShowHistory, highlights, categoryColor, onSelectTag, arcadeName, spent, location, onTransfer, isSelected = false, onToggleSelect }) => {
+  const photoIds = prizePhotoIds(prize);
+  const [photoIndex, setPhotoIndex] = useState(0);
+
+  // The strip scrolls a photo per swipe; the dots follow whichever one has snapped into view
+  const handleGalleryScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const strip = e.currentTarget;
+    setPhotoIndex(Math.round(strip.scrollLeft / strip.clientWidth));
+  };
+
+  return (
+    <div className={`bg-white dark:bg-slate-800 rounded-lg shadow-lg overflow-hidden transform hover:scale-105 transition-transform duration-300 ease-in-out relative ${isSelected ? 'ring-4 ring-indigo-500' : ''}`}>
+      {onToggleSelect && (
+        // Covers the card so a click anywhere selects it instead of pressing the buttons underneath
+        <button
+          type="button"
+          onClick={(e) => onToggleSelect(prize.id, e.shiftKey)}
+          onMouseDown={(e) => { if (e.shiftKey) e.preventDefault(); }}
+          className={`absolute inset-0 z-10 ${isSelected ? 'bg-indigo-500/10' : 'hover:bg-slate-900/5'}`}
+          aria-pressed={isSelected}
+          aria-label={`「${prize.name}」を選択`}
+        >
+          <span className={`absolute top-2 right-2 w-7 h-7 rounded-full border-2 flex items-center justify-center shadow ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white/90 border-slate-300'}`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="m4.5 12.75 6 6 9-13.5" />
+              </svg>
+            )}
+          </span>
+        </button>
+      )}
+      {photoIds.length > 0 ? (
+        <div className="relative">
+          <div className="flex overflow-x-auto snap-x snap-mandatory [scrollbar-width:none] [&::-webkit-scrollbar]:hidden" onScroll={handleGalleryScroll}>
+            {photoIds.map((id, index) => (
+              <GalleryPhoto key={id} photoId={id} alt={prize.name} onClick={() => onViewPhoto(prize, index)} />
+            ))}
+          </div>
+          {photoIds.length > 1 && (
+            <div className="absolute bottom-2 inset-x-0 flex justify-center gap-1.5 pointer-events-none">
+              {photoIds.map((id, index) => (
+                <span key={id} className={`w-1.5 h-1.5 rounded-full shadow ${index === photoIndex ? 'bg-white' : 'bg-white/50'}`} />
+              ))}
+            </div>
+          )}
+        </div>
       ) : (
         <div className="w-full h-40 bg-slate-200 dark:bg-slate-700 flex items-center justify-center">
           <ImageIcon className="w-16 h-16 text-slate-400 dark:text-slate-500" />
         </div>
       )}
-      <span className="absolute top-2 left-2 bg-indigo-500 text-white text-xs font-semibold px-2 py-1 rounded-full shadow">{prize.category}</span>
+      <span
+        className="absolute top-2 left-2 bg-indigo-500 text-white text-xs font-semibold px-2 py-1 rounded-full shadow"
+        style={categoryColor ? { backgroundColor: categoryColor } : undefined}
+      >
+        <HighlightedText text={prize.category} ranges={highlights?.category} />
+      </span>
       <div className="p-4">
-        <h3 className="text-xl font-bold text-slate-800 dark:text-white mb-2 truncate">{prize.name}</h3>
+        <h3 className="text-xl font-bold text-slate-800 dark:text-white mb-2 truncate">
+          <HighlightedText text={prize.name} ranges={highlights?.name} />
+        </h3>
+        <TagChips tags={prize.tags} onSelect={onSelectTag} className="mb-2" />
         
         <div className="flex items-center justify-between text-slate-600 dark:text-slate-300 mb-2">
           <span className="font-semibold">数量:</span>
-          <div className="flex items-center space-x-2">
-            <button 
-              onClick={() => onQuantityChange(prize.id, Math.max(0, prize.quantity - 1))}
-              className="w-7 h-7 rounded-full bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-100 flex items-center justify-center font-bold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors"
-              aria-label="減らす"
-            >
-              -
-            </button>
-            <span className="font-mono text-lg w-8 text-center">{prize.quantity}</span>
-            <button 
-              onClick={() => onQuantityChange(prize.id, prize.quantity + 1)}
-              className="w-7 h-7 rounded-full bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-100 flex items-center justify-center font-bold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors"
-              aria-label="増やす"
-            >
-              +
-            </button>
-          </div>
+          <QuantityControl
+            quantity={prize.quantity}
+            onChange={(newQuantity, type) => onQuantityChange(prize.id, newQuantity, type)}
+          />
         </div>
         
         <p className="text-slate-600 dark:text-slate-300"><span className="font-semibold">獲得日:</span> {prize.acquisitionDate}</p>
 
         {prize.manufacturer && prize.manufacturer !== '指定なし' && (
-          <p className="text-slate-600 dark:text-slate-300 mt-1"><span className="font-semibold">会社:</span> {prize.manufacturer}</p>
+          <p className="text-slate-600 dark:text-slate-300 mt-1"><span className="font-semibold">会社:</span> <HighlightedText text={prize.manufacturer} ranges={highlights?.manufacturer} /></p>
+        )}
+
+        {arcadeName && (
+          <p className="text-slate-600 dark:text-slate-300 mt-1 truncate"><span className="font-semibold">店舗:</span> {arcadeName}</p>
+        )}
+
+        {location && (
+          <p className="text-slate-600 dark:text-slate-300 mt-1 truncate" title={location}><span className="font-semibold">保管:</span> {location}</p>
+        )}
+
+        {spent !== undefined && (
+          <p className="text-slate-600 dark:text-slate-300 mt-1"><span className="font-semibold">費用:</span> {formatYen(spent)}</p>
+        )}
+
+        {prize.barcode && (
+          <p className="text-slate-600 dark:text-slate-300 mt-1"><span className="font-semibold">JAN:</span> <span className="font-mono text-sm"><HighlightedText text={prize.barcode} ranges={highlights?.barcode} /></span></p>
         )}
         
         {prize.notes && (
           <p className="text-sm text-slate-500 dark:text-slate-400 mt-2 bg-slate-100 dark:bg-slate-700 p-2 rounded whitespace-pre-wrap max-h-20 overflow-y-auto">
-            {prize.notes}
+            <HighlightedText text={prize.notes} ranges={highlights?.notes} />
           </p>
         )}
       </div>
       <div className="p-4 bg-slate-50 dark:bg-slate-700/50 flex justify-end space-x-2">
+        <button
+          onClick={() => onShowHistory(prize)}
+          className="p-2 text-slate-600 dark:text-slate-300 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors"
+          aria-label="履歴"
+        >
+          <ClockIcon className="w-6 h-6" />
+        </button>
+        {onTransfer && (
+          <button
+            onClick={() => onTransfer(prize)}
+            className="p-2 text-slate-600 dark:text-slate-300 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors"
+            aria-label="別のコレクションへ"
+            title="別のコレクションへ移動・コピー"
+          >
+            <ArrowsRightLeftIcon className="w-6 h-6" />
+          </button>
+        )}
         <button
           onClick={() => onEdit(prize)}
           className="p-2 text-slate-600 dark:text-slate-300 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
@@ -78,4 +176,5 @@ const PrizeCard: React.FC<PrizeCardProps> = ({ prize, onEdit, onDelete, onQuanti
   );
 };
 
-export default PrizeCard;
\ No newline at end of file
+// Memoized so the card grid can add and remove rows while scrolling without re-rendering the rest
+export default React.memo(PrizeCard);
@@ -1,27 +1,60 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Prize, PrizeCategory, Manufacturer } from '../types';
+import { Arcade, MasterItem, Placement, PlayCost, Prize, PrizeCategory, Manufacturer, StorageLocation } from '../types';
 import PlusIcon from './icons/PlusIcon';
+import CameraIcon from './icons/CameraIcon';
+import { PhotoService, prizePhotoIds } from '../services/photos';
+import { NO_MANUFACTURER } from '../constants';
+import { TagCount } from '../services/tags';
+import { arcadeChoices, arcadeLabel } from '../services/arcades';
+import { cleanPlacements } from '../services/locations';
+import { masterChoices } from '../services/masterData';
+import { barcodeError, normalizeBarcode } from '../services/barcode';
+import { DuplicateMatch, duplicateReasonLabels, findDuplicatesOf } from '../services/duplicates';
+import TagInput from './TagInput';
+import CostInput from './CostInput';
+import PlacementInput from './PlacementInput';
+import PrizeSummary from './PrizeSummary';
+import PhotoEditorModal from './PhotoEditorModal';
+import PhotoTile from './PhotoTile';
 
 interface PrizeFormModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (prize: Prize) => void;
+  onMergeInto: (targetId: string, prize: Prize) => void; // Adds a new prize's items to an existing one instead
+  existingPrizes: Prize[]; // Checked for duplicates before a new prize is added
   prizeToEdit?: Prize | null;
+  initialBarcode?: string; // Pre-fills a new prize, e.g. after scanning an unknown code
+  categories: MasterItem[]; // Including archived ones
+  manufacturers: MasterItem[];
+  knownTags: TagCount[];
+  arcades: Arcade[]; // Including archived ones
+  locations: StorageLocation[];
 }
 
-const prizeCategories: PrizeCategory[] = ['マスコット', 'ぬいぐるみ', 'フィギュア', 'その他'];
-const prizeManufacturers: Manufacturer[] = ['指定なし', 'バンダイナムコ', 'タイトー', 'SEGA FAVE', 'FuRyu', 'Parade', 'SK', 'その他'];
+// The date input can be cleared, and the charts over time need a real day
+const isValidDate = (date: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(date));
 
-const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave, prizeToEdit }) => {
+const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave, onMergeInto, existingPrizes, prizeToEdit, initialBarcode, categories, manufacturers, knownTags, arcades, locations }) => {
   const [name, setName] = useState('');
   const [quantity, setQuantity] = useState(1);
   const [acquisitionDate, setAcquisitionDate] = useState('');
-  const [photo, setPhoto] = useState('');
+  const [photoIds, setPhotoIds] = useState<string[]>([]);
   const [isProcessingImage, setIsProcessingImage] = useState(false);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [editingPhotoId, setEditingPhotoId] = useState<string | null>(null);
   const [notes, setNotes] = useState('');
-  const [category, setCategory] = useState<PrizeCategory>('その他');
-  const [manufacturer, setManufacturer] = useState<Manufacturer>('指定なし');
+  const [barcode, setBarcode] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [arcadeId, setArcadeId] = useState('');
+  const [cost, setCost] = useState<PlayCost | undefined>(undefined);
+  const [placements, setPlacements] = useState<Placement[]>([]);
+  const [category, setCategory] = useState<PrizeCategory>('');
+  const [manufacturer, setManufacturer] = useState<Manufacturer>(NO_MANUFACTURER);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  // Set when a new prize looks like one already registered; the form waits for a decision
+  const [duplicates, setDuplicates] = useState<{ prize: Prize; matches: DuplicateMatch[] } | null>(null);
 
   const modalRef = useRef<HTMLDivElement>(null);
 
@@ -30,102 +63,140 @@ const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave
       setName(prizeToEdit?.name || '');
       setQuantity(prizeToEdit?.quantity || 1);
       setAcquisitionDate(prizeToEdit?.acquisitionDate || new Date().toISOString().split('T')[0]);
-      setPhoto(prizeToEdit?.photo || '');
+      setPhotoIds(prizeToEdit ? prizePhotoIds(prizeToEdit) : []);
+      setEditingPhotoId(null);
       setNotes(prizeToEdit?.notes || '');
-      setCategory(prizeToEdit?.category || 'その他');
-      setManufacturer(prizeToEdit?.manufacturer || '指定なし');
+      setBarcode(prizeToEdit?.barcode || initialBarcode || '');
+      setTags(prizeToEdit?.tags || []);
+      setArcadeId(prizeToEdit?.arcadeId || '');
+      setCost(prizeToEdit?.cost);
+      setPlacements(prizeToEdit?.placements || []);
+      setCategory(prizeToEdit?.category || categories.find(c => !c.archived)?.name || 'その他');
+      setManufacturer(prizeToEdit?.manufacturer || NO_MANUFACTURER);
+      setDuplicates(null);
     }
+    // Master data edits while the form is open must not reset the fields
   }, [isOpen, prizeToEdit]);
 
-  const resizeImage = (base64Str: string): Promise<string> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.src = base64Str;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        // Optimized: reduced size to 500px for better density
-        const MAX_WIDTH = 500;
-        const MAX_HEIGHT = 500;
-        let width = img.width;
-        let height = img.height;
-
-        if (width > height) {
-          if (width > MAX_WIDTH) {
-            height *= MAX_WIDTH / width;
-            width = MAX_WIDTH;
-          }
-        } else {
-          if (height > MAX_HEIGHT) {
-            width *= MAX_HEIGHT / height;
-            height = MAX_HEIGHT;
-          }
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        ctx?.drawImage(img, 0, 0, width, height);
-        
-        // Optimized: 0.6 quality is usually visually fine for inventory but halves file size
-        const resizedBase64 = canvas.toDataURL('image/jpeg', 0.6);
-        resolve(resizedBase64);
-      };
-    });
-  };
+  // Codes saved before are kept as they are, so only changed ones are checked
+  const normalizedBarcode = normalizeBarcode(barcode);
+  const barcodeProblem = normalizedBarcode && normalizedBarcode !== prizeToEdit?.barcode ? barcodeError(normalizedBarcode) : null;
+  const dateProblem = isValidDate(acquisitionDate) ? null : '獲得日を入力してください';
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name.trim() || isProcessingImage) return;
+    if (!name.trim() || isProcessingImage || barcodeProblem || dateProblem || isCheckingDuplicates) return;
 
     const prizeData: Prize = {
+      ...prizeToEdit,
       id: prizeToEdit?.id || Date.now().toString(),
       name,
       quantity,
       acquisitionDate,
       category,
       manufacturer,
-      photo,
+      photoIds: photoIds.length > 0 ? photoIds : undefined,
+      photoId: undefined,
       notes,
+      barcode: normalizedBarcode || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      arcadeId: arcadeId || undefined,
+      cost,
+      // Anything over the quantity is taken off when the inventory is updated
+      placements: cleanPlacements(placements),
+      updatedAt: new Date().toISOString(),
     };
+
+    if (!prizeToEdit) {
+      setIsCheckingDuplicates(true);
+      try {
+        const matches = await findDuplicatesOf(prizeData, existingPrizes);
+        if (matches.length > 0) {
+          setDuplicates({ prize: prizeData, matches });
+          return;
+        }
+      } catch (error) {
+        // Not being warned is better than not being able to save
+        console.error('Duplicate check failed', error);
+      } finally {
+        setIsCheckingDuplicates(false);
+      }
+    }
     onSave(prizeData);
     onClose();
   };
 
-  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setIsProcessingImage(true);
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      
-      reader.onloadend = async () => {
-        const base64 = reader.result as string;
-        try {
-          const compressed = await resizeImage(base64);
-          setPhoto(compressed);
-        } catch (err) {
-          console.error("Image processing failed", err);
-          setPhoto(base64); 
-        } finally {
-          setIsProcessingImage(false);
-        }
-      };
-      reader.readAsDataURL(file);
+  // Stored right away; photos no prize refers to are cleaned up on the next launch
+  const addPhotos = useCallback(async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    setIsProcessingImage(true);
+    let failed = 0;
+    for (const file of images) {
+      try {
+        const id = await PhotoService.savePhoto(file);
+        setPhotoIds(current => [...current, id]);
+      } catch (err) {
+        console.error("Image processing failed", err);
+        failed++;
+      }
     }
+    setIsProcessingImage(false);
+    if (failed > 0) alert(`${failed}枚の画像を読み込めませんでした。`);
+  }, []);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addPhotos(Array.from(e.target.files || []));
+    e.target.value = '';
   };
 
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingOver(false);
+    addPhotos(Array.from(e.dataTransfer.files));
+  };
+
+  // Moving a photo to the front makes it the cover
+  const movePhoto = (from: number, to: number) => {
+    setPhotoIds(current => {
+      if (to < 0 || to >= current.length) return current;
+      const next = [...current];
+      next.splice(to, 0, ...next.splice(from, 1));
+      return next;
+    });
+  };
+
+  const replacePhoto = (oldId: string, newId: string) => {
+    setPhotoIds(current => current.map(id => (id === oldId ? newId : id)));
+  };
+
+  // Pasting a screenshot or a copied image adds it, while text still pastes into the fields
+  useEffect(() => {
+    if (!isOpen || duplicates || editingPhotoId) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files || []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      event.preventDefault();
+      addPhotos(files);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [isOpen, duplicates, editingPhotoId, addPhotos]);
+
   useEffect(() => {
     const handleOutsideClick = (event: MouseEvent) => {
       if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
         onClose();
       }
     };
-    if (isOpen) {
+    // Clicks in the photo editor are outside the form but must not close it
+    if (isOpen && !editingPhotoId) {
       document.addEventListener('mousedown', handleOutsideClick);
     }
     return () => {
       document.removeEventListener('mousedown', handleOutsideClick);
     };
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, editingPhotoId]);
 
   if (!isOpen) return null;
 
@@ -149,7 +220,54 @@ const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-5">
+        {duplicates && (
+          <div className="space-y-4">
+            <p className="text-sm font-bold text-slate-600 dark:text-slate-300">
+              似ている景品がすでに登録されています。同じ景品なら、登録済みの方に{duplicates.prize.quantity}個追加できます。
+            </p>
+            <ul className="space-y-2">
+              {duplicates.matches.map(({ prize, reasons }) => (
+                <li key={prize.id} className="bg-slate-50 dark:bg-slate-700/50 rounded-2xl p-3 space-y-2">
+                  <PrizeSummary prize={prize} />
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex flex-wrap gap-1">
+                      {reasons.map(reason => (
+                        <span key={reason} className="text-[10px] font-black px-2 py-0.5 rounded-full bg-orange-100 dark:bg-orange-500/20 text-orange-600 dark:text-orange-300">
+                          {duplicateReasonLabels[reason]}
+                        </span>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => { onMergeInto(prize.id, duplicates.prize); onClose(); }}
+                      className="flex-shrink-0 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-black rounded-full transition-all active:scale-95"
+                    >
+                      この景品に+{duplicates.prize.quantity}個
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setDuplicates(null)}
+                className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+              >
+                戻る
+              </button>
+              <button
+                type="button"
+                onClick={() => { onSave(duplicates.prize); onClose(); }}
+                className="flex-[2] py-3 bg-slate-800 dark:bg-slate-600 hover:bg-slate-900 text-white font-black rounded-2xl transition-all"
+              >
+                別の景品として登録
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className={duplicates ? 'hidden' : 'space-y-5'}>
           <div>
             <label htmlFor="name" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">景品名</label>
             <input
@@ -163,6 +281,23 @@ const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave
             />
           </div>
 
+          <div>
+            <label htmlFor="barcode" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">
+              JANコード <span className="normal-case font-bold text-slate-400 ml-1">（任意・タグのバーコード）</span>
+            </label>
+            <input
+              type="text"
+              id="barcode"
+              inputMode="numeric"
+              autoComplete="off"
+              value={barcode}
+              placeholder="例: 4901234567894"
+              onChange={(e) => setBarcode(e.target.value)}
+              className="block w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl shadow-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono"
+            />
+            {barcodeProblem && <p className="text-xs text-red-500 font-bold mt-1 ml-1">{barcodeProblem}</p>}
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label htmlFor="category" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">カテゴリ</label>
@@ -172,7 +307,7 @@ const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave
                 onChange={(e) => setCategory(e.target.value as PrizeCategory)}
                 className="block w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500"
               >
-                {prizeCategories.map(cat => (
+                {masterChoices(categories, category).map(cat => (
                   <option key={cat} value={cat}>{cat}</option>
                 ))}
               </select>
@@ -185,7 +320,7 @@ const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave
                 onChange={(e) => setManufacturer(e.target.value as Manufacturer)}
                 className="block w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500"
               >
-                {prizeManufacturers.map(m => (
+                {[NO_MANUFACTURER, ...masterChoices(manufacturers, manufacturer === NO_MANUFACTURER ? '' : manufacturer)].map(m => (
                   <option key={m} value={m}>{m}</option>
                 ))}
               </select>
@@ -224,47 +359,111 @@ const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave
               <input
                 type="date"
                 id="acquisitionDate"
+                required
                 value={acquisitionDate}
                 onChange={(e) => setAcquisitionDate(e.target.value)}
                 className="block w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500"
               />
+              {dateProblem && <p className="text-xs text-red-500 font-bold mt-1 ml-1">{dateProblem}</p>}
             </div>
           </div>
 
           <div>
+            <label htmlFor="arcade" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">獲得店舗</label>
+            <select
+              id="arcade"
+              value={arcadeId}
+              onChange={(e) => setArcadeId(e.target.value)}
+              className="block w-full px-4 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">未設定</option>
+              {arcadeChoices(arcades, prizeToEdit?.arcadeId).map(a => (
+                <option key={a.id} value={a.id}>{arcadeLabel(a)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">保管場所</p>
+            <PlacementInput
+              placements={placements}
+              locations={locations}
+              quantity={quantity}
+              onChange={setPlacements}
+              inputClassName="block px-3 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+            />
+          </div>
+
+          <div>
+            <p className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">
+              プレイ費用 <span className="normal-case font-bold text-slate-400 ml-1">（任意・追加の獲得は履歴から記録）</span>
+            </p>
+            <CostInput
+              initial={prizeToEdit?.cost}
+              onChange={setCost}
+              inputClassName="block w-full px-3 py-3 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+            />
+          </div>
+
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(true); }}
+            onDragLeave={() => setIsDraggingOver(false)}
+            onDrop={handleDrop}
+            className={`rounded-2xl transition-all ${isDraggingOver ? 'ring-2 ring-indigo-400 ring-offset-4 dark:ring-offset-slate-800' : ''}`}
+          >
             <label className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">
-              写真 {isProcessingImage && <span className="text-indigo-500 normal-case font-bold animate-pulse ml-2">圧縮中...</span>}
+              写真 {isProcessingImage
+                ? <span className="text-indigo-500 normal-case font-bold animate-pulse ml-2">圧縮中...</span>
+                : <span className="normal-case font-bold text-slate-400 ml-1">（1枚目が表紙・ドロップや貼り付けでも追加）</span>}
             </label>
-            <div className="flex gap-4 items-center">
-              <label className={`cursor-pointer group flex-shrink-0 ${isProcessingImage ? 'opacity-50 pointer-events-none' : ''}`}>
-                <div className="w-24 h-24 rounded-2xl border-2 border-dashed border-slate-300 dark:border-slate-600 flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-700/30 group-hover:border-indigo-400 transition-all">
-                  <PlusIcon className="w-8 h-8 text-slate-300 group-hover:text-indigo-400" />
-                  <span className="text-[10px] font-bold text-slate-400 mt-1 uppercase">撮る・選ぶ</span>
+            <div className="grid grid-cols-4 gap-2">
+              {photoIds.map((id, index) => (
+                <PhotoTile
+                  key={id}
+                  photoId={id}
+                  isCover={index === 0}
+                  isLast={index === photoIds.length - 1}
+                  onMoveEarlier={() => movePhoto(index, index - 1)}
+                  onMoveLater={() => movePhoto(index, index + 1)}
+                  onMakeCover={() => movePhoto(index, 0)}
+                  onEdit={() => setEditingPhotoId(id)}
+                  onRemove={() => setPhotoIds(current => current.filter(other => other !== id))}
+                />
+              ))}
+              <label className={`cursor-pointer group ${isProcessingImage ? 'opacity-50 pointer-events-none' : ''}`}>
+                <div className="aspect-square rounded-2xl border-2 border-dashed border-slate-300 dark:border-slate-600 flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-700/30 group-hover:border-indigo-400 transition-all">
+                  <PlusIcon className="w-7 h-7 text-slate-300 group-hover:text-indigo-400" />
+                  <span className="text-[10px] font-bold text-slate-400 mt-1 uppercase">選ぶ</span>
                 </div>
                 <input
                   type="file"
                   accept="image/*"
+                  multiple
                   onChange={handlePhotoChange}
                   className="hidden"
                 />
               </label>
-              {photo && (
-                <div className="relative group flex-shrink-0">
-                  <img src={photo} alt="Preview" className="w-24 h-24 rounded-2xl object-cover shadow-lg border-2 border-white dark:border-slate-700" />
-                  <button 
-                    type="button"
-                    onClick={() => setPhoto('')}
-                    className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1.5 shadow-xl hover:bg-red-600 transition-colors"
-                  >
-                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                  </button>
+              <label className={`cursor-pointer group ${isProcessingImage ? 'opacity-50 pointer-events-none' : ''}`}>
+                <div className="aspect-square rounded-2xl border-2 border-dashed border-slate-300 dark:border-slate-600 flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-700/30 group-hover:border-indigo-400 transition-all">
+                  <CameraIcon className="w-7 h-7 text-slate-300 group-hover:text-indigo-400" />
+                  <span className="text-[10px] font-bold text-slate-400 mt-1 uppercase">撮る</span>
                 </div>
-              )}
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  onChange={handlePhotoChange}
+                  className="hidden"
+                />
+              </label>
             </div>
           </div>
 
+          <div>
+            <label htmlFor="tags" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">タグ</label>
+            <TagInput id="tags" tags={tags} knownTags={knownTags} onChange={setTags} />
+          </div>
+
           <div>
             <label htmlFor="notes" className="block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1">備考・メモ</label>
             <textarea
@@ -287,14 +486,19 @@ const PrizeFormModal: React.FC<PrizeFormModalProps> = ({ isOpen, onClose, onSave
             </button>
             <button
               type="submit"
-              disabled={isProcessingImage}
-              className={`flex-[2] py-4 text-white font-black rounded-2xl shadow-xl transition-all transform active:scale-[0.98] ${isProcessingImage ? 'bg-indigo-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30'}`}
+              disabled={isProcessingImage || !!barcodeProblem || !!dateProblem || isCheckingDuplicates}
+              className={`flex-[2] py-4 text-white font-black rounded-2xl shadow-xl transition-all transform active:scale-[0.98] ${isProcessingImage || barcodeProblem || dateProblem || isCheckingDuplicates ? 'bg-indigo-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30'}`}
             >
-              {prizeToEdit ? '更新する' : 'リストに追加'}
+              {prizeToEdit ? '更新する' : isCheckingDuplicates ? '重複を確認中...' : 'リストに追加'}
             </button>
           </div>
         </form>
       </div>
+      <PhotoEditorModal
+        photoId={editingPhotoId}
+        onSave={(newId) => editingPhotoId && replacePhoto(editingPhotoId, newId)}
+        onClose={() => setEditingPhotoId(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Prize } from '../types';
+import useVirtualRows from '../hooks/useVirtualRows';
+
+interface PrizeGridProps {
+  prizes: Prize[];
+  renderCard: (prize: Prize) => React.ReactNode;
+}
+
+// Matches the grid classes below (sm, lg and xl breakpoints)
+const columnsForWidth = (width: number): number => (width >= 1280 ? 4 : width >= 1024 ? 3 : width >= 640 ? 2 : 1);
+
+const ESTIMATED_ROW_HEIGHT = 380;
+const ROW_GAP = 24; // gap-6
+
+// The card grid, rendered a row at a time so only the rows near the screen are on the page
+const PrizeGrid: React.FC<PrizeGridProps> = ({ prizes, renderCard }) => {
+  const [columns, setColumns] = useState(() => columnsForWidth(window.innerWidth));
+  const rows = useMemo(() => {
+    const result: Prize[][] = [];
+    for (let i = 0; i < prizes.length; i += columns) result.push(prizes.slice(i, i + columns));
+    return result;
+  }, [prizes, columns]);
+  // A row is as tall as its tallest card, so it is known by the cards in it
+  const rowKeys = useMemo(() => rows.map(row => row.map(p => p.id).join(',')), [rows]);
+  const { containerRef, start, end, paddingTop, paddingBottom, measure } = useVirtualRows<HTMLDivElement>(rowKeys, ESTIMATED_ROW_HEIGHT, ROW_GAP, String(columns));
+
+  useEffect(() => {
+    const handleResize = () => setColumns(columnsForWidth(window.innerWidth));
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  return (
+    <div ref={containerRef} className="flex flex-col gap-6" style={{ paddingTop, paddingBottom }}>
+      {rows.slice(start, end).map((row, offset) => (
+        <div key={rowKeys[start + offset]} ref={measure(rowKeys[start + offset])} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {row.map(prize => (
+            <React.Fragment key={prize.id}>{renderCard(prize)}</React.Fragment>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PrizeGrid;
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Arcade, MovementType, PlayCost, Prize, StockMovement } from '../types';
+import { movementTypeLabels, sortMovementsNewestFirst, todayString } from '../services/ledger';
+import { arcadeChoices, arcadeLabel, movementArcadeId } from '../services/arcades';
+import { formatYen } from '../services/costs';
+import CostInput from './CostInput';
+
+interface PrizeHistoryModalProps {
+  prize: Prize | null;
+  movements: StockMovement[];
+  arcades: Arcade[];
+  onClose: () => void;
+  onAddMovement: (
+    prizeId: string,
+    delta: number,
+    type: MovementType,
+    date: string,
+    memo: string,
+    win?: { arcadeId?: string; cost?: PlayCost }
+  ) => void;
+}
+
+const movementTypes = Object.keys(movementTypeLabels) as MovementType[];
+
+const PrizeHistoryModal: React.FC<PrizeHistoryModalProps> = ({ prize, movements, arcades, onClose, onAddMovement }) => {
+  const [type, setType] = useState<MovementType>('won');
+  const [delta, setDelta] = useState(1);
+  const [date, setDate] = useState(todayString());
+  const [memo, setMemo] = useState('');
+  const [arcadeId, setArcadeId] = useState('');
+  const [cost, setCost] = useState<PlayCost | undefined>(undefined);
+  // Bumped to clear the cost fields after each entry
+  const [costInputKey, setCostInputKey] = useState(0);
+
+  useEffect(() => {
+    if (prize) {
+      setType('won');
+      setDelta(1);
+      setDate(todayString());
+      setMemo('');
+      setArcadeId(prize.arcadeId || '');
+      setCost(undefined);
+      setCostInputKey(k => k + 1);
+    }
+  }, [prize?.id]);
+
+  // Each entry with the stock level right after it, newest first
+  const timeline = useMemo(() => {
+    if (!prize) return [];
+    const newestFirst = sortMovementsNewestFirst(movements.filter(m => m.prizeId === prize.id));
+    let balance = prize.quantity;
+    return newestFirst.map(movement => {
+      const entry = { movement, balanceAfter: balance };
+      balance -= movement.delta;
+      return entry;
+    });
+  }, [prize, movements]);
+
+  const arcadeNames = useMemo(() => Object.fromEntries(arcades.map(a => [a.id, arcadeLabel(a)])), [arcades]);
+
+  if (!prize) return null;
+
+  const storeOf = (movement: StockMovement): string | undefined => {
+    const id = movementArcadeId(movement, prize);
+    return id ? arcadeNames[id] : undefined;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (delta === 0 || prize.quantity + delta < 0) return;
+    // Only wins happen at a store and cost plays
+    onAddMovement(prize.id, delta, type, date, memo, type === 'won' ? { arcadeId: arcadeId || undefined, cost } : undefined);
+    setMemo('');
+    setCost(undefined);
+    setCostInputKey(k => k + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-black text-slate-800 dark:text-white">在庫の履歴</h2>
+            <p className="text-sm text-slate-500 mt-1">{prize.name}（現在 {prize.quantity} 個）</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-slate-50 dark:bg-slate-700/40 rounded-2xl p-4 mb-6 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as MovementType)}
+              className="col-span-2 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm font-bold"
+            >
+              {movementTypes.map(t => (
+                <option key={t} value={t}>{movementTypeLabels[t]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={delta}
+              onChange={(e) => setDelta(Number(e.target.value))}
+              className="px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm font-bold text-center"
+              aria-label="増減数"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm"
+            />
+            <input
+              type="text"
+              value={memo}
+              placeholder="メモ（任意）"
+              onChange={(e) => setMemo(e.target.value)}
+              className="col-span-2 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm"
+            />
+          </div>
+          {type === 'won' && (
+            <CostInput
+              key={costInputKey}
+              onChange={setCost}
+              inputClassName="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm"
+            />
+          )}
+          {type === 'won' && (
+            <select
+              value={arcadeId}
+              onChange={(e) => setArcadeId(e.target.value)}
+              className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm"
+              aria-label="獲得店舗"
+            >
+              <option value="">店舗未設定</option>
+              {arcadeChoices(arcades, arcadeId).map(a => (
+                <option key={a.id} value={a.id}>{arcadeLabel(a)}</option>
+              ))}
+            </select>
+          )}
+          <button
+            type="submit"
+            disabled={delta === 0 || prize.quantity + delta < 0}
+            className="w-full py-2 bg-indigo-600 text-white font-black rounded-xl text-sm hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            記録を追加
+          </button>
+        </form>
+
+        {timeline.length === 0 ? (
+          <p className="text-center text-sm text-slate-400 font-bold py-8">まだ履歴がありません</p>
+        ) : (
+          <ol className="relative border-l-2 border-slate-200 dark:border-slate-700 ml-2 space-y-4">
+            {timeline.map(({ movement, balanceAfter }) => (
+              <li key={movement.id} className="ml-4">
+                <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ${movement.delta > 0 ? 'bg-emerald-500' : 'bg-rose-500'}`} />
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-black text-slate-400">{movement.date}</span>
+                    <span className="text-xs font-bold bg-slate-100 dark:bg-slate-700 px-2 py-0.5 rounded-full">{movementTypeLabels[movement.type]}</span>
+                  </div>
+                  <span className={`font-mono font-black ${movement.delta > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                    <span className="text-xs text-slate-400 font-normal ml-1">→ {balanceAfter}</span>
+                  </span>
+                </div>
+                {movement.type === 'won' && storeOf(movement) && (
+                  <p className="text-xs text-slate-400 mt-1">@ {storeOf(movement)}</p>
+                )}
+                {movement.cost && (
+                  <p className="text-xs text-slate-400 mt-1">
+                    {formatYen(movement.cost.total)}
+                    {movement.cost.plays !== undefined && `（${movement.cost.plays}回）`}
+                  </p>
+                )}
+                {movement.memo && (
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{movement.memo}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrizeHistoryModal;
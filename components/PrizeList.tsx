@@ -1,98 +1,566 @@
 
-import React from 'react';
-import { Prize } from '../types';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MasterItem, MovementType, Prize } from '../types';
 import PencilIcon from './icons/PencilIcon';
 import TrashIcon from './icons/TrashIcon';
+import ImageIcon from './icons/ImageIcon';
+import ClockIcon from './icons/ClockIcon';
+import ArrowsRightLeftIcon from './icons/ArrowsRightLeftIcon';
+import QuantityControl from './QuantityControl';
+import HighlightedText from './HighlightedText';
+import TagChips from './TagChips';
+import ListCellEditor, { CellMove } from './ListCellEditor';
+import ListColumnsMenu from './ListColumnsMenu';
+import usePhotoUrl from '../hooks/usePhotoUrl';
+import useVirtualRows from '../hooks/useVirtualRows';
+import { coverPhotoId } from '../services/photos';
+import { MatchRanges, snippetAround } from '../services/search';
+import { describePlacements } from '../services/locations';
+import { masterChoices } from '../services/masterData';
+import { PrizeFieldChanges } from '../services/bulk';
+import { SettingsService } from '../services/settings';
+import { NO_MANUFACTURER } from '../constants';
+import {
+  ColumnSort,
+  EditableColumn,
+  ListColumn,
+  ListColumnLayout,
+  ListLayout,
+  MIN_COLUMN_WIDTH,
+  defaultListLayout,
+  isEditableColumn,
+  listColumnDefinition,
+  moveListColumn,
+  nextColumnSorts,
+  normalizeListLayout,
+  updateListColumn,
+} from '../services/listLayout';
 
 interface PrizeListProps {
   prizes: Prize[];
   onEdit: (prize: Prize) => void;
   onDelete: (prizeId: string) => void;
-  onQuantityChange: (prizeId: string, newQuantity: number) => void;
+  onQuantityChange: (prizeId: string, newQuantity: number, type?: MovementType) => void;
+  onUpdateFields: (prizeId: string, changes: PrizeFieldChanges) => void; // Edits made in a cell
+  onViewPhoto: (prize: Prize, index?: number) => void;
+  onShowHistory: (prize: Prize) => void;
+  sorts: ColumnSort[]; // Header sort keys, most significant first; `prizes` are already in this order
+  onSortChange: (sorts: ColumnSort[]) => void;
+  categories: MasterItem[]; // Including archived ones
+  manufacturers: MasterItem[];
+  highlights?: Map<string, MatchRanges> | null; // Search matches by prize id
+  categoryColors?: Record<string, string>;
+  onSelectTag?: (tag: string) => void;
+  locationPaths?: Record<string, string>; // Full path by location id
+  onTransfer?: (prize: Prize) => void; // Only offered while there are other collections
+  selectedIds?: Set<string>; // Checkboxes are shown while selecting
+  onToggleSelect?: (prizeId: string, extendRange: boolean) => void;
+  onToggleSelectAll?: () => void;
 }
 
-const PrizeList: React.FC<PrizeListProps> = ({ prizes, onEdit, onDelete, onQuantityChange }) => {
+interface Cell {
+  prizeId: string;
+  column: ListColumn;
+}
+
+type Move = 'up' | 'down' | 'left' | 'right' | 'next' | 'previous' | 'home' | 'end';
+
+const LAYOUT_SETTING = 'list-layout';
+const SELECT_COLUMN_WIDTH = 48;
+const ACTIONS_COLUMN_WIDTH = 184;
+const ESTIMATED_ROW_HEIGHT = 73;
+
+const keyMoves: Record<string, Move> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  Home: 'home',
+  End: 'end',
+};
+
+const cellKey = (cell: Cell): string => `${cell.prizeId}:${cell.column}`;
+
+const editValue = (prize: Prize, column: EditableColumn): string =>
+  column === 'manufacturer' ? prize.manufacturer || NO_MANUFACTURER : column === 'notes' ? prize.notes || '' : prize[column];
+
+const PrizeThumbnail: React.FC<{ prize: Prize; onViewPhoto: (prize: Prize) => void }> = ({ prize, onViewPhoto }) => {
+  const photoId = coverPhotoId(prize);
+  const thumbnailUrl = usePhotoUrl(photoId);
+
+  if (!photoId) {
+    return (
+      <div className="w-10 h-10 rounded bg-slate-200 dark:bg-slate-700 flex items-center justify-center flex-shrink-0">
+        <ImageIcon className="w-5 h-5 text-slate-400 dark:text-slate-500" />
+      </div>
+    );
+  }
+
   return (
-    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-lg overflow-x-auto">
-      <table className="w-full text-sm text-left rtl:text-right text-slate-500 dark:text-slate-400">
-        <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-700 dark:text-slate-300">
-          <tr>
-            <th scope="col" className="px-6 py-3 min-w-[200px]">
-              景品名
-            </th>
-            <th scope="col" className="px-6 py-3">
-              カテゴリ
-            </th>
-            <th scope="col" className="px-6 py-3 text-center">
-              数量
-            </th>
-            <th scope="col" className="px-6 py-3">
-              獲得日
-            </th>
-            <th scope="col" className="px-6 py-3">
-              会社
-            </th>
-            <th scope="col" className="px-6 py-3 text-right">
-              操作
-            </th>
-          </tr>
-        </thead>
-        <tbody>
-          {prizes.map((prize) => (
-            <tr key={prize.id} className="bg-white dark:bg-slate-800 border-b dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600/50 align-middle">
-              <th scope="row" className="px-6 py-4 font-medium text-slate-900 dark:text-white whitespace-nowrap">
-                {prize.name}
-              </th>
-              <td className="px-6 py-4">
-                {prize.category}
-              </td>
-              <td className="px-6 py-4">
-                <div className="flex items-center justify-center space-x-2">
-                  <button
-                    onClick={() => onQuantityChange(prize.id, Math.max(0, prize.quantity - 1))}
-                    className="w-7 h-7 rounded-full bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-100 flex items-center justify-center font-bold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors"
-                    aria-label="減らす"
-                  >
-                    -
-                  </button>
-                  <span className="font-mono text-base w-8 text-center">{prize.quantity}</span>
-                  <button
-                    onClick={() => onQuantityChange(prize.id, prize.quantity + 1)}
-                    className="w-7 h-7 rounded-full bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-100 flex items-center justify-center font-bold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors"
-                    aria-label="増やす"
+    <button type="button" onClick={() => onViewPhoto(prize)} className="w-10 h-10 rounded overflow-hidden bg-slate-200 dark:bg-slate-700 flex-shrink-0" aria-label="写真を拡大">
+      {thumbnailUrl && <img src={thumbnailUrl} alt={prize.name} className="w-full h-full object-cover" />}
+    </button>
+  );
+};
+
+// The notes column is hidden by default, so a matching part of the notes is shown under the name
+const NotesSnippet: React.FC<{ notes: string; ranges: MatchRanges['notes'] }> = ({ notes, ranges }) => {
+  const snippet = snippetAround(notes, ranges);
+  return (
+    <p className="text-xs font-normal text-slate-500 dark:text-slate-400 mt-0.5 truncate max-w-xs">
+      <HighlightedText text={snippet.text} ranges={snippet.ranges} />
+    </p>
+  );
+};
+
+interface PrizeRowProps {
+  prize: Prize;
+  columns: ListColumnLayout[]; // Visible ones
+  matches?: MatchRanges;
+  isSelecting: boolean;
+  isSelected: boolean;
+  editingColumn: EditableColumn | null;
+  tabStopColumn: ListColumn | null;
+  categoryColor?: string;
+  location: string;
+  categories: MasterItem[];
+  manufacturers: MasterItem[];
+  measure: (key: string) => (element: HTMLElement | null) => void;
+  onCellFocus: (cell: Cell) => void;
+  onCellKeyDown: (e: React.KeyboardEvent, cell: Cell) => void;
+  onStartEdit: (cell: Cell) => void;
+  onCommitEdit: (cell: Cell, value: string, move: CellMove) => void;
+  onCancelEdit: () => void;
+  onEdit: (prize: Prize) => void;
+  onDelete: (prizeId: string) => void;
+  onQuantityChange: (prizeId: string, newQuantity: number, type?: MovementType) => void;
+  onViewPhoto: (prize: Prize, index?: number) => void;
+  onShowHistory: (prize: Prize) => void;
+  onSelectTag?: (tag: string) => void;
+  onTransfer?: (prize: Prize) => void;
+  onToggleSelect?: (prizeId: string, extendRange: boolean) => void;
+}
+
+// Memoized so that scrolling, which adds and removes rows, leaves the others alone
+const PrizeRow: React.FC<PrizeRowProps> = React.memo(({
+  prize, columns, matches, isSelecting, isSelected, editingColumn, tabStopColumn, categoryColor, location, categories, manufacturers,
+  measure, onCellFocus, onCellKeyDown, onStartEdit, onCommitEdit, onCancelEdit,
+  onEdit, onDelete, onQuantityChange, onViewPhoto, onShowHistory, onSelectTag, onTransfer, onToggleSelect,
+}: PrizeRowProps) => {
+  const renderContent = (column: ListColumn) => {
+    switch (column) {
+      case 'name':
+        return (
+          <div className="flex items-center gap-3 min-w-0">
+            <PrizeThumbnail prize={prize} onViewPhoto={onViewPhoto} />
+            <div className="min-w-0">
+              <p className="truncate"><HighlightedText text={prize.name} ranges={matches?.name} /></p>
+              {prize.notes && matches?.notes && !columns.some(c => c.column === 'notes') && (
+                <NotesSnippet notes={prize.notes} ranges={matches.notes} />
+              )}
+              <TagChips tags={prize.tags} onSelect={onSelectTag} className="mt-1" />
+            </div>
+          </div>
+        );
+      case 'category':
+        return (
+          <span className="inline-flex items-center gap-1.5 max-w-full">
+            {categoryColor && <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: categoryColor }} />}
+            <span className="truncate"><HighlightedText text={prize.category} ranges={matches?.category} /></span>
+          </span>
+        );
+      case 'quantity':
+        return (
+          <div className="flex justify-center">
+            <QuantityControl
+              quantity={prize.quantity}
+              onChange={(newQuantity, type) => onQuantityChange(prize.id, newQuantity, type)}
+              valueClassName="text-base"
+            />
+          </div>
+        );
+      case 'acquisitionDate':
+        return <span className="whitespace-nowrap">{prize.acquisitionDate}</span>;
+      case 'manufacturer':
+        return prize.manufacturer && prize.manufacturer !== NO_MANUFACTURER
+          ? <span className="block truncate"><HighlightedText text={prize.manufacturer} ranges={matches?.manufacturer} /></span>
+          : '-';
+      case 'location':
+        return <span className="block truncate" title={location || undefined}>{location || '-'}</span>;
+      case 'notes':
+        return prize.notes
+          ? <span className="block truncate" title={prize.notes}><HighlightedText text={prize.notes} ranges={matches?.notes} /></span>
+          : '-';
+      case 'barcode':
+        return prize.barcode ? <span className="font-mono"><HighlightedText text={prize.barcode} ranges={matches?.barcode} /></span> : '-';
+    }
+  };
+
+  return (
+    <tr ref={measure(prize.id)} className={`border-b dark:border-slate-700 align-middle ${isSelected ? 'bg-indigo-50 dark:bg-indigo-500/10' : 'bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-600/50'}`}>
+      {isSelecting && (
+        <td className="pl-6 py-4">
+          {/* onClick rather than onChange, which does not say whether Shift was held */}
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onClick={(e) => onToggleSelect?.(prize.id, e.shiftKey)}
+            onChange={() => {}}
+            className="w-4 h-4 accent-indigo-600 cursor-pointer"
+            aria-label={`「${prize.name}」を選択`}
+          />
+        </td>
+      )}
+      {columns.map(({ column }) => {
+        const cell = { prizeId: prize.id, column };
+        const CellTag = column === 'name' ? 'th' : 'td';
+        return (
+          <CellTag
+            key={column}
+            scope={column === 'name' ? 'row' : undefined}
+            data-cell={cellKey(cell)}
+            tabIndex={tabStopColumn === column ? 0 : -1}
+            onFocus={(e: React.FocusEvent) => { if (e.target === e.currentTarget) onCellFocus(cell); }}
+            onKeyDown={(e: React.KeyboardEvent) => onCellKeyDown(e, cell)}
+            onDoubleClick={() => onStartEdit(cell)}
+            className={`px-4 py-4 outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500 overflow-hidden ${
+              column === 'name' ? 'font-medium text-slate-900 dark:text-white' : ''
+            } ${isEditableColumn(column) ? 'cursor-text' : ''}`}
+          >
+            {editingColumn === column ? (
+              <ListCellEditor
+                column={editingColumn}
+                initial={editValue(prize, editingColumn)}
+                choices={
+                  column === 'category' ? masterChoices(categories, prize.category)
+                    : column === 'manufacturer' ? [NO_MANUFACTURER, ...masterChoices(manufacturers, prize.manufacturer === NO_MANUFACTURER ? '' : prize.manufacturer)]
+                    : undefined
+                }
+                onCommit={(value, move) => onCommitEdit(cell, value, move)}
+                onCancel={onCancelEdit}
+              />
+            ) : (
+              renderContent(column)
+            )}
+          </CellTag>
+        );
+      })}
+      <td className="px-6 py-4">
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={() => onShowHistory(prize)}
+            className="p-2 text-slate-500 dark:text-slate-400 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors"
+            aria-label="履歴"
+          >
+            <ClockIcon className="w-5 h-5" />
+          </button>
+          {onTransfer && (
+            <button
+              onClick={() => onTransfer(prize)}
+              className="p-2 text-slate-500 dark:text-slate-400 hover:text-indigo-500 dark:hover:text-indigo-400 transition-colors"
+              aria-label="別のコレクションへ"
+              title="別のコレクションへ移動・コピー"
+            >
+              <ArrowsRightLeftIcon className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => onEdit(prize)}
+            className="p-2 text-slate-500 dark:text-slate-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+            aria-label="編集"
+          >
+            <PencilIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onDelete(prize.id)}
+            className="p-2 text-slate-500 dark:text-slate-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
+            aria-label="削除"
+          >
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+});
+
+const PrizeList: React.FC<PrizeListProps> = ({
+  prizes, onEdit, onDelete, onQuantityChange, onUpdateFields, onViewPhoto, onShowHistory, sorts, onSortChange, categories, manufacturers,
+  highlights, categoryColors, onSelectTag, locationPaths = {}, onTransfer, selectedIds, onToggleSelect, onToggleSelectAll,
+}) => {
+  const [layout, setLayout] = useState<ListLayout>(() => normalizeListLayout(SettingsService.get<unknown>(LAYOUT_SETTING, null)));
+  const [activeCell, setActiveCell] = useState<Cell | null>(null);
+  const [editingCell, setEditingCell] = useState<Cell | null>(null);
+  const [draggedColumn, setDraggedColumn] = useState<ListColumn | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+  // Set when the keyboard moved the active cell, so the next render focuses it
+  const focusPendingRef = useRef(false);
+  const resizeRef = useRef<{ column: ListColumn; startX: number; startWidth: number } | null>(null);
+
+  const isSelecting = !!selectedIds && !!onToggleSelect;
+  const allSelected = isSelecting && prizes.length > 0 && prizes.every(p => selectedIds?.has(p.id));
+  const columns = useMemo(() => layout.filter(c => c.visible), [layout]);
+  const rowKeys = useMemo(() => prizes.map(p => p.id), [prizes]);
+  // Row heights depend on the column widths and on whether the checkboxes are shown
+  const rowLayoutKey = `${isSelecting}:${columns.map(c => `${c.column}=${c.width}`).join(',')}`;
+  const { containerRef, start, end, paddingTop, paddingBottom, measure, scrollToRow } =
+    useVirtualRows<HTMLTableSectionElement>(rowKeys, ESTIMATED_ROW_HEIGHT, 0, rowLayoutKey);
+  const tableWidth = columns.reduce((sum, c) => sum + c.width, ACTIONS_COLUMN_WIDTH + (isSelecting ? SELECT_COLUMN_WIDTH : 0));
+  // The cell Tab enters the table at; the others are reached with the arrow keys. It has to be
+  // one of the rendered rows, so after scrolling away it falls back to the first of those.
+  const activeRow = activeCell ? prizes.findIndex(p => p.id === activeCell.prizeId) : -1;
+  const tabStop = activeCell && activeRow >= start && activeRow < end && columns.some(c => c.column === activeCell.column)
+    ? activeCell
+    : start < end ? { prizeId: prizes[start].id, column: columns[0].column } : null;
+
+  useEffect(() => {
+    if (!focusPendingRef.current || !activeCell || editingCell) return;
+    // A row outside the rendered window appears once the page has scrolled to it
+    const element = tableRef.current?.querySelector<HTMLElement>(`[data-cell="${CSS.escape(cellKey(activeCell))}"]`);
+    if (!element) return;
+    focusPendingRef.current = false;
+    element.focus();
+  });
+
+  const changeLayout = (next: ListLayout) => {
+    setLayout(next);
+    SettingsService.set(LAYOUT_SETTING, next);
+  };
+
+  const moveActive = useCallback((from: Cell, move: Move): boolean => {
+    let row = prizes.findIndex(p => p.id === from.prizeId);
+    let col = columns.findIndex(c => c.column === from.column);
+    if (row === -1 || col === -1) return false;
+    switch (move) {
+      case 'up': row--; break;
+      case 'down': row++; break;
+      case 'left': col--; break;
+      case 'right': col++; break;
+      case 'home': col = 0; break;
+      case 'end': col = columns.length - 1; break;
+      case 'next':
+        if (col < columns.length - 1) col++;
+        else { row++; col = 0; }
+        break;
+      case 'previous':
+        if (col > 0) col--;
+        else { row--; col = columns.length - 1; }
+        break;
+    }
+    if (row < 0 || row >= prizes.length || col < 0 || col >= columns.length) return false;
+    focusPendingRef.current = true;
+    scrollToRow(row);
+    setActiveCell({ prizeId: prizes[row].id, column: columns[col].column });
+    return true;
+  }, [prizes, columns, scrollToRow]);
+
+  const handleCellFocus = useCallback((cell: Cell) => setActiveCell(cell), []);
+
+  const handleStartEdit = useCallback((cell: Cell) => {
+    if (isEditableColumn(cell.column)) setEditingCell(cell);
+  }, []);
+
+  const handleCellKeyDown = useCallback((e: React.KeyboardEvent, cell: Cell) => {
+    // Keys pressed on the buttons inside a cell are theirs
+    if (e.target !== e.currentTarget) return;
+    const move = keyMoves[e.key];
+    if (move) {
+      e.preventDefault();
+      moveActive(cell, move);
+    } else if (e.key === 'Tab') {
+      // At either end of the table Tab leaves it as usual
+      if (moveActive(cell, e.shiftKey ? 'previous' : 'next')) e.preventDefault();
+    } else if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      if (isEditableColumn(cell.column)) setEditingCell(cell);
+      else if (e.key === 'Enter') moveActive(cell, 'down');
+    }
+  }, [moveActive]);
+
+  const commitEdit = useCallback((cell: Cell, value: string, move: CellMove) => {
+    setEditingCell(null);
+    const prize = prizes.find(p => p.id === cell.prizeId);
+    const column = cell.column as EditableColumn;
+    // Notes keep their line breaks and spacing; a name or date cannot be emptied
+    const newValue = column === 'notes' ? value : value.trim();
+    if (prize && newValue !== editValue(prize, column) && (newValue || column === 'notes')) {
+      onUpdateFields(prize.id, { [column]: newValue });
+    }
+    // Leaving the cell with the mouse leaves the focus where it was clicked
+    if (move) {
+      focusPendingRef.current = true;
+      moveActive(cell, move);
+    }
+  }, [prizes, onUpdateFields, moveActive]);
+
+  const cancelEdit = useCallback(() => {
+    setEditingCell(null);
+    focusPendingRef.current = true;
+  }, []);
+
+  const handleDrop = (e: React.DragEvent, column: ListColumn) => {
+    e.preventDefault();
+    if (draggedColumn) changeLayout(moveListColumn(layout, draggedColumn, column));
+    setDraggedColumn(null);
+  };
+
+  const startResize = (e: React.PointerEvent, column: ListColumn, width: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    resizeRef.current = { column, startX: e.clientX, startWidth: width };
+  };
+
+  const handleResizeMove = (e: React.PointerEvent) => {
+    const resize = resizeRef.current;
+    if (!resize) return;
+    const width = Math.max(MIN_COLUMN_WIDTH, Math.round(resize.startWidth + e.clientX - resize.startX));
+    setLayout(current => updateListColumn(current, resize.column, { width }));
+  };
+
+  // The width is only stored once the drag ends
+  const endResize = () => {
+    if (!resizeRef.current) return;
+    resizeRef.current = null;
+    SettingsService.set(LAYOUT_SETTING, layout);
+  };
+
+  const moveColumn = (column: ListColumn, direction: -1 | 1) => {
+    const index = layout.findIndex(c => c.column === column);
+    const before = direction === -1 ? layout[index - 1]?.column : layout[index + 2]?.column ?? null;
+    if (before !== undefined) changeLayout(moveListColumn(layout, column, before));
+  };
+
+  const sortIndicator = (column: ListColumn) => {
+    const index = sorts.findIndex(s => s.column === column);
+    if (index === -1) return null;
+    return (
+      <span className="text-indigo-500 normal-case flex-shrink-0">
+        {sorts[index].direction === 'asc' ? '▲' : '▼'}
+        {sorts.length > 1 && <sub className="ml-0.5">{index + 1}</sub>}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-slate-100 dark:border-slate-700">
+        <p className="text-xs text-slate-400 truncate">
+          {sorts.length > 0 ? (
+            <>
+              並び順: {sorts.map(s => `${listColumnDefinition(s.column).label}${s.direction === 'asc' ? '▲' : '▼'}`).join(' → ')}
+              <button onClick={() => onSortChange([])} className="ml-2 font-bold text-indigo-500 hover:text-indigo-700">解除</button>
+            </>
+          ) : (
+            '見出しをクリックで並べ替え（Shift+クリックで条件を追加）・ダブルクリックかEnterで編集'
+          )}
+        </p>
+        <ListColumnsMenu
+          layout={layout}
+          onToggle={(column) => changeLayout(layout.map(c => (c.column === column ? { ...c, visible: !c.visible } : c)))}
+          onMove={moveColumn}
+          onReset={() => changeLayout(defaultListLayout())}
+        />
+      </div>
+      <div className="overflow-x-auto">
+        <table
+          ref={tableRef}
+          className="table-fixed min-w-full text-sm text-left rtl:text-right text-slate-500 dark:text-slate-400"
+          style={{ width: tableWidth }}
+        >
+          <colgroup>
+            {isSelecting && <col style={{ width: SELECT_COLUMN_WIDTH }} />}
+            {columns.map(c => <col key={c.column} style={{ width: c.width }} />)}
+            <col style={{ width: ACTIONS_COLUMN_WIDTH }} />
+          </colgroup>
+          <thead className="text-xs text-slate-700 uppercase bg-slate-50 dark:bg-slate-700 dark:text-slate-300">
+            <tr>
+              {isSelecting && (
+                <th scope="col" className="pl-6 py-3">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={onToggleSelectAll}
+                    className="w-4 h-4 accent-indigo-600 cursor-pointer"
+                    aria-label="表示中をすべて選択"
+                  />
+                </th>
+              )}
+              {columns.map(({ column, width }) => {
+                const sort = sorts.length === 1 && sorts[0].column === column ? sorts[0] : null;
+                return (
+                  <th
+                    key={column}
+                    scope="col"
+                    className={`relative px-4 py-3 select-none ${draggedColumn && draggedColumn !== column ? 'bg-indigo-50/50 dark:bg-indigo-500/10' : ''}`}
+                    aria-sort={sort ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                    onDragOver={(e) => { if (draggedColumn) e.preventDefault(); }}
+                    onDrop={(e) => handleDrop(e, column)}
                   >
-                    +
-                  </button>
-                </div>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                {prize.acquisitionDate}
-              </td>
-              <td className="px-6 py-4">
-                {prize.manufacturer && prize.manufacturer !== '指定なし' ? prize.manufacturer : '-'}
-              </td>
-              <td className="px-6 py-4">
-                 <div className="flex justify-end space-x-2">
-                    <button
-                        onClick={() => onEdit(prize)}
-                        className="p-2 text-slate-500 dark:text-slate-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
-                        aria-label="編集"
-                    >
-                        <PencilIcon className="w-5 h-5" />
-                    </button>
                     <button
-                        onClick={() => onDelete(prize.id)}
-                        className="p-2 text-slate-500 dark:text-slate-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
-                        aria-label="削除"
+                      draggable
+                      onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedColumn(column); }}
+                      onDragEnd={() => setDraggedColumn(null)}
+                      onClick={(e) => onSortChange(nextColumnSorts(sorts, column, e.shiftKey))}
+                      className={`flex items-center gap-1 w-full uppercase font-bold hover:text-indigo-600 cursor-pointer ${column === 'quantity' ? 'justify-center' : ''}`}
+                      title="クリックで並べ替え・Shift+クリックで条件を追加・ドラッグで列を移動"
                     >
-                        <TrashIcon className="w-5 h-5" />
+                      <span className="truncate">{listColumnDefinition(column).label}</span>
+                      {sortIndicator(column)}
                     </button>
-                </div>
-              </td>
+                    <div
+                      onPointerDown={(e) => startResize(e, column, width)}
+                      onPointerMove={handleResizeMove}
+                      onPointerUp={endResize}
+                      onPointerCancel={endResize}
+                      onDoubleClick={() => changeLayout(updateListColumn(layout, column, { width: listColumnDefinition(column).width }))}
+                      className="absolute top-0 right-0 h-full w-2 cursor-col-resize touch-none hover:bg-indigo-300/60"
+                      title="ドラッグで幅を変更・ダブルクリックで元の幅"
+                    />
+                  </th>
+                );
+              })}
+              <th scope="col" className="px-6 py-3 text-right">
+                操作
+              </th>
             </tr>
-          ))}
-        </tbody>
-      </table>
+          </thead>
+          <tbody ref={containerRef}>
+            {paddingTop > 0 && <tr aria-hidden="true" style={{ height: paddingTop }} />}
+            {prizes.slice(start, end).map(prize => (
+              <PrizeRow
+                key={prize.id}
+                prize={prize}
+                columns={columns}
+                matches={highlights?.get(prize.id)}
+                isSelecting={isSelecting}
+                isSelected={!!selectedIds?.has(prize.id)}
+                editingColumn={editingCell?.prizeId === prize.id ? (editingCell.column as EditableColumn) : null}
+                tabStopColumn={tabStop?.prizeId === prize.id ? tabStop.column : null}
+                categoryColor={categoryColors?.[prize.category]}
+                location={describePlacements(prize, locationPaths)}
+                categories={categories}
+                manufacturers={manufacturers}
+                measure={measure}
+                onCellFocus={handleCellFocus}
+                onCellKeyDown={handleCellKeyDown}
+                onStartEdit={handleStartEdit}
+                onCommitEdit={commitEdit}
+                onCancelEdit={cancelEdit}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onQuantityChange={onQuantityChange}
+                onViewPhoto={onViewPhoto}
+                onShowHistory={onShowHistory}
+                onSelectTag={onSelectTag}
+                onTransfer={onTransfer}
+                onToggleSelect={onToggleSelect}
+              />
+            ))}
+            {paddingBottom > 0 && <tr aria-hidden="true" style={{ height: paddingBottom }} />}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Prize } from '../types';
+import usePhotoUrl from '../hooks/usePhotoUrl';
+import { coverPhotoId } from '../services/photos';
+import ImageIcon from './icons/ImageIcon';
+
+interface PrizeSummaryProps {
+  prize: Prize;
+  className?: string;
+}
+
+// Photo, name and the facts that tell two registrations apart, for comparing them side by side
+const PrizeSummary: React.FC<PrizeSummaryProps> = ({ prize, className = '' }) => {
+  const thumbnailUrl = usePhotoUrl(coverPhotoId(prize));
+
+  return (
+    <div className={`flex items-center gap-3 min-w-0 ${className}`}>
+      <div className="w-12 h-12 rounded-xl overflow-hidden bg-slate-200 dark:bg-slate-700 flex items-center justify-center flex-shrink-0">
+        {thumbnailUrl
+          ? <img src={thumbnailUrl} alt={prize.name} className="w-full h-full object-cover" />
+          : <ImageIcon className="w-6 h-6 text-slate-400 dark:text-slate-500" />}
+      </div>
+      <div className="min-w-0">
+        <p className="font-bold text-slate-800 dark:text-white truncate">{prize.name}</p>
+        <p className="text-xs text-slate-500 truncate">
+          {prize.category} ・ {prize.quantity}個 ・ {prize.acquisitionDate}
+          {prize.barcode && <span className="font-mono ml-1">・ {prize.barcode}</span>}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PrizeSummary;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { MovementType } from '../types';
+import { movementTypeLabels, increaseMovementTypes, decreaseMovementTypes } from '../services/ledger';
+
+interface QuantityControlProps {
+  quantity: number;
+  onChange: (newQuantity: number, type?: MovementType) => void;
+  valueClassName?: string;
+}
+
+const stepButtonClass = "w-7 h-7 rounded-full bg-slate-200 dark:bg-slate-600 text-slate-800 dark:text-slate-100 flex items-center justify-center font-bold hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors";
+
+const QuantityControl: React.FC<QuantityControlProps> = ({ quantity, onChange, valueClassName = 'text-lg' }) => {
+  // Viewport position of the picker; null while closed
+  const [pickerPosition, setPickerPosition] = useState<{ top: number; right: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pickerRef = useRef<HTMLDivElement>(null);
+  const isPickerOpen = pickerPosition !== null;
+
+  useEffect(() => {
+    if (!isPickerOpen) return;
+    const close = () => setPickerPosition(null);
+    const handleOutsideClick = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (!containerRef.current?.contains(target) && !pickerRef.current?.contains(target)) {
+        close();
+      }
+    };
+    document.addEventListener('mousedown', handleOutsideClick);
+    window.addEventListener('scroll', close, true);
+    window.addEventListener('resize', close);
+    return () => {
+      document.removeEventListener('mousedown', handleOutsideClick);
+      window.removeEventListener('scroll', close, true);
+      window.removeEventListener('resize', close);
+    };
+  }, [isPickerOpen]);
+
+  const togglePicker = () => {
+    if (isPickerOpen || !containerRef.current) {
+      setPickerPosition(null);
+      return;
+    }
+    const rect = containerRef.current.getBoundingClientRect();
+    setPickerPosition({ top: rect.bottom + 8, right: window.innerWidth - rect.right });
+  };
+
+  const change = (delta: number, type?: MovementType) => {
+    const next = Math.max(0, quantity + delta);
+    if (next !== quantity) onChange(next, type);
+    setPickerPosition(null);
+  };
+
+  return (
+    <div ref={containerRef} className="flex items-center space-x-2">
+      <button onClick={() => change(-1)} className={stepButtonClass} aria-label="減らす">
+        -
+      </button>
+      <button
+        onClick={togglePicker}
+        className={`font-mono ${valueClassName} w-8 text-center rounded hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors`}
+        aria-label="理由を選んで増減"
+        title="理由を選んで増減"
+      >
+        {quantity}
+      </button>
+      <button onClick={() => change(1)} className={stepButtonClass} aria-label="増やす">
+        +
+      </button>
+
+      {pickerPosition && createPortal(
+        // Rendered into <body> so the card/table overflow does not clip it
+        <div
+          ref={pickerRef}
+          style={{ top: pickerPosition.top, right: pickerPosition.right }}
+          className="fixed w-56 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 p-3 z-40 grid grid-cols-2 gap-2 animate-in zoom-in-95 duration-150 origin-top-right"
+        >
+          <div className="space-y-1">
+            <p className="text-[10px] font-black uppercase tracking-widest text-emerald-500 mb-1">+1</p>
+            {increaseMovementTypes.map(type => (
+              <button
+                key={type}
+                onClick={() => change(1, type)}
+                className="w-full text-left px-2 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+              >
+                {movementTypeLabels[type]}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <p className="text-[10px] font-black uppercase tracking-widest text-rose-500 mb-1">-1</p>
+            {decreaseMovementTypes.map(type => (
+              <button
+                key={type}
+                onClick={() => change(-1, type)}
+                disabled={quantity === 0}
+                className="w-full text-left px-2 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-rose-50 dark:hover:bg-rose-900/20 disabled:opacity-40"
+              >
+                {movementTypeLabels[type]}
+              </button>
+            ))}
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default QuantityControl;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { RecoveryDraft, StorageService } from '../services/storage';
+import ArrowPathIcon from './icons/ArrowPathIcon';
+
+interface RecoveryPromptProps {
+  draft: RecoveryDraft | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ draft, onRestore, onDiscard }) => {
+  if (!draft) return null;
+
+  const { prizes } = draft.changes;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-md border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-full bg-orange-100 dark:bg-orange-900/30 flex items-center justify-center flex-shrink-0">
+            <ArrowPathIcon className="w-5 h-5 text-orange-500" />
+          </div>
+          <h2 className="text-xl font-black text-slate-800 dark:text-white">未保存の変更が見つかりました</h2>
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          前回、保存されないまま終了した変更があります（{new Date(draft.updatedAt).toLocaleString('ja-JP')} 時点）。
+        </p>
+        <ul className="mt-3 text-sm text-slate-500 dark:text-slate-400 space-y-1">
+          <li>追加・更新された景品: <span className="font-bold">{prizes.upserts.length}件</span></li>
+          <li>削除された景品: <span className="font-bold">{prizes.deletedIds.length}件</span></li>
+          <li>変更の合計: <span className="font-bold">{StorageService.countChanges(draft.changes)}件</span></li>
+        </ul>
+        <div className="pt-6 flex gap-3">
+          <button
+            onClick={onDiscard}
+            className="flex-1 py-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            破棄する
+          </button>
+          <button
+            onClick={onRestore}
+            className="flex-[2] py-4 text-white font-black rounded-2xl shadow-xl bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30 transition-all transform active:scale-[0.98]"
+          >
+            復元する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryPrompt;
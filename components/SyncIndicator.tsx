@@ -0,0 +1,39 @@
+import React from 'react';
+import CloudIcon from './icons/CloudIcon';
+import ArrowPathIcon from './icons/ArrowPathIcon';
+
+export type SyncStatus = 'idle' | 'syncing' | 'error' | 'offline';
+
+interface SyncIndicatorProps {
+  status: SyncStatus;
+  hasPendingChanges: boolean; // Edits not sent to the server yet
+  lastSyncedAt: string | null;
+  error: string | null;
+  onSync: () => void;
+}
+
+// Takes the place of the save button while sync is on: syncing also saves
+const SyncIndicator: React.FC<SyncIndicatorProps> = ({ status, hasPendingChanges, lastSyncedAt, error, onSync }) => {
+  const lastSynced = lastSyncedAt ? `最終同期: ${new Date(lastSyncedAt).toLocaleString('ja-JP')}` : 'まだ同期していません';
+  const { label, className, title } =
+    status === 'syncing' ? { label: '同期中...', className: 'bg-indigo-600 text-white', title: lastSynced }
+    : status === 'offline' ? { label: 'オフライン', className: 'bg-slate-200 dark:bg-slate-700 text-slate-500 dark:text-slate-400', title: `オンラインに戻ると同期します（${lastSynced}）` }
+    : status === 'error' ? { label: '同期エラー', className: 'bg-red-500 text-white hover:bg-red-600', title: `${error || '同期に失敗しました。'} クリックで再試行します。` }
+    : hasPendingChanges ? { label: '同期待ち', className: 'bg-orange-500 text-white hover:bg-orange-600', title: lastSynced }
+    : { label: '同期済み', className: 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-100', title: lastSynced };
+
+  return (
+    <button
+      onClick={onSync}
+      disabled={status === 'syncing'}
+      className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold text-sm transition-all transform active:scale-95 shadow-md ${className}`}
+      title={title}
+      aria-label={`${label}（クリックで今すぐ同期）`}
+    >
+      {status === 'syncing' ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <CloudIcon className="w-4 h-4" />}
+      <span className="hidden sm:inline">{label}</span>
+    </button>
+  );
+};
+
+export default SyncIndicator;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { SyncSettings } from '../services/sync';
+
+interface SyncSettingsModalProps {
+  isOpen: boolean;
+  settings: SyncSettings;
+  lastSyncedAt: string | null;
+  onSave: (settings: SyncSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+const labelClass = "block text-xs font-black uppercase tracking-widest text-slate-500 mb-1.5 ml-1";
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const SyncSettingsModal: React.FC<SyncSettingsModalProps> = ({ isOpen, settings, lastSyncedAt, onSave, onClose }) => {
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [url, setUrl] = useState(settings.url);
+  const [token, setToken] = useState(settings.token);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEnabled(settings.enabled);
+      setUrl(settings.url);
+      setToken(settings.token);
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const urlError = enabled && !isHttpUrl(url.trim()) ? 'http:// または https:// で始まるURLを入力してください' : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (urlError) return;
+    onSave({ enabled, url: url.trim(), token: token.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex justify-center items-end sm:items-center z-50 p-0 sm:p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-slate-800 rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 w-full max-w-md flex flex-col gap-4 border-t sm:border border-slate-200 dark:border-slate-700 animate-in slide-in-from-bottom duration-300"
+      >
+        <div>
+          <h2 className="text-xl font-black text-slate-800 dark:text-white">同期設定</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            同期サーバーを通して、ほかの端末と在庫データを共有します。同期中は変更が自動で保存されます。
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-600 dark:text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} className="accent-indigo-600" />
+          同期を有効にする
+        </label>
+
+        <div>
+          <label htmlFor="sync-url" className={labelClass}>サーバーURL</label>
+          <input
+            id="sync-url"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="http://192.168.1.10:8787"
+            className={inputClass}
+          />
+          {urlError && url && <p className="text-xs text-red-500 font-bold mt-1 ml-1">{urlError}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="sync-token" className={labelClass}>トークン</label>
+          <input
+            id="sync-token"
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="サーバーの SYNC_TOKEN（未設定なら空欄）"
+            className={inputClass}
+            autoComplete="off"
+          />
+        </div>
+
+        <p className="text-xs text-slate-400 ml-1">
+          {lastSyncedAt ? `最終同期: ${new Date(lastSyncedAt).toLocaleString('ja-JP')}` : 'まだ同期していません'}
+          。サーバーを変更すると、次の同期ですべてのデータを送り直します。同じ景品が両方の端末で変更されていた場合は、新しい方の変更が残ります。
+        </p>
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+          >
+            キャンセル
+          </button>
+          <button
+            type="submit"
+            disabled={!!urlError}
+            className="flex-[2] py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-2xl disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            保存する
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SyncSettingsModal;
@@ -0,0 +1,30 @@
+import React from 'react';
+
+interface TagChipsProps {
+  tags?: string[];
+  onSelect?: (tag: string) => void; // Clicking a chip toggles it in the tag filter
+  className?: string;
+}
+
+const TagChips: React.FC<TagChipsProps> = ({ tags, onSelect, className = '' }) => {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {tags.map(tag => (
+        <button
+          key={tag}
+          type="button"
+          onClick={() => onSelect?.(tag)}
+          disabled={!onSelect}
+          className="px-2 py-0.5 bg-indigo-50 dark:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300 rounded-md text-[11px] font-bold hover:bg-indigo-100 dark:hover:bg-indigo-500/30 disabled:hover:bg-indigo-50"
+          title={onSelect ? `「${tag}」で絞り込み` : undefined}
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TagChips;
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TagCount, TagMatchMode } from '../services/tags';
+import TagIcon from './icons/TagIcon';
+
+interface TagFilterMenuProps {
+  tagCounts: TagCount[];
+  selected: string[];
+  mode: TagMatchMode;
+  onChange: (tags: string[], mode: TagMatchMode) => void;
+}
+
+const modeLabels: Record<TagMatchMode, string> = { and: 'すべて含む', or: 'いずれか' };
+
+const TagFilterMenu: React.FC<TagFilterMenuProps> = ({ tagCounts, selected, mode, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleOutsideClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleOutsideClick);
+    return () => document.removeEventListener('mousedown', handleOutsideClick);
+  }, [isOpen]);
+
+  // Tags selected from a URL but no longer on any prize stay visible so they can be removed
+  const choices = [
+    ...tagCounts,
+    ...selected.filter(tag => !tagCounts.some(t => t.tag === tag)).map(tag => ({ tag, count: 0 })),
+  ];
+
+  const toggle = (tag: string) =>
+    onChange(selected.includes(tag) ? selected.filter(t => t !== tag) : [...selected, tag], mode);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-2 rounded-xl border transition-all ${selected.length > 0 ? 'bg-indigo-50 dark:bg-indigo-500/20 border-indigo-300 dark:border-indigo-500/50 text-indigo-600 dark:text-indigo-300' : 'bg-slate-50 dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-500'}`}
+        aria-label="タグで絞り込み"
+        title="タグで絞り込み"
+      >
+        <TagIcon className="w-5 h-5" />
+        {selected.length > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 bg-orange-500 text-white text-[10px] font-black rounded-full flex items-center justify-center">
+            {selected.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 p-4 z-30 animate-in zoom-in-95 duration-200 origin-top-right">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-xs font-black uppercase tracking-widest text-slate-500">タグ</p>
+            <div className="flex items-center bg-slate-100 dark:bg-slate-700 rounded-lg p-0.5">
+              {(Object.keys(modeLabels) as TagMatchMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => onChange(selected, m)}
+                  className={`px-2 py-1 rounded-md text-[11px] font-bold transition-all ${mode === m ? 'bg-white dark:bg-slate-600 shadow text-indigo-600' : 'text-slate-400'}`}
+                >
+                  {modeLabels[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {choices.length === 0 ? (
+            <p className="text-sm text-slate-400">タグの付いた景品はまだありません</p>
+          ) : (
+            <div className="flex flex-wrap gap-1.5 max-h-60 overflow-y-auto">
+              {choices.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => toggle(tag)}
+                  className={`px-2.5 py-1 rounded-lg text-xs font-bold transition-colors ${selected.includes(tag) ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'}`}
+                >
+                  #{tag}
+                  <span className="ml-1 opacity-60">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selected.length > 0 && (
+            <button
+              onClick={() => onChange([], mode)}
+              className="mt-3 w-full py-2 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold rounded-xl hover:bg-slate-200"
+            >
+              タグの指定をクリア
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagFilterMenu;
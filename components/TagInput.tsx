@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { TagCount, addTag, suggestTags } from '../services/tags';
+
+interface TagInputProps {
+  id?: string;
+  tags: string[];
+  knownTags: TagCount[]; // Autocomplete candidates, most used first
+  onChange: (tags: string[]) => void;
+}
+
+const TagInput: React.FC<TagInputProps> = ({ id, tags, knownTags, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = isFocused ? suggestTags(knownTags, draft, tags) : [];
+
+  const commit = (value: string) => {
+    onChange(addTag(tags, value));
+    setDraft('');
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return;
+      e.preventDefault();
+      // -1 is the typed text itself; wraps around past either end
+      const next = activeIndex + (e.key === 'ArrowDown' ? 1 : -1);
+      setActiveIndex(next >= suggestions.length ? -1 : next < -1 ? suggestions.length - 1 : next);
+    } else if (e.key === 'Enter' || e.key === ',' || e.key === '、') {
+      // An empty input lets Enter submit the surrounding form
+      if (activeIndex >= 0 && suggestions[activeIndex]) {
+        e.preventDefault();
+        commit(suggestions[activeIndex]);
+      } else if (draft.trim()) {
+        e.preventDefault();
+        commit(draft);
+      } else if (e.key !== 'Enter') {
+        e.preventDefault();
+      }
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (e.key === 'Escape' && activeIndex >= 0) {
+      e.preventDefault();
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1.5 w-full px-3 py-2.5 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-2xl focus-within:ring-2 focus-within:ring-indigo-500">
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-1 bg-indigo-50 dark:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300 rounded-lg text-xs font-bold">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              className="w-4 h-4 flex items-center justify-center rounded hover:bg-indigo-100 dark:hover:bg-indigo-500/30"
+              aria-label={`タグ「${tag}」を外す`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => { setDraft(e.target.value); setActiveIndex(-1); }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) commit(draft);
+          }}
+          placeholder={tags.length === 0 ? '例: ポケモン、一番くじ、限定' : ''}
+          className="flex-grow min-w-[6rem] bg-transparent outline-none text-sm py-0.5"
+          autoComplete="off"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-xl z-10 py-1 max-h-48 overflow-y-auto">
+          {suggestions.map((tag, index) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Keep focus in the input so the draft is not committed on blur
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => commit(tag)}
+                className={`w-full text-left px-4 py-2 text-sm ${index === activeIndex ? 'bg-indigo-50 dark:bg-indigo-500/20 text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+              >
+                #{tag}
+                <span className="ml-2 text-xs text-slate-400">{knownTags.find(t => t.tag === tag)?.count}件</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
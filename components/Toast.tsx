@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+
+export interface ToastMessage {
+  id: number;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+interface ToastProps {
+  toast: ToastMessage | null;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+const Toast: React.FC<ToastProps> = ({ toast, onDismiss, duration = 5000 }) => {
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [toast, onDismiss, duration]);
+
+  if (!toast) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-24 left-1/2 -translate-x-1/2 bg-slate-800 dark:bg-slate-700 text-white pl-5 pr-2 py-2 rounded-full shadow-2xl z-40 flex items-center gap-3 max-w-[90vw] animate-in fade-in slide-in-from-bottom duration-300"
+    >
+      <span className="text-sm font-bold truncate">{toast.message}</span>
+      {toast.actionLabel && toast.onAction && (
+        <button
+          onClick={() => { toast.onAction?.(); }}
+          className="flex-shrink-0 bg-white/10 hover:bg-white/20 text-indigo-300 px-3 py-1 rounded-full text-xs font-black transition-colors"
+        >
+          {toast.actionLabel}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        className="flex-shrink-0 p-1 text-white/50 hover:text-white transition-colors"
+        aria-label="閉じる"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default Toast;
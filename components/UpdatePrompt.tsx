@@ -0,0 +1,36 @@
+import React from 'react';
+import ArrowPathIcon from './icons/ArrowPathIcon';
+
+interface UpdatePromptProps {
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+// Shown when a new build has been downloaded in the background; it takes over on reload
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onUpdate, onDismiss }) => (
+  <div
+    role="status"
+    className="fixed top-4 left-1/2 -translate-x-1/2 bg-indigo-600 text-white pl-4 pr-2 py-2 rounded-full shadow-2xl z-50 flex items-center gap-3 max-w-[90vw] animate-in fade-in slide-in-from-top duration-300"
+  >
+    <ArrowPathIcon className="w-4 h-4 flex-shrink-0" />
+    <span className="text-sm font-bold truncate">新しいバージョンがあります</span>
+    <button
+      onClick={onUpdate}
+      className="flex-shrink-0 bg-white text-indigo-600 px-3 py-1 rounded-full text-xs font-black hover:bg-indigo-50 transition-colors"
+    >
+      更新する
+    </button>
+    <button
+      onClick={onDismiss}
+      className="flex-shrink-0 p-1 text-white/60 hover:text-white transition-colors"
+      aria-label="あとで"
+      title="あとで"
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" />
+      </svg>
+    </button>
+  </div>
+);
+
+export default UpdatePrompt;
@@ -0,0 +1,42 @@
+import React from 'react';
+
+// Colors are set as attributes rather than classes so a PNG export looks the same as the screen
+export const chartColors = {
+  title: '#6366f1',
+  text: '#64748b',
+  grid: '#cbd5e1',
+};
+
+export const CHART_FONT = "system-ui, -apple-system, 'Hiragino Sans', 'Noto Sans JP', sans-serif";
+
+export const TITLE_HEIGHT = 32;
+
+interface ChartFrameProps {
+  title: string;
+  width: number;
+  height: number;
+  children: React.ReactNode;
+}
+
+// Root <svg> shared by every chart; the title is part of the image so exports are self-explanatory
+const ChartFrame: React.FC<ChartFrameProps> = ({ title, width, height, children }) => (
+  <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" fontFamily={CHART_FONT} role="img" aria-label={title}>
+    <text x={4} y={20} fontSize={14} fontWeight={800} fill={chartColors.title}>{title}</text>
+    {children}
+  </svg>
+);
+
+// Rounds the axis maximum up to 1, 2 or 5 × 10^n so gridlines land on readable numbers
+export const niceScale = (maxValue: number, ticks = 4): { max: number; step: number } => {
+  if (maxValue <= 0) return { max: ticks, step: 1 };
+  const rawStep = maxValue / ticks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  // Values are counts, so steps never go below 1
+  const step = Math.max(1, [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep)!);
+  return { max: step * ticks, step };
+};
+
+export const truncateLabel = (label: string, maxLength: number): string =>
+  label.length > maxLength ? `${label.slice(0, maxLength - 1)}…` : label;
+
+export default ChartFrame;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { SeriesPoint } from '../../services/dashboard';
+import ChartFrame, { TITLE_HEIGHT, chartColors, niceScale } from './ChartFrame';
+
+export interface ColumnSeries {
+  name: string;
+  color: string;
+  values: number[]; // One per label
+}
+
+interface ColumnChartProps {
+  title: string;
+  labels: string[];
+  series: ColumnSeries[]; // Several series are drawn side by side per label
+  maxLabels?: number; // X labels are thinned out beyond this
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PLOT = { left: 40, right: 8, top: TITLE_HEIGHT + 20, bottom: 28 };
+
+const ColumnChart: React.FC<ColumnChartProps> = ({ title, labels, series, maxLabels = 12 }) => {
+  const plotWidth = WIDTH - PLOT.left - PLOT.right;
+  const plotHeight = HEIGHT - PLOT.top - PLOT.bottom;
+  const { max, step } = niceScale(Math.max(0, ...series.flatMap(s => s.values)));
+  const slot = plotWidth / Math.max(1, labels.length);
+  const barWidth = Math.max(1, (slot * 0.75) / series.length);
+  const labelEvery = Math.ceil(labels.length / maxLabels);
+  const y = (value: number) => PLOT.top + plotHeight - (value / max) * plotHeight;
+
+  const ticks: number[] = [];
+  for (let value = 0; value <= max; value += step) ticks.push(value);
+
+  return (
+    <ChartFrame title={title} width={WIDTH} height={HEIGHT}>
+      {series.length > 1 && (
+        <g>
+          {series.map((s, i) => (
+            <g key={s.name} transform={`translate(${PLOT.left + i * 90}, ${TITLE_HEIGHT + 2})`}>
+              <rect width={10} height={10} rx={2} fill={s.color} />
+              <text x={14} y={9} fontSize={11} fill={chartColors.text}>{s.name}</text>
+            </g>
+          ))}
+        </g>
+      )}
+      {ticks.map(value => (
+        <g key={value}>
+          <line x1={PLOT.left} x2={WIDTH - PLOT.right} y1={y(value)} y2={y(value)} stroke={chartColors.grid} strokeWidth={0.5} />
+          <text x={PLOT.left - 6} y={y(value) + 4} fontSize={10} textAnchor="end" fill={chartColors.text}>{value}</text>
+        </g>
+      ))}
+      {labels.map((label, i) => (
+        <g key={label}>
+          {series.map((s, j) => {
+            const value = s.values[i] || 0;
+            if (value === 0) return null;
+            const x = PLOT.left + i * slot + (slot - barWidth * series.length) / 2 + j * barWidth;
+            return (
+              <rect key={s.name} x={x} y={y(value)} width={barWidth} height={PLOT.top + plotHeight - y(value)} rx={Math.min(3, barWidth / 3)} fill={s.color}>
+                <title>{`${label} ${s.name}: ${value}`}</title>
+              </rect>
+            );
+          })}
+          {i % labelEvery === 0 && (
+            <text x={PLOT.left + i * slot + slot / 2} y={HEIGHT - 10} fontSize={10} textAnchor="middle" fill={chartColors.text}>{label}</text>
+          )}
+        </g>
+      ))}
+    </ChartFrame>
+  );
+};
+
+// Single series shorthand for time series
+export const seriesFromPoints = (name: string, color: string, points: SeriesPoint[]): { labels: string[]; series: ColumnSeries[] } => ({
+  labels: points.map(p => p.label),
+  series: [{ name, color, values: points.map(p => p.value) }],
+});
+
+export default ColumnChart;
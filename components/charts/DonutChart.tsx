@@ -0,0 +1,71 @@
+import React from 'react';
+import { SeriesPoint } from '../../services/dashboard';
+import ChartFrame, { TITLE_HEIGHT, chartColors, truncateLabel } from './ChartFrame';
+
+interface DonutChartProps {
+  title: string;
+  points: SeriesPoint[];
+  colorOf: (label: string, index: number) => string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 220;
+const RADIUS = 70;
+const INNER_RADIUS = 42;
+const CENTER = { x: 90, y: TITLE_HEIGHT + 20 + RADIUS };
+
+const polar = (angle: number, radius: number) => ({
+  x: CENTER.x + radius * Math.sin(angle),
+  y: CENTER.y - radius * Math.cos(angle),
+});
+
+// Ring segment from `start` to `end` radians, clockwise from 12 o'clock
+const segmentPath = (start: number, end: number): string => {
+  const large = end - start > Math.PI ? 1 : 0;
+  const outerStart = polar(start, RADIUS);
+  const outerEnd = polar(end, RADIUS);
+  const innerEnd = polar(end, INNER_RADIUS);
+  const innerStart = polar(start, INNER_RADIUS);
+  return [
+    `M ${outerStart.x} ${outerStart.y}`,
+    `A ${RADIUS} ${RADIUS} 0 ${large} 1 ${outerEnd.x} ${outerEnd.y}`,
+    `L ${innerEnd.x} ${innerEnd.y}`,
+    `A ${INNER_RADIUS} ${INNER_RADIUS} 0 ${large} 0 ${innerStart.x} ${innerStart.y}`,
+    'Z',
+  ].join(' ');
+};
+
+const DonutChart: React.FC<DonutChartProps> = ({ title, points, colorOf }) => {
+  const total = points.reduce((sum, p) => sum + p.value, 0);
+  let angle = 0;
+
+  return (
+    <ChartFrame title={title} width={WIDTH} height={HEIGHT}>
+      {points.length === 1 ? (
+        // An arc cannot span the full circle, so a single group is drawn as a ring
+        <circle cx={CENTER.x} cy={CENTER.y} r={(RADIUS + INNER_RADIUS) / 2} fill="none" stroke={colorOf(points[0].label, 0)} strokeWidth={RADIUS - INNER_RADIUS} />
+      ) : (
+        points.map((point, i) => {
+          const start = angle;
+          angle += (point.value / total) * Math.PI * 2;
+          return (
+            <path key={point.label} d={segmentPath(start, angle)} fill={colorOf(point.label, i)}>
+              <title>{`${point.label}: ${point.value}`}</title>
+            </path>
+          );
+        })
+      )}
+      <text x={CENTER.x} y={CENTER.y + 6} fontSize={18} fontWeight={800} textAnchor="middle" fill={chartColors.text}>{total}</text>
+      {points.map((point, i) => (
+        <g key={point.label} transform={`translate(180, ${TITLE_HEIGHT + 14 + i * 22})`}>
+          <rect width={10} height={10} rx={2} fill={colorOf(point.label, i)} />
+          <text x={16} y={9} fontSize={11} fill={chartColors.text}>
+            {truncateLabel(point.label, 8)} {Math.round((point.value / total) * 100)}%
+          </text>
+        </g>
+      ))}
+    </ChartFrame>
+  );
+};
+
+export default DonutChart;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { SeriesPoint } from '../../services/dashboard';
+import ChartFrame, { TITLE_HEIGHT, chartColors, truncateLabel } from './ChartFrame';
+
+interface HorizontalBarChartProps {
+  title: string;
+  points: SeriesPoint[];
+  color: string;
+}
+
+const WIDTH = 640;
+const ROW_HEIGHT = 24;
+const LABEL_WIDTH = 200;
+const VALUE_WIDTH = 40;
+
+const HorizontalBarChart: React.FC<HorizontalBarChartProps> = ({ title, points, color }) => {
+  const height = TITLE_HEIGHT + 8 + points.length * ROW_HEIGHT;
+  const maxValue = Math.max(1, ...points.map(p => p.value));
+  const barSpace = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+  return (
+    <ChartFrame title={title} width={WIDTH} height={height}>
+      {points.map((point, i) => {
+        const y = TITLE_HEIGHT + 8 + i * ROW_HEIGHT;
+        const barWidth = Math.max(2, (point.value / maxValue) * barSpace);
+        return (
+          <g key={`${point.label}-${i}`}>
+            <text x={LABEL_WIDTH - 8} y={y + 15} fontSize={11} textAnchor="end" fill={chartColors.text}>
+              {truncateLabel(point.label, 18)}
+            </text>
+            <rect x={LABEL_WIDTH} y={y + 4} width={barWidth} height={ROW_HEIGHT - 8} rx={3} fill={color}>
+              <title>{`${point.label}: ${point.value}`}</title>
+            </rect>
+            <text x={LABEL_WIDTH + barWidth + 6} y={y + 15} fontSize={11} fontWeight={700} fill={chartColors.text}>{point.value}</text>
+          </g>
+        );
+      })}
+    </ChartFrame>
+  );
+};
+
+export default HorizontalBarChart;
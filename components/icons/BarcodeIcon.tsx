@@ -0,0 +1,10 @@
+
+import React from 'react';
+
+const BarcodeIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 7.5V5.25a1.5 1.5 0 0 1 1.5-1.5H7.5m9 0h2.25a1.5 1.5 0 0 1 1.5 1.5V7.5m0 9v2.25a1.5 1.5 0 0 1-1.5 1.5H16.5m-9 0H5.25a1.5 1.5 0 0 1-1.5-1.5V16.5M7.5 8.25v7.5m3-7.5v7.5m2.25-7.5v7.5m3.75-7.5v7.5" />
+  </svg>
+);
+
+export default BarcodeIcon;
@@ -0,0 +1,13 @@
+// Master data a fresh install starts with; users edit it from the tools menu
+export const defaultCategories: string[] = ['マスコット', 'ぬいぐるみ', 'フィギュア', 'その他'];
+export const defaultManufacturers: string[] = ['バンダイナムコ', 'タイトー', 'SEGA FAVE', 'FuRyu', 'Parade', 'SK', 'その他'];
+
+// Manufacturer value of prizes without a known maker
+export const NO_MANUFACTURER = '指定なし';
+
+export const masterColorPalette: string[] = [
+  '#6366f1', '#ec4899', '#f59e0b', '#10b981', '#0ea5e9', '#8b5cf6', '#ef4444', '#84cc16', '#64748b',
+];
+
+// Offered as one-tap choices when registering an arcade; any other name can be typed in
+export const commonMachineTypes: string[] = ['3本爪', '2本爪', '橋渡し', 'たこ焼き', 'プッシャー', '確率機', 'ペラ輪'];
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { PhotoService, PhotoVariant } from '../services/photos';
+
+// Resolves a stored photo to an object URL for as long as the component is mounted
+const usePhotoUrl = (photoId: string | undefined, variant: PhotoVariant = 'thumbnail'): string | undefined => {
+  const [url, setUrl] = useState<string | undefined>();
+
+  useEffect(() => {
+    setUrl(undefined);
+    if (!photoId) return;
+
+    let cancelled = false;
+    PhotoService.acquireUrl(photoId, variant)
+      .then(result => {
+        if (!cancelled) setUrl(result);
+      })
+      .catch(error => console.error('Failed to load photo', error));
+
+    return () => {
+      cancelled = true;
+      PhotoService.releaseUrl(photoId, variant);
+    };
+  }, [photoId, variant]);
+
+  return url;
+};
+
+export default usePhotoUrl;
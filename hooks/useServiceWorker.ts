@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// How often an open app looks for a new deploy
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Registers the service worker that makes the app work offline, and reports when a new
+// build has been downloaded. The new build only takes over once applyUpdate is called.
+const useServiceWorker = (): { updateAvailable: boolean; applyUpdate: () => void } => {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const isUpdatingRef = useRef(false);
+
+  useEffect(() => {
+    const url = process.env.SERVICE_WORKER_URL;
+    if (!url || !('serviceWorker' in navigator)) return;
+
+    // The first install also takes control, but there is nothing to reload for then
+    const handleControllerChange = () => {
+      if (isUpdatingRef.current) window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+
+    let registration: ServiceWorkerRegistration | null = null;
+    const checkForUpdate = () => {
+      registration?.update().catch(() => {});
+    };
+    navigator.serviceWorker.register(url)
+      .then(result => {
+        registration = result;
+        if (result.waiting && navigator.serviceWorker.controller) setWaitingWorker(result.waiting);
+        result.addEventListener('updatefound', () => {
+          const installing = result.installing;
+          installing?.addEventListener('statechange', () => {
+            if (installing.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(installing);
+          });
+        });
+      })
+      .catch(error => console.error('Service worker registration failed', error));
+
+    const timer = setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL);
+    window.addEventListener('online', checkForUpdate);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', checkForUpdate);
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    isUpdatingRef.current = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  return { updateAvailable: waitingWorker !== null, applyUpdate };
+};
+
+export default useServiceWorker;
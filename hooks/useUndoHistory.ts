@@ -0,0 +1,72 @@
+import { useCallback, useRef, useState } from 'react';
+
+interface HistoryEntry<T> {
+  state: T;
+  label: string; // Describes the change between this state and the next one
+}
+
+const MAX_HISTORY = 100;
+
+// Snapshot-based undo/redo. States must be treated as immutable so that
+// keeping old snapshots around is cheap.
+const useUndoHistory = <T,>(initialState: T) => {
+  const [state, setState] = useState<T>(initialState);
+  const [counts, setCounts] = useState({ past: 0, future: 0 });
+  const stateRef = useRef<T>(initialState);
+  const pastRef = useRef<HistoryEntry<T>[]>([]);
+  const futureRef = useRef<HistoryEntry<T>[]>([]);
+
+  const commit = useCallback((next: T) => {
+    stateRef.current = next;
+    setState(next);
+    setCounts({ past: pastRef.current.length, future: futureRef.current.length });
+  }, []);
+
+  // Applies a change and records it. Returns false when nothing changed.
+  const update = useCallback((label: string, updater: (current: T) => T): boolean => {
+    const current = stateRef.current;
+    const next = updater(current);
+    if (next === current) return false;
+    pastRef.current = [...pastRef.current, { state: current, label }].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    commit(next);
+    return true;
+  }, [commit]);
+
+  // Replaces the state without recording history (e.g. after loading)
+  const reset = useCallback((next: T) => {
+    pastRef.current = [];
+    futureRef.current = [];
+    commit(next);
+  }, [commit]);
+
+  const undo = useCallback((): string | null => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return null;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, { state: stateRef.current, label: entry.label }];
+    commit(entry.state);
+    return entry.label;
+  }, [commit]);
+
+  const redo = useCallback((): string | null => {
+    const entry = futureRef.current[futureRef.current.length - 1];
+    if (!entry) return null;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, { state: stateRef.current, label: entry.label }];
+    commit(entry.state);
+    return entry.label;
+  }, [commit]);
+
+  return {
+    state,
+    update,
+    reset,
+    undo,
+    redo,
+    canUndo: counts.past > 0,
+    canRedo: counts.future > 0,
+  };
+};
+
+export default useUndoHistory;
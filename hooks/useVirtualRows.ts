@@ -0,0 +1,142 @@
+import { RefObject, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+export interface VirtualRows<T extends HTMLElement> {
+  containerRef: RefObject<T>;
+  start: number; // First row to render
+  end: number; // One past the last row to render
+  paddingTop: number; // Space taken by the rows above `start`
+  paddingBottom: number; // Space taken by the rows from `end` on
+  measure: (key: string) => (element: HTMLElement | null) => void; // Ref for each rendered row, by its key
+  scrollToRow: (index: number) => void; // Brings a row into the rendered window if it is outside it
+}
+
+// Extra space rendered above and below the viewport, so fast scrolling rarely shows a gap
+const OVERSCAN_PX = 800;
+
+// Binary search for the last row starting at or above `position`
+const rowAt = (offsets: number[], position: number): number => {
+  const count = offsets.length - 1;
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return Math.min(low, Math.max(0, count - 1));
+};
+
+// Windowed rendering for rows laid out in the page's own scroll. Only the rows near the
+// viewport are rendered; the others are stood in for by padding, using measured heights
+// where a row has been on screen and `estimatedHeight` where it has not.
+// Heights are kept by row key, so they follow a row through filtering and sorting; a change
+// of `layoutKey` (column widths, columns per row) drops them all.
+const useVirtualRows = <T extends HTMLElement>(keys: string[], estimatedHeight: number, gap = 0, layoutKey = ''): VirtualRows<T> => {
+  const containerRef = useRef<T>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [heightsVersion, setHeightsVersion] = useState(0);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  const measuredLayoutRef = useRef(layoutKey);
+  if (measuredLayoutRef.current !== layoutKey) {
+    measuredLayoutRef.current = layoutKey;
+    heightsRef.current = new Map();
+  }
+
+  // Offsets[i] is where row i starts; recomputed when the rows or a measured height change
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, i) => {
+      result[i + 1] = result[i] + (heightsRef.current.get(key) ?? estimatedHeight) + gap;
+    });
+    return result;
+  }, [keys, estimatedHeight, gap, heightsVersion, layoutKey]);
+  const offsetsRef = useRef(offsets);
+  const rangeRef = useRef(range);
+  rangeRef.current = range;
+
+  // Only the rows to render are kept in state, so scrolling within them renders nothing
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rowOffsets = offsetsRef.current;
+    const count = rowOffsets.length - 1;
+    const top = -container.getBoundingClientRect().top;
+    const start = count === 0 ? 0 : rowAt(rowOffsets, Math.max(0, top - OVERSCAN_PX));
+    const end = count === 0 ? 0 : Math.min(count, rowAt(rowOffsets, Math.max(0, top + window.innerHeight + OVERSCAN_PX)) + 1);
+    setRange(current => (current.start === start && current.end === end ? current : { start, end }));
+  }, []);
+
+  useLayoutEffect(() => {
+    offsetsRef.current = offsets;
+    updateRange();
+  }, [offsets, updateRange]);
+
+  useEffect(() => {
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+  }, [updateRange]);
+
+  const observer: ResizeObserver | null = useMemo(
+    () =>
+      typeof ResizeObserver === 'undefined'
+        ? null
+        : new ResizeObserver(entries => {
+            let changed = false;
+            entries.forEach(entry => {
+              // Rows scrolled out of the window are gone from the page and report no size
+              if (!entry.target.isConnected) {
+                observer?.unobserve(entry.target);
+                return;
+              }
+              const key = (entry.target as HTMLElement).dataset.virtualRow;
+              const height = (entry.target as HTMLElement).getBoundingClientRect().height;
+              if (key === undefined || heightsRef.current.get(key) === height) return;
+              heightsRef.current.set(key, height);
+              changed = true;
+            });
+            if (changed) setHeightsVersion(v => v + 1);
+          }),
+    []
+  );
+
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  const measure = useCallback(
+    (key: string) => (element: HTMLElement | null) => {
+      if (!element || !observer) return;
+      element.dataset.virtualRow = key;
+      observer.observe(element);
+    },
+    [observer]
+  );
+
+  const scrollToRow = useCallback((index: number) => {
+    const container = containerRef.current;
+    const { start, end } = rangeRef.current;
+    if (!container || (index >= start && index < end)) return;
+    const containerTop = container.getBoundingClientRect().top + window.scrollY;
+    window.scrollTo({ top: containerTop + offsetsRef.current[index] - window.innerHeight / 3 });
+  }, []);
+
+  // The range can trail the rows by a render when they shrink
+  const end = Math.min(range.end, keys.length);
+  const start = Math.min(range.start, end);
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[keys.length] - offsets[end],
+    measure,
+    scrollToRow,
+  };
+};
+
+export default useVirtualRows;
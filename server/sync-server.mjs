@@ -0,0 +1,152 @@
+// Reference sync server for CRANE STOCK. No dependencies: `node server/sync-server.mjs`
+//
+// Environment:
+//   PORT        port to listen on (default 8787)
+//   SYNC_DATA   JSON file the records are kept in (default ./sync-data.json)
+//   SYNC_TOKEN  when set, requests must send "Authorization: Bearer <token>"
+//
+// Keeps the latest change of every record. Each accepted change gets the next revision
+// number, which is what clients pass as `since` to pull only newer changes.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = path.resolve(process.env.SYNC_DATA || 'sync-data.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 64 * 1024 * 1024; // Photos travel as data URLs
+const PAGE_SIZE = 200;
+const STORES = ['prizes', 'movements', 'masters', 'arcades', 'locations', 'collections', 'photos'];
+
+const loadData = () => {
+  try {
+    const data = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    if (typeof data.revision === 'number' && data.records && typeof data.records === 'object') return data;
+    console.warn(`${DATA_FILE} is not a sync data file; starting empty`);
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  return { revision: 0, records: {} };
+};
+
+const data = loadData();
+
+// Written to a temporary file first so a crash never leaves half a file behind
+const saveData = () => {
+  const temporary = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(data));
+  fs.renameSync(temporary, DATA_FILE);
+};
+
+const isValidRecord = (record) =>
+  record !== null && typeof record === 'object' &&
+  STORES.includes(record.store) &&
+  typeof record.id === 'string' && record.id !== '' &&
+  typeof record.updatedAt === 'string' && !Number.isNaN(Date.parse(record.updatedAt)) &&
+  typeof record.deviceId === 'string' &&
+  (record.deleted === true || (record.data !== null && typeof record.data === 'object'));
+
+// Last writer wins by updatedAt; on a tie the incoming change is taken
+const applyRecords = (records) => {
+  const rejected = [];
+  records.forEach(record => {
+    const key = `${record.store}:${record.id}`;
+    const existing = data.records[key];
+    if (existing && Date.parse(existing.updatedAt) > Date.parse(record.updatedAt)) {
+      rejected.push(key);
+      return;
+    }
+    data.revision += 1;
+    data.records[key] = {
+      store: record.store,
+      id: record.id,
+      updatedAt: record.updatedAt,
+      deviceId: record.deviceId,
+      ...(record.deleted ? { deleted: true } : { data: record.data }),
+      revision: data.revision,
+    };
+  });
+  return rejected;
+};
+
+const changesSince = (since) => {
+  const changed = Object.values(data.records)
+    .filter(record => record.revision > since)
+    .sort((a, b) => a.revision - b.revision);
+  const page = changed.slice(0, PAGE_SIZE);
+  return {
+    records: page.map(({ revision: _revision, ...record }) => record),
+    cursor: String(page.length > 0 ? page[page.length - 1].revision : Math.max(since, 0)),
+    hasMore: changed.length > page.length,
+  };
+};
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  request.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  request.on('error', reject);
+});
+
+const send = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+};
+
+const server = http.createServer(async (request, response) => {
+  // The app is usually served from another origin (vite dev server, static hosting)
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(response, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const url = new URL(request.url || '/', 'http://localhost');
+  try {
+    if (url.pathname === '/changes' && request.method === 'GET') {
+      const since = Number(url.searchParams.get('since') || 0);
+      if (!Number.isInteger(since) || since < 0) {
+        send(response, 400, { error: '`since` must be a revision number' });
+        return;
+      }
+      send(response, 200, changesSince(since));
+    } else if (url.pathname === '/changes' && request.method === 'POST') {
+      const body = JSON.parse(await readBody(request));
+      if (!Array.isArray(body?.records) || !body.records.every(isValidRecord)) {
+        send(response, 400, { error: '`records` must be an array of sync records' });
+        return;
+      }
+      const rejected = applyRecords(body.records);
+      if (rejected.length < body.records.length) saveData();
+      send(response, 200, { rejected });
+    } else {
+      send(response, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    const status = error.status || (error instanceof SyntaxError ? 400 : 500);
+    if (status === 500) console.error(error);
+    send(response, status, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`CRANE STOCK sync server on http://localhost:${PORT} (data: ${DATA_FILE}${TOKEN ? ', token required' : ''})`);
+});
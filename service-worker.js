@@ -0,0 +1,87 @@
+// Service worker for offline use. The build fills in the version and the files to precache
+// (see serviceWorker() in vite.config.ts), so every deploy is a new worker that waits until
+// the app asks it to take over.
+
+const BUILD_VERSION = __BUILD_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const CACHE_PREFIX = 'crane-stock-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_VERSION}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+
+// Loaded by index.html from other origins. Cached on install so the first offline launch works,
+// then refreshed in the background whenever they are used online.
+const CROSS_ORIGIN_URLS = ['https://cdn.tailwindcss.com/'];
+
+const scoped = (url) => new URL(url, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(PRECACHE_URLS.map(url => new Request(scoped(url), { cache: 'reload' })));
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all(CROSS_ORIGIN_URLS.map(async (url) => {
+      try {
+        await runtime.put(url, await fetch(new Request(url, { mode: 'no-cors' })));
+      } catch (error) {
+        console.warn(`Could not cache ${url}`, error);
+      }
+    }));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME && name !== RUNTIME_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request, { ignoreVary: true });
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) {
+    if (CROSS_ORIGIN_URLS.some(prefix => request.url.startsWith(prefix))) {
+      event.respondWith(staleWhileRevalidate(request));
+    }
+    // Everything else (e.g. a sync server) goes to the network as usual
+    return;
+  }
+
+  // The app shell is the same for every page, and the one in the cache matches the cached assets
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      const cache = await caches.open(CACHE_NAME);
+      return (await cache.match(scoped('index.html'))) || fetch(request);
+    })());
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    return (await cache.match(request, { ignoreSearch: true })) || fetch(request);
+  })());
+});
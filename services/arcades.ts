@@ -0,0 +1,94 @@
+import { Arcade, Inventory, Prize, StockMovement } from '../types';
+
+export interface ArcadeStats {
+  wonCount: number; // Items won, summed over 'won' ledger entries
+  prizeCount: number; // Distinct prizes
+  visitCount: number; // Distinct days with a win
+  lastVisit: string | null; // YYYY-MM-DD
+  categoryCount: Record<string, number>;
+}
+
+export type ArcadeFields = Omit<Arcade, 'id' | 'createdAt' | 'archived'>;
+
+export const createArcade = (fields: ArcadeFields): Arcade => ({
+  ...fields,
+  id: `arc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: new Date().toISOString(),
+});
+
+// "GiGO 秋葉原" style label; the area tells apart branches of the same chain
+export const arcadeLabel = (arcade: Pick<Arcade, 'name' | 'area'>): string =>
+  arcade.area ? `${arcade.name}（${arcade.area}）` : arcade.name;
+
+// Archived stores are only offered to the record that already uses them
+export const arcadeChoices = (arcades: Arcade[], currentId?: string): Arcade[] =>
+  arcades
+    .filter(a => !a.archived || a.id === currentId)
+    .sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+
+// Entries recorded without a store are credited to the prize's store
+export const movementArcadeId = (movement: StockMovement, prize: Prize | undefined): string | undefined =>
+  movement.arcadeId || prize?.arcadeId;
+
+const emptyStats = (): ArcadeStats => ({ wonCount: 0, prizeCount: 0, visitCount: 0, lastVisit: null, categoryCount: {} });
+
+// Statistics per arcade id. Wins without any store are collected under ''.
+export const computeArcadeStats = (prizes: Prize[], movements: StockMovement[]): Map<string, ArcadeStats> => {
+  const prizesById = new Map(prizes.map(p => [p.id, p]));
+  const stats = new Map<string, ArcadeStats>();
+  const prizeIds = new Map<string, Set<string>>();
+  const visitDays = new Map<string, Set<string>>();
+
+  movements.forEach(movement => {
+    if (movement.type !== 'won' || movement.delta <= 0) return;
+    const prize = prizesById.get(movement.prizeId);
+    if (!prize) return;
+    const key = movementArcadeId(movement, prize) || '';
+    if (!stats.has(key)) {
+      stats.set(key, emptyStats());
+      prizeIds.set(key, new Set());
+      visitDays.set(key, new Set());
+    }
+    const entry = stats.get(key)!;
+    entry.wonCount += movement.delta;
+    entry.categoryCount[prize.category] = (entry.categoryCount[prize.category] || 0) + movement.delta;
+    if (!entry.lastVisit || movement.date > entry.lastVisit) entry.lastVisit = movement.date;
+    prizeIds.get(key)!.add(prize.id);
+    visitDays.get(key)!.add(movement.date);
+  });
+
+  stats.forEach((entry, key) => {
+    entry.prizeCount = prizeIds.get(key)!.size;
+    entry.visitCount = visitDays.get(key)!.size;
+  });
+  return stats;
+};
+
+export const statsFor = (stats: Map<string, ArcadeStats>, arcadeId: string): ArcadeStats => stats.get(arcadeId) || emptyStats();
+
+export const validateArcade = (arcades: Arcade[], fields: ArcadeFields, arcadeId?: string): string | null => {
+  if (!fields.name) return '店舗名を入力してください';
+  const area = fields.area || '';
+  if (arcades.some(a => a.id !== arcadeId && a.name === fields.name && (a.area || '') === area)) {
+    return `「${arcadeLabel(fields)}」は既に登録されています`;
+  }
+  return null;
+};
+
+// Stores from a backup this device does not have yet. Ids are random, so a shared id means the same store.
+export const mergeArcades = (local: Arcade[], incoming: Arcade[]): Arcade[] => {
+  const localIds = new Set(local.map(a => a.id));
+  const added = incoming.filter(a => !localIds.has(a.id));
+  return added.length > 0 ? [...local, ...added] : local;
+};
+
+// Deletes the store and every reference to it; prizes and entries become "store unknown"
+export const removeArcade = (inventory: Inventory, arcadeId: string): Inventory => {
+  const now = new Date().toISOString();
+  return {
+    ...inventory,
+    arcades: inventory.arcades.filter(a => a.id !== arcadeId),
+    prizes: inventory.prizes.map(p => (p.arcadeId === arcadeId ? { ...p, arcadeId: undefined, updatedAt: now } : p)),
+    movements: inventory.movements.map(m => (m.arcadeId === arcadeId ? { ...m, arcadeId: undefined } : m)),
+  };
+};
@@ -0,0 +1,346 @@
+import { Arcade, Collection, LocationKind, MasterItem, MasterKind, MovementType, Placement, PlayCost, Prize, StockMovement, StorageLocation } from '../types';
+import { movementTypeLabels } from './ledger';
+import { locationKindLabels } from './locations';
+import { masterKindLabels } from './masterData';
+
+// v1: bare Prize[] array (no metadata)
+// v2: envelope with metadata, checksum and the stock movement ledger
+// v3: adds the category / manufacturer master data
+// v4: adds the arcade registry
+// v5: adds storage locations
+// v6: adds collections; a file may hold just one of them
+// v7: prizes carry a photo gallery (`photos`) instead of a single `photo`
+export const BACKUP_FORMAT = 'crane-stock-backup';
+export const BACKUP_FORMAT_VERSION = 7;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  exportedAt: string;
+  itemCount: number;
+  checksum: string; // "<algorithm>:<hex>" over the JSON of { prizes, movements, masters, arcades, locations, collections }
+  prizes: Prize[];
+  movements: StockMovement[];
+  masters: MasterItem[];
+  arcades: Arcade[];
+  locations: StorageLocation[];
+  collections: Collection[];
+}
+
+export interface BackupIssue {
+  index: number; // Position in the file's prizes array
+  name?: string;
+  messages: string[];
+}
+
+export interface ParsedBackup {
+  formatVersion: number;
+  exportedAt?: string;
+  prizes: Prize[]; // Only the records that passed validation
+  movements: StockMovement[] | null; // null for v1 files, which carry no ledger
+  masters: MasterItem[] | null; // null before v3
+  arcades: Arcade[] | null; // null before v4
+  locations: StorageLocation[] | null; // null before v5
+  collections: Collection[] | null; // null before v6
+  errors: BackupIssue[];
+  warnings: string[];
+}
+
+export class BackupFormatError extends Error {}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// A validated optional field; null (written by some older versions) counts as missing
+const optional = <T>(value: unknown): T | undefined => (value == null ? undefined : (value as T));
+
+const isImageDataUrl = (value: unknown): boolean => typeof value === 'string' && value.startsWith('data:image/');
+
+const isOptionalString = (value: unknown): boolean => value === undefined || value === null || typeof value === 'string';
+
+const isCount = (value: unknown): boolean => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isOptionalCount = (value: unknown): boolean => value === undefined || isCount(value);
+
+const isOptionalPlayCost = (value: unknown): boolean =>
+  value === undefined || value === null ||
+  (isRecord(value) && isOptionalCount(value.plays) && isOptionalCount(value.pricePerPlay) && isCount(value.total));
+
+const isOptionalPlacements = (value: unknown): boolean =>
+  value === undefined || value === null ||
+  (Array.isArray(value) && value.every(p => isRecord(p) && typeof p.locationId === 'string' && isCount(p.quantity) && p.quantity !== 0));
+
+// --- Checksum ------------------------------------------------------------------
+
+const toHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+// FNV-1a, for non-secure contexts (plain http on a LAN) where crypto.subtle is missing
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const computeChecksum = async (payload: string, algorithm?: string): Promise<string> => {
+  const useSha256 = algorithm ? algorithm === 'sha256' : !!globalThis.crypto?.subtle;
+  if (useSha256 && globalThis.crypto?.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+    return `sha256:${toHex(digest)}`;
+  }
+  return `fnv1a:${fnv1a(payload)}`;
+};
+
+// Older files were checksummed without the collections they did not have yet
+const checksumPayload = (prizes: unknown, movements: unknown, masters?: unknown, arcades?: unknown, locations?: unknown, collections?: unknown): string =>
+  JSON.stringify({
+    prizes,
+    movements,
+    ...(masters === undefined ? {} : { masters }),
+    ...(arcades === undefined ? {} : { arcades }),
+    ...(locations === undefined ? {} : { locations }),
+    ...(collections === undefined ? {} : { collections }),
+  });
+
+// --- Validation ----------------------------------------------------------------
+
+export const validatePrize = (raw: unknown): { prize: Prize | null; messages: string[] } => {
+  const messages: string[] = [];
+  if (!isRecord(raw)) return { prize: null, messages: ['オブジェクトではありません'] };
+
+  // Ids were Date.now() strings in early versions; numbers are accepted and converted
+  const id = typeof raw.id === 'number' ? String(raw.id) : raw.id;
+  if (typeof id !== 'string' || id.trim() === '') messages.push('idがありません');
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') messages.push('景品名がありません');
+  if (typeof raw.quantity !== 'number' || !Number.isInteger(raw.quantity) || raw.quantity < 0) {
+    messages.push(`数量「${String(raw.quantity)}」は0以上の整数ではありません`);
+  }
+  if (!isIsoDate(raw.acquisitionDate)) messages.push(`獲得日「${String(raw.acquisitionDate)}」はYYYY-MM-DD形式の日付ではありません`);
+  // Unknown names are fine: they are added to the master data on import
+  if (typeof raw.category !== 'string' || raw.category.trim() === '') messages.push('カテゴリがありません');
+  if (raw.manufacturer != null && typeof raw.manufacturer !== 'string') messages.push('メーカーが文字列ではありません');
+  if (raw.photo != null && !isImageDataUrl(raw.photo)) messages.push('写真のデータ形式が不正です');
+  if (raw.photos != null && (!Array.isArray(raw.photos) || !raw.photos.every(isImageDataUrl))) {
+    messages.push('写真のデータ形式が不正です');
+  }
+  if (!isOptionalString(raw.notes)) messages.push('備考が文字列ではありません');
+  if (raw.barcode != null && (typeof raw.barcode !== 'string' || !/^\d+$/.test(raw.barcode))) {
+    messages.push('JANコードは数字の文字列で指定してください');
+  }
+  if (!isOptionalString(raw.arcadeId)) messages.push('店舗の指定が不正です');
+  if (!isOptionalPlayCost(raw.cost)) messages.push('プレイ費用は0以上の整数で指定してください');
+  if (!isOptionalPlacements(raw.placements)) messages.push('保管場所の指定が不正です');
+  if (!isOptionalString(raw.collectionId)) messages.push('コレクションの指定が不正です');
+  if (raw.tags != null && (!Array.isArray(raw.tags) || !raw.tags.every(t => typeof t === 'string' && t.trim() !== ''))) {
+    messages.push('タグは空でない文字列の配列である必要があります');
+  }
+  if (raw.updatedAt != null && (typeof raw.updatedAt !== 'string' || isNaN(new Date(raw.updatedAt).getTime()))) {
+    messages.push('更新日時が不正です');
+  }
+
+  if (messages.length > 0) return { prize: null, messages };
+  // Only the fields checked above are taken over. Photo ids refer to this device's photo
+  // store, so they are never taken from a file.
+  const prize: Prize = {
+    id: id as string,
+    name: raw.name as string,
+    quantity: raw.quantity as number,
+    acquisitionDate: raw.acquisitionDate as string,
+    category: raw.category as string,
+    manufacturer: optional<string>(raw.manufacturer),
+    photos: optional<string[]>(raw.photos),
+    photo: optional<string>(raw.photo),
+    notes: optional<string>(raw.notes),
+    barcode: optional<string>(raw.barcode),
+    tags: optional<string[]>(raw.tags),
+    arcadeId: optional<string>(raw.arcadeId),
+    cost: optional<PlayCost>(raw.cost),
+    placements: optional<Placement[]>(raw.placements),
+    collectionId: optional<string>(raw.collectionId),
+    updatedAt: optional<string>(raw.updatedAt),
+  };
+  return { prize, messages };
+};
+
+const movementTypes = Object.keys(movementTypeLabels) as MovementType[];
+
+// Without `prizeIds` any prize id is accepted, e.g. for a movement synced ahead of its prize
+export const isValidMovement = (raw: unknown, prizeIds?: Set<string>): raw is StockMovement =>
+  isRecord(raw) &&
+  typeof raw.id === 'string' &&
+  typeof raw.prizeId === 'string' && (!prizeIds || prizeIds.has(raw.prizeId)) &&
+  movementTypes.includes(raw.type as MovementType) &&
+  isIsoDate(raw.date) &&
+  typeof raw.delta === 'number' && Number.isInteger(raw.delta) && raw.delta !== 0 &&
+  isOptionalString(raw.memo) &&
+  isOptionalString(raw.arcadeId) &&
+  isOptionalPlayCost(raw.cost) &&
+  typeof raw.createdAt === 'string';
+
+export const isValidMasterItem = (raw: unknown): raw is MasterItem =>
+  isRecord(raw) &&
+  typeof raw.id === 'string' &&
+  (raw.kind as MasterKind) in masterKindLabels &&
+  typeof raw.name === 'string' && raw.name.trim() !== '' &&
+  typeof raw.color === 'string' &&
+  typeof raw.order === 'number';
+
+export const isValidArcade = (raw: unknown): raw is Arcade =>
+  isRecord(raw) &&
+  typeof raw.id === 'string' &&
+  typeof raw.name === 'string' && raw.name.trim() !== '' &&
+  isOptionalString(raw.chain) &&
+  isOptionalString(raw.area) &&
+  Array.isArray(raw.machineTypes) && raw.machineTypes.every(t => typeof t === 'string') &&
+  isOptionalString(raw.notes) &&
+  typeof raw.createdAt === 'string';
+
+export const isValidLocation = (raw: unknown): raw is StorageLocation =>
+  isRecord(raw) &&
+  typeof raw.id === 'string' &&
+  typeof raw.name === 'string' && raw.name.trim() !== '' &&
+  (raw.kind as LocationKind) in locationKindLabels &&
+  isOptionalString(raw.parentId) &&
+  (raw.capacity === undefined || raw.capacity === null || (isCount(raw.capacity) && raw.capacity !== 0)) &&
+  isOptionalString(raw.notes) &&
+  typeof raw.createdAt === 'string';
+
+export const isValidCollection = (raw: unknown): raw is Collection =>
+  isRecord(raw) &&
+  typeof raw.id === 'string' &&
+  typeof raw.name === 'string' && raw.name.trim() !== '' &&
+  typeof raw.createdAt === 'string';
+
+const validatePrizes = (rawPrizes: unknown[]): { prizes: Prize[]; errors: BackupIssue[] } => {
+  const prizes: Prize[] = [];
+  const errors: BackupIssue[] = [];
+  const seenIds = new Set<string>();
+
+  rawPrizes.forEach((raw, index) => {
+    const { prize, messages } = validatePrize(raw);
+    if (prize && seenIds.has(prize.id)) messages.push(`id「${prize.id}」が重複しています`);
+    if (!prize || messages.length > 0) {
+      const name = isRecord(raw) && typeof raw.name === 'string' ? raw.name : undefined;
+      errors.push({ index, name, messages });
+      return;
+    }
+    seenIds.add(prize.id);
+    prizes.push(prize);
+  });
+  return { prizes, errors };
+};
+
+// --- Reading / writing -----------------------------------------------------------
+
+// `prizes` are expected to have their photos inlined already (see PhotoService.inlinePhotos)
+export const createBackup = async (
+  prizes: Prize[],
+  movements: StockMovement[],
+  masters: MasterItem[],
+  arcades: Arcade[],
+  locations: StorageLocation[],
+  collections: Collection[]
+): Promise<BackupFile> => ({
+  format: BACKUP_FORMAT,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  appVersion: process.env.APP_VERSION || '0.0.0',
+  exportedAt: new Date().toISOString(),
+  itemCount: prizes.length,
+  checksum: await computeChecksum(checksumPayload(prizes, movements, masters, arcades, locations, collections)),
+  prizes,
+  movements,
+  masters,
+  arcades,
+  locations,
+  collections,
+});
+
+// Accepts both the current envelope and bare v1 arrays, which are upgraded on the fly.
+// Throws BackupFormatError when the file is not a backup at all.
+export const parseBackup = async (data: unknown): Promise<ParsedBackup> => {
+  if (Array.isArray(data)) {
+    const { prizes, errors } = validatePrizes(data);
+    return {
+      formatVersion: 1,
+      prizes,
+      movements: null,
+      masters: null,
+      arcades: null,
+      locations: null,
+      collections: null,
+      errors,
+      warnings: ['旧形式 (v1) のバックアップです。現在の形式に変換して読み込みます。'],
+    };
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT || !Array.isArray(data.prizes)) {
+    throw new BackupFormatError('CRANE STOCKのバックアップファイルではありません。');
+  }
+
+  const warnings: string[] = [];
+  const formatVersion = typeof data.formatVersion === 'number' ? data.formatVersion : 0;
+  if (formatVersion > BACKUP_FORMAT_VERSION) {
+    warnings.push(`新しいバージョンのアプリ (${String(data.appVersion)}) で作成されたファイルです。一部の情報が読み込めない可能性があります。`);
+  }
+
+  const rawMovements = Array.isArray(data.movements) ? data.movements : [];
+  if (typeof data.checksum === 'string') {
+    const [algorithm] = data.checksum.split(':');
+    const expected = await computeChecksum(checksumPayload(data.prizes, data.movements ?? [], data.masters, data.arcades, data.locations, data.collections), algorithm);
+    if (expected !== data.checksum) {
+      warnings.push('チェックサムが一致しません。ファイルが編集または破損している可能性があります。');
+    }
+  } else {
+    warnings.push('チェックサムがありません。');
+  }
+  if (typeof data.itemCount === 'number' && data.itemCount !== data.prizes.length) {
+    warnings.push(`件数が一致しません（記録: ${data.itemCount}件 / 実際: ${data.prizes.length}件）。`);
+  }
+
+  const { prizes, errors } = validatePrizes(data.prizes);
+  const prizeIds = new Set(prizes.map(p => p.id));
+  const movements = rawMovements.filter((m): m is StockMovement => isValidMovement(m, prizeIds));
+  if (movements.length < rawMovements.length) {
+    warnings.push(`不正な在庫履歴 ${rawMovements.length - movements.length}件 をスキップしました。`);
+  }
+  const rawMasters = Array.isArray(data.masters) ? data.masters : null;
+  const masters = rawMasters && rawMasters.filter(isValidMasterItem);
+  if (rawMasters && masters && masters.length < rawMasters.length) {
+    warnings.push(`不正なカテゴリ・メーカー ${rawMasters.length - masters.length}件 をスキップしました。`);
+  }
+  const rawArcades = Array.isArray(data.arcades) ? data.arcades : null;
+  const arcades = rawArcades && rawArcades.filter(isValidArcade);
+  if (rawArcades && arcades && arcades.length < rawArcades.length) {
+    warnings.push(`不正な店舗 ${rawArcades.length - arcades.length}件 をスキップしました。`);
+  }
+  const rawLocations = Array.isArray(data.locations) ? data.locations : null;
+  const locations = rawLocations && rawLocations.filter(isValidLocation);
+  if (rawLocations && locations && locations.length < rawLocations.length) {
+    warnings.push(`不正な保管場所 ${rawLocations.length - locations.length}件 をスキップしました。`);
+  }
+  const rawCollections = Array.isArray(data.collections) ? data.collections : null;
+  const collections = rawCollections && rawCollections.filter(isValidCollection);
+  if (rawCollections && collections && collections.length < rawCollections.length) {
+    warnings.push(`不正なコレクション ${rawCollections.length - collections.length}件 をスキップしました。`);
+  }
+
+  return {
+    formatVersion,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : undefined,
+    prizes,
+    movements,
+    masters,
+    arcades,
+    locations,
+    collections,
+    errors,
+    warnings,
+  };
+};
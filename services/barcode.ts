@@ -0,0 +1,33 @@
+import { Prize } from '../types';
+
+// Formats printed on prize tags: JAN is EAN-13 (or EAN-8); imported goods may carry UPC
+export const barcodeFormats = ['ean_13', 'ean_8', 'upc_a'];
+
+// Full-width digits, spaces and hyphens are common when codes are typed or pasted
+export const normalizeBarcode = (input: string): string => input.normalize('NFKC').replace(/[\s-]/g, '');
+
+// The last digit is a check digit over the others, weighted 3, 1, 3, ... from the right
+const hasValidCheckDigit = (code: string): boolean => {
+  const digits = Array.from(code, Number);
+  const check = digits.pop()!;
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// null when the normalized code is a valid EAN-13, EAN-8 or UPC-A
+export const barcodeError = (code: string): string | null => {
+  if (!/^\d+$/.test(code) || ![8, 12, 13].includes(code.length)) return 'JANコードは8桁・12桁・13桁のいずれかの数字です';
+  if (!hasValidCheckDigit(code)) return 'チェックディジットが一致しません。コードを確認してください';
+  return null;
+};
+
+// UPC-A is EAN-13 with the leading 0 left off, so both spellings find the same prize
+const barcodeKey = (code: string): string => (code.length === 12 ? `0${code}` : code);
+
+// What two codes are compared by, e.g. to group prizes by code
+export const barcodeMatchKey = (code: string): string => barcodeKey(normalizeBarcode(code));
+
+export const findPrizesByBarcode = (prizes: Prize[], code: string): Prize[] => {
+  const key = barcodeMatchKey(code);
+  return prizes.filter(p => p.barcode && barcodeKey(p.barcode) === key);
+};
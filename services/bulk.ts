@@ -0,0 +1,59 @@
+import { Inventory, Manufacturer, MovementType, PrizeCategory } from '../types';
+import { createMovement } from './ledger';
+
+// Fields set directly, from a list cell or on many prizes at once; absent ones are left as they are
+export interface PrizeFieldChanges {
+  name?: string;
+  category?: PrizeCategory;
+  manufacturer?: Manufacturer;
+  acquisitionDate?: string;
+  notes?: string;
+}
+
+export const deletePrizes = (inventory: Inventory, prizeIds: Set<string>): Inventory => ({
+  ...inventory,
+  prizes: inventory.prizes.filter(p => !prizeIds.has(p.id)),
+  movements: inventory.movements.filter(m => !prizeIds.has(m.prizeId)),
+});
+
+export const setPrizeFields = (inventory: Inventory, prizeIds: Set<string>, changes: PrizeFieldChanges): Inventory => {
+  const now = new Date().toISOString();
+  return {
+    ...inventory,
+    prizes: inventory.prizes.map(p => {
+      if (!prizeIds.has(p.id)) return p;
+      const changed = { ...p, ...changes };
+      const isSame = (Object.keys(changes) as (keyof PrizeFieldChanges)[]).every(key => p[key] === changed[key]);
+      return isSame ? p : { ...changed, updatedAt: now };
+    }),
+  };
+};
+
+// Adds `delta` to every quantity and records it in each history. Quantities stop at 0,
+// so a prize with fewer items than taken off only records what it had.
+export const adjustQuantities = (
+  inventory: Inventory,
+  prizeIds: Set<string>,
+  delta: number,
+  type: MovementType,
+  options: { date?: string; memo?: string } = {}
+): Inventory => {
+  const now = new Date().toISOString();
+  const movements = [...inventory.movements];
+  const prizes = inventory.prizes.map(p => {
+    if (!prizeIds.has(p.id)) return p;
+    const quantity = Math.max(0, p.quantity + delta);
+    if (quantity === p.quantity) return p;
+    movements.push(createMovement(p.id, quantity - p.quantity, type, options));
+    return { ...p, quantity, updatedAt: now };
+  });
+  return { ...inventory, prizes, movements };
+};
+
+// Ids from `fromId` to `toId` inclusive, in either direction, as they appear in `orderedIds`
+export const idRange = (orderedIds: string[], fromId: string, toId: string): string[] => {
+  const from = orderedIds.indexOf(fromId);
+  const to = orderedIds.indexOf(toId);
+  if (from === -1 || to === -1) return [toId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
@@ -0,0 +1,163 @@
+import { Collection, Inventory, Prize, StockMovement } from '../types';
+import { ParsedBackup } from './backup';
+import { createMovement } from './ledger';
+
+// Collection of every prize saved before collections existed
+export const DEFAULT_COLLECTION_ID = 'default';
+
+// 'current': the file goes into the active collection and only that collection is merged or replaced
+export type ImportScope = 'all' | 'current';
+
+export interface CollectionCount {
+  types: number;
+  quantity: number;
+}
+
+// A backup prepared for one import scope
+export interface ScopedImport {
+  prizes: Prize[]; // As they will be stored
+  movements: StockMovement[] | null;
+  collectionId: string | null; // The only collection the import touches; null for all of them
+}
+
+const randomSuffix = () => `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const defaultCollection = (): Collection => ({
+  id: DEFAULT_COLLECTION_ID,
+  name: 'マイコレクション',
+  createdAt: new Date().toISOString(),
+});
+
+export const createCollection = (name: string): Collection => ({
+  id: `col_${randomSuffix()}`,
+  name,
+  createdAt: new Date().toISOString(),
+});
+
+export const collectionOf = (prize: Prize): string => prize.collectionId || DEFAULT_COLLECTION_ID;
+
+// Oldest first, so the default collection leads
+export const sortCollections = (collections: Collection[]): Collection[] =>
+  [...collections].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const validateCollectionName = (collections: Collection[], name: string, collectionId?: string): string | null => {
+  if (!name) return '名前を入力してください';
+  if (collections.some(c => c.id !== collectionId && c.name === name)) return `「${name}」は既にあります`;
+  return null;
+};
+
+export const countByCollection = (prizes: Prize[]): Map<string, CollectionCount> => {
+  const counts = new Map<string, CollectionCount>();
+  prizes.forEach(prize => {
+    const id = collectionOf(prize);
+    const count = counts.get(id) || { types: 0, quantity: 0 };
+    counts.set(id, { types: count.types + 1, quantity: count.quantity + prize.quantity });
+  });
+  return counts;
+};
+
+// Collections that prizes refer to but that are missing (data from older versions, imported files)
+// get an entry of their own, and there is always at least one collection to show
+export const ensureCollections = (inventory: Inventory): Inventory => {
+  const known = new Set(inventory.collections.map(c => c.id));
+  const added: Collection[] = [];
+  inventory.prizes.forEach(prize => {
+    const id = collectionOf(prize);
+    if (known.has(id)) return;
+    known.add(id);
+    added.push(id === DEFAULT_COLLECTION_ID
+      ? defaultCollection()
+      : { id, name: `コレクション${inventory.collections.length + added.length + 1}`, createdAt: new Date().toISOString() });
+  });
+  if (known.size === 0) added.push(defaultCollection());
+  return added.length > 0 ? { ...inventory, collections: [...inventory.collections, ...added] } : inventory;
+};
+
+// Collections from a backup this device does not have yet. Ids are random, so a shared id means the same collection.
+export const mergeCollections = (local: Collection[], incoming: Collection[]): Collection[] => {
+  const localIds = new Set(local.map(c => c.id));
+  const added = incoming.filter(c => !localIds.has(c.id));
+  return added.length > 0 ? [...local, ...added] : local;
+};
+
+// Deletes the collection together with its prizes and their history
+export const removeCollection = (inventory: Inventory, collectionId: string): Inventory => {
+  const removedIds = new Set(inventory.prizes.filter(p => collectionOf(p) === collectionId).map(p => p.id));
+  return {
+    ...inventory,
+    collections: inventory.collections.filter(c => c.id !== collectionId),
+    prizes: inventory.prizes.filter(p => !removedIds.has(p.id)),
+    movements: inventory.movements.filter(m => !removedIds.has(m.prizeId)),
+  };
+};
+
+export const movePrizesTo = (inventory: Inventory, prizeIds: Set<string>, collectionId: string): Inventory => {
+  const now = new Date().toISOString();
+  return {
+    ...inventory,
+    prizes: inventory.prizes.map(p =>
+      prizeIds.has(p.id) && collectionOf(p) !== collectionId ? { ...p, collectionId, updatedAt: now } : p
+    ),
+  };
+};
+
+// Copies start their own history with the current quantity. Placements and play costs stay
+// with the original so the same items are not stored or paid for twice.
+export const copyPrizesTo = (inventory: Inventory, prizeIds: Set<string>, collectionId: string): Inventory => {
+  const now = new Date().toISOString();
+  const copies = inventory.prizes
+    .filter(p => prizeIds.has(p.id))
+    .map(p => ({ ...p, id: `${p.id}_${randomSuffix()}`, collectionId, placements: undefined, cost: undefined, updatedAt: now }));
+  const collectionName = inventory.collections.find(c => c.id === collectionId)?.name || '';
+  return {
+    ...inventory,
+    prizes: [...inventory.prizes, ...copies],
+    movements: [
+      ...inventory.movements,
+      ...copies
+        .filter(copy => copy.quantity > 0)
+        .map(copy => createMovement(copy.id, copy.quantity, 'correction', { memo: `「${collectionName}」へコピー` })),
+    ],
+  };
+};
+
+// The part of the inventory a single-collection backup holds; shared data goes along in full
+export const collectionSubset = (inventory: Inventory, collectionId: string): Inventory => {
+  const prizes = inventory.prizes.filter(p => collectionOf(p) === collectionId);
+  const prizeIds = new Set(prizes.map(p => p.id));
+  return {
+    ...inventory,
+    prizes,
+    movements: inventory.movements.filter(m => prizeIds.has(m.prizeId)),
+    collections: inventory.collections.filter(c => c.id === collectionId),
+  };
+};
+
+// With 'current', prize and history ids that other collections already use are renamed,
+// so a file exported from one collection can be imported into another without touching the first.
+export const scopeImport = (
+  backup: ParsedBackup,
+  local: Inventory,
+  scope: ImportScope,
+  collectionId: string
+): ScopedImport => {
+  if (scope === 'all') return { prizes: backup.prizes, movements: backup.movements, collectionId: null };
+
+  const otherPrizeIds = new Set(local.prizes.filter(p => collectionOf(p) !== collectionId).map(p => p.id));
+  const otherMovementIds = new Set(local.movements.filter(m => otherPrizeIds.has(m.prizeId)).map(m => m.id));
+  const renamedIds = new Map<string, string>();
+  const prizes = backup.prizes.map(prize => {
+    const id = otherPrizeIds.has(prize.id) ? `${prize.id}_${randomSuffix()}` : prize.id;
+    if (id !== prize.id) renamedIds.set(prize.id, id);
+    return { ...prize, id, collectionId };
+  });
+  const movements = backup.movements && backup.movements.map(m => ({
+    ...m,
+    id: otherMovementIds.has(m.id) ? `${m.id}_${randomSuffix()}` : m.id,
+    prizeId: renamedIds.get(m.prizeId) || m.prizeId,
+  }));
+  return { prizes, movements, collectionId };
+};
+
+export const inImportScope = (prize: Prize, { collectionId }: ScopedImport): boolean =>
+  collectionId === null || collectionOf(prize) === collectionId;
@@ -0,0 +1,95 @@
+import { PlayCost, Prize, StockMovement } from '../types';
+import { NO_MANUFACTURER } from '../constants';
+
+// One amount of spending: either the cost entered with the prize or the cost of a single win
+export interface CostRecord {
+  prize: Prize;
+  date: string; // YYYY-MM-DD
+  cost: PlayCost;
+  movementId?: string; // Missing for the prize's own cost
+}
+
+export interface CostGroup {
+  key: string; // Category, manufacturer or YYYY-MM
+  spent: number;
+  prizeCount: number; // Distinct prizes with spending in the group
+  average: number; // Per prize
+}
+
+export interface CostSummary {
+  totalSpent: number;
+  totalPlays: number; // Only records that know their play count
+  prizeCount: number;
+  averagePerPrize: number;
+  byCategory: CostGroup[]; // Highest spending first
+  byManufacturer: CostGroup[];
+  byMonth: CostGroup[]; // Oldest month first
+  mostExpensive: CostRecord[];
+}
+
+export const formatYen = (yen: number): string => `¥${yen.toLocaleString('ja-JP')}`;
+
+// Builds a cost from the form fields; undefined when nothing was entered.
+// Plays × price wins over a typed total so the three never disagree.
+export const makePlayCost = (plays: number | null, pricePerPlay: number | null, total: number | null): PlayCost | undefined => {
+  if (plays !== null && pricePerPlay !== null) return { plays, pricePerPlay, total: plays * pricePerPlay };
+  if (total === null) return undefined;
+  return {
+    ...(plays !== null ? { plays } : {}),
+    ...(pricePerPlay !== null ? { pricePerPlay } : {}),
+    total,
+  };
+};
+
+export const buildCostRecords = (prizes: Prize[], movements: StockMovement[]): CostRecord[] => {
+  const prizesById = new Map(prizes.map(p => [p.id, p]));
+  const records: CostRecord[] = prizes
+    .filter(p => p.cost)
+    .map(prize => ({ prize, date: prize.acquisitionDate, cost: prize.cost! }));
+  movements.forEach(movement => {
+    const prize = prizesById.get(movement.prizeId);
+    if (prize && movement.cost) records.push({ prize, date: movement.date, cost: movement.cost, movementId: movement.id });
+  });
+  return records;
+};
+
+// Total spent per prize id
+export const spentByPrize = (records: CostRecord[]): Map<string, number> => {
+  const spent = new Map<string, number>();
+  records.forEach(r => spent.set(r.prize.id, (spent.get(r.prize.id) || 0) + r.cost.total));
+  return spent;
+};
+
+const groupRecords = (records: CostRecord[], keyOf: (record: CostRecord) => string): CostGroup[] => {
+  const groups = new Map<string, { spent: number; prizeIds: Set<string> }>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    if (!groups.has(key)) groups.set(key, { spent: 0, prizeIds: new Set() });
+    const group = groups.get(key)!;
+    group.spent += record.cost.total;
+    group.prizeIds.add(record.prize.id);
+  });
+  return Array.from(groups, ([key, { spent, prizeIds }]) => ({
+    key,
+    spent,
+    prizeCount: prizeIds.size,
+    average: Math.round(spent / prizeIds.size),
+  }));
+};
+
+const bySpentDesc = (a: CostGroup, b: CostGroup) => b.spent - a.spent || a.key.localeCompare(b.key, 'ja');
+
+export const summarizeCosts = (records: CostRecord[], topCount = 5): CostSummary => {
+  const totalSpent = records.reduce((sum, r) => sum + r.cost.total, 0);
+  const prizeCount = new Set(records.map(r => r.prize.id)).size;
+  return {
+    totalSpent,
+    totalPlays: records.reduce((sum, r) => sum + (r.cost.plays || 0), 0),
+    prizeCount,
+    averagePerPrize: prizeCount > 0 ? Math.round(totalSpent / prizeCount) : 0,
+    byCategory: groupRecords(records, r => r.prize.category).sort(bySpentDesc),
+    byManufacturer: groupRecords(records, r => r.prize.manufacturer || NO_MANUFACTURER).sort(bySpentDesc),
+    byMonth: groupRecords(records, r => r.date.slice(0, 7)).sort((a, b) => a.key.localeCompare(b.key)),
+    mostExpensive: [...records].sort((a, b) => b.cost.total - a.cost.total).slice(0, topCount),
+  };
+};
@@ -0,0 +1,272 @@
+import { Prize, PrizeCategory, Manufacturer } from '../types';
+import { NO_MANUFACTURER } from '../constants';
+import { todayString } from './ledger';
+import { barcodeError, normalizeBarcode } from './barcode';
+
+export type CsvField = 'id' | 'name' | 'category' | 'manufacturer' | 'quantity' | 'acquisitionDate' | 'notes' | 'barcode';
+export type CsvEncoding = 'utf8-bom' | 'shift_jis' | 'utf8';
+
+interface CsvFieldDefinition {
+  field: CsvField;
+  label: string;
+  aliases: string[]; // Header spellings recognised on import (compared lower-cased)
+  format: (prize: Prize) => string;
+}
+
+export const csvFieldDefinitions: CsvFieldDefinition[] = [
+  { field: 'name', label: '景品名', aliases: ['name', '名前', '商品名', 'アイテム名'], format: p => p.name },
+  { field: 'category', label: 'カテゴリ', aliases: ['category', '種類', '分類'], format: p => p.category },
+  { field: 'manufacturer', label: 'メーカー', aliases: ['manufacturer', '会社', 'maker'], format: p => p.manufacturer || '' },
+  { field: 'quantity', label: '数量', aliases: ['quantity', '個数', '在庫数', 'qty'], format: p => String(p.quantity) },
+  { field: 'acquisitionDate', label: '獲得日', aliases: ['acquisitiondate', 'date', '日付', '取得日'], format: p => p.acquisitionDate },
+  { field: 'notes', label: '備考', aliases: ['notes', 'メモ', '備考・メモ', 'note'], format: p => p.notes || '' },
+  { field: 'barcode', label: 'JANコード', aliases: ['barcode', 'jan', 'ean', 'バーコード', 'janコード'], format: p => p.barcode || '' },
+  { field: 'id', label: 'ID', aliases: ['id'], format: p => p.id },
+];
+
+export const csvEncodingLabels: Record<CsvEncoding, string> = {
+  'utf8-bom': 'UTF-8 (BOM付き・Excel推奨)',
+  shift_jis: 'Shift_JIS (古いExcel)',
+  utf8: 'UTF-8 (BOMなし)',
+};
+
+// --- Parsing / serialising ---------------------------------------------------
+
+// RFC 4180 parser: quoted fields may contain commas, quotes ("") and newlines
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines, which spreadsheets like to leave at the end
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Spreadsheets run a cell starting with one of these as a formula (e.g. =HYPERLINK(...))
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// A leading ' makes Excel show such a cell as text; it is taken off again on import
+const escapeCsvCell = (value: string): string => {
+  const cell = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) || cell !== value ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+const unescapeFormulaCell = (value: string): string =>
+  value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+
+export const prizesToCsv = (prizes: Prize[], fields: CsvField[]): string => {
+  const definitions = csvFieldDefinitions.filter(d => fields.includes(d.field));
+  return toCsv([
+    definitions.map(d => d.label),
+    ...prizes.map(prize => definitions.map(d => d.format(prize))),
+  ]);
+};
+
+// --- Encoding ----------------------------------------------------------------
+
+let shiftJisTable: Map<string, number[]> | null = null;
+
+const range = (from: number, to: number): number[] =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// Browsers can only decode Shift_JIS, so the encoder table is built by
+// decoding every double-byte code once and inverting the result.
+const getShiftJisTable = (): Map<string, number[]> => {
+  if (shiftJisTable) return shiftJisTable;
+
+  const pairs: number[][] = [];
+  const bytes: number[] = [];
+  const leadBytes = [...range(0x81, 0x9f), ...range(0xe0, 0xfc)];
+  const trailBytes = [...range(0x40, 0x7e), ...range(0x80, 0xfc)];
+  leadBytes.forEach(lead => trailBytes.forEach(trail => {
+    pairs.push([lead, trail]);
+    // Newline separators keep the output aligned even around invalid pairs
+    bytes.push(lead, trail, 0x0a);
+  }));
+
+  const decoded = new TextDecoder('shift_jis').decode(new Uint8Array(bytes)).split('\n');
+  const table = new Map<string, number[]>();
+  pairs.forEach((pair, index) => {
+    const char = decoded[index];
+    if (char && char.length === 1 && char !== '\uFFFD' && !table.has(char)) {
+      table.set(char, pair);
+    }
+  });
+  shiftJisTable = table;
+  return table;
+};
+
+const encodeShiftJis = (text: string): Uint8Array => {
+  const table = getShiftJisTable();
+  const out: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      out.push(code);
+    } else if (code >= 0xff61 && code <= 0xff9f) {
+      out.push(code - 0xff61 + 0xa1); // Half-width katakana
+    } else if (code === 0xa5) {
+      out.push(0x5c); // ¥
+    } else if (code === 0x203e) {
+      out.push(0x7e); // ‾
+    } else {
+      out.push(...(table.get(char) || [0x3f])); // Unmappable characters become '?'
+    }
+  }
+  return new Uint8Array(out);
+};
+
+export const encodeCsv = (csv: string, encoding: CsvEncoding): Blob => {
+  switch (encoding) {
+    case 'shift_jis':
+      return new Blob([encodeShiftJis(csv)], { type: 'text/csv;charset=shift_jis' });
+    case 'utf8':
+      return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    case 'utf8-bom':
+    default:
+      // The BOM is what makes Japanese Excel open UTF-8 CSV correctly
+      return new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+  }
+};
+
+// Files saved by Excel are usually Shift_JIS; anything that is valid UTF-8 is read as UTF-8
+export const decodeCsv = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('shift_jis').decode(buffer);
+  }
+};
+
+// --- Import ------------------------------------------------------------------
+
+export type CsvColumnMapping = (CsvField | null)[];
+
+export interface CsvImportRow {
+  rowNumber: number; // 1-based record number in the file, for error messages
+  prize: Prize | null;
+  isUpdate: boolean;
+  errors: string[];
+}
+
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const used = new Set<CsvField>();
+  return headers.map(header => {
+    const normalized = header.trim().toLowerCase();
+    const match = csvFieldDefinitions.find(d =>
+      !used.has(d.field) && (d.label.toLowerCase() === normalized || d.aliases.includes(normalized))
+    );
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+};
+
+// Accepts 2024-05-01 as well as 2024/5/1, which is how Excel rewrites dates
+const normalizeDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return isNaN(new Date(date).getTime()) ? null : date;
+};
+
+export const csvRowsToPrizes = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  existingPrizes: Prize[],
+  firstRowNumber: number,
+  known: { categories: string[]; manufacturers: string[] } // Registered master data names
+): CsvImportRow[] => {
+  const existingById = new Map(existingPrizes.map(p => [p.id, p]));
+  const baseId = Date.now();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    // undefined when the column is not mapped, so updates keep the stored value
+    const value = (field: CsvField): string | undefined => {
+      const column = mapping.indexOf(field);
+      return column > -1 ? unescapeFormulaCell((row[column] || '').trim()) : undefined;
+    };
+    const existing = existingById.get(value('id') || '');
+
+    const name = value('name') || existing?.name || '';
+    if (!name) errors.push('景品名が空です');
+
+    const quantityText = value('quantity') || '';
+    const quantity = quantityText === '' ? (existing?.quantity ?? 1) : Number(quantityText);
+    if (!Number.isInteger(quantity) || quantity < 0) errors.push(`数量「${quantityText}」は0以上の整数ではありません`);
+
+    const dateText = value('acquisitionDate') || '';
+    const acquisitionDate = dateText === '' ? (existing?.acquisitionDate || todayString()) : normalizeDate(dateText);
+    if (!acquisitionDate) errors.push(`獲得日「${dateText}」を日付として読み取れません`);
+
+    const category: PrizeCategory = value('category') || existing?.category || 'その他';
+    if (!known.categories.includes(category)) errors.push(`カテゴリ「${category}」は登録されていません`);
+
+    const manufacturer: Manufacturer = value('manufacturer') || existing?.manufacturer || NO_MANUFACTURER;
+    if (manufacturer !== NO_MANUFACTURER && !known.manufacturers.includes(manufacturer)) {
+      errors.push(`メーカー「${manufacturer}」は登録されていません`);
+    }
+
+    // An empty cell clears the code; codes already stored are kept even if they would fail the check now
+    const barcodeText = value('barcode');
+    const barcode = barcodeText === undefined ? existing?.barcode : normalizeBarcode(barcodeText) || undefined;
+    const barcodeProblem = barcode && barcode !== existing?.barcode ? barcodeError(barcode) : null;
+    if (barcodeProblem) errors.push(`JANコード「${barcodeText}」: ${barcodeProblem}`);
+
+    if (errors.length > 0) {
+      return { rowNumber: firstRowNumber + index, prize: null, isUpdate: !!existing, errors };
+    }
+
+    const prize: Prize = {
+      ...existing,
+      id: existing?.id || `${baseId}_${index}`,
+      name,
+      quantity,
+      acquisitionDate: acquisitionDate!,
+      category,
+      manufacturer,
+      notes: value('notes') ?? existing?.notes,
+      barcode,
+      updatedAt: new Date().toISOString(),
+    };
+    return { rowNumber: firstRowNumber + index, prize, isUpdate: !!existing, errors };
+  });
+};
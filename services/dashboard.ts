@@ -0,0 +1,94 @@
+import { Prize } from '../types';
+import { NO_MANUFACTURER } from '../constants';
+
+// What each prize contributes to a chart: one per prize, or its quantity
+export type ChartMetric = 'prizes' | 'quantity';
+
+export const chartMetricLabels: Record<ChartMetric, string> = {
+  prizes: '種類数',
+  quantity: '個数',
+};
+
+export interface SeriesPoint {
+  label: string;
+  value: number;
+}
+
+export interface YearComparison {
+  years: number[]; // Oldest first
+  values: number[][]; // Per year, 12 monthly values
+}
+
+const weightOf = (prize: Prize, metric: ChartMetric): number => (metric === 'quantity' ? prize.quantity : 1);
+
+// Year and month of an acquisition date. Prizes without one (a cleared date input, a hand-edited
+// import) are left out of the charts over time, which would otherwise have no end to their range.
+const ACQUISITION_MONTH = /^\d{4}-(0[1-9]|1[0-2])/;
+
+const withAcquisitionMonth = (prizes: Prize[]): Prize[] => prizes.filter(p => ACQUISITION_MONTH.test(p.acquisitionDate || ''));
+
+const nextMonth = (month: string): string => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+};
+
+// Every month from the first to the last acquisition, including empty ones
+export const monthlySeries = (prizes: Prize[], metric: ChartMetric): SeriesPoint[] => {
+  const dated = withAcquisitionMonth(prizes);
+  if (dated.length === 0) return [];
+  const totals = new Map<string, number>();
+  dated.forEach(p => {
+    const month = p.acquisitionDate.slice(0, 7);
+    totals.set(month, (totals.get(month) || 0) + weightOf(p, metric));
+  });
+  const months = Array.from(totals.keys()).sort();
+  const last = months[months.length - 1];
+  const series: SeriesPoint[] = [];
+  for (let month = months[0]; month <= last; month = nextMonth(month)) {
+    series.push({ label: month, value: totals.get(month) || 0 });
+  }
+  return series;
+};
+
+// Largest groups first; anything past `limit` is folded into その他
+export const shareBy = (
+  prizes: Prize[],
+  keyOf: (prize: Prize) => string,
+  metric: ChartMetric,
+  limit = 6
+): SeriesPoint[] => {
+  const totals = new Map<string, number>();
+  prizes.forEach(p => totals.set(keyOf(p), (totals.get(keyOf(p)) || 0) + weightOf(p, metric)));
+  const sorted = Array.from(totals, ([label, value]) => ({ label, value }))
+    .filter(point => point.value > 0)
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label, 'ja'));
+  if (sorted.length <= limit + 1) return sorted;
+  const rest = sorted.slice(limit).reduce((sum, point) => sum + point.value, 0);
+  return [...sorted.slice(0, limit), { label: 'その他', value: rest }];
+};
+
+export const categoryShare = (prizes: Prize[], metric: ChartMetric): SeriesPoint[] => shareBy(prizes, p => p.category, metric);
+
+export const manufacturerShare = (prizes: Prize[], metric: ChartMetric): SeriesPoint[] =>
+  shareBy(prizes, p => p.manufacturer || NO_MANUFACTURER, metric);
+
+export const topByQuantity = (prizes: Prize[], count = 10): SeriesPoint[] =>
+  [...prizes]
+    .sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name, 'ja'))
+    .slice(0, count)
+    .map(p => ({ label: p.name, value: p.quantity }));
+
+// The latest year with acquisitions against the one before it
+export const yearOverYear = (prizes: Prize[], metric: ChartMetric): YearComparison => {
+  const dated = withAcquisitionMonth(prizes);
+  const latest = dated.reduce((max, p) => Math.max(max, Number(p.acquisitionDate.slice(0, 4)) || 0), 0);
+  if (latest === 0) return { years: [], values: [] };
+  const years = [latest - 1, latest];
+  const values = years.map(() => new Array<number>(12).fill(0));
+  dated.forEach(p => {
+    const yearIndex = years.indexOf(Number(p.acquisitionDate.slice(0, 4)));
+    if (yearIndex === -1) return;
+    values[yearIndex][Number(p.acquisitionDate.slice(5, 7)) - 1] += weightOf(p, metric);
+  });
+  return { years, values };
+};
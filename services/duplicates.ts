@@ -0,0 +1,254 @@
+import { Inventory, PlayCost, Prize } from '../types';
+import { normalizeForSearch } from './search';
+import { barcodeMatchKey, findPrizesByBarcode } from './barcode';
+import { cleanPlacements } from './locations';
+import { PhotoService, prizePhotoIds } from './photos';
+
+export type DuplicateReason = 'name' | 'photo' | 'barcode';
+
+export const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  name: '名前が似ている',
+  photo: '写真が似ている',
+  barcode: 'JANコードが同じ',
+};
+
+export interface DuplicateMatch {
+  prize: Prize;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicatePair {
+  first: Prize; // The older registration
+  second: Prize;
+  reasons: DuplicateReason[];
+}
+
+// Dice coefficient of the name bigrams from which two names count as the same prize
+const NAME_SIMILARITY_THRESHOLD = 0.75;
+// Differing hash bits (of 64) up to which two photos count as the same picture
+const PHOTO_HASH_MAX_DISTANCE = 10;
+
+// --- Names ----------------------------------------------------------------------
+
+// Width, kana and case are folded as in search; spaces and symbols are dropped
+// so 「ちいかわ ぬいぐるみ」 and 「ちいかわ・ぬいぐるみ！」 compare equal
+const nameKey = (name: string): string => normalizeForSearch(name).replace(/[\s\p{P}\p{S}]/gu, '');
+
+interface NameGrams {
+  key: string;
+  counts: Map<string, number>; // Bigram -> occurrences
+  total: number;
+}
+
+const nameGrams = (name: string): NameGrams => {
+  const key = nameKey(name);
+  const grams = key.length < 2 ? [key] : Array.from({ length: key.length - 1 }, (_, i) => key.slice(i, i + 2));
+  const counts = new Map<string, number>();
+  grams.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  return { key, counts, total: grams.length };
+};
+
+// Dice coefficient over bigrams, which copes with Japanese names that have no word breaks
+const nameSimilarity = (a: NameGrams, b: NameGrams): number => {
+  if (!a.key || !b.key) return 0;
+  if (a.key === b.key) return 1;
+  let shared = 0;
+  a.counts.forEach((count, gram) => { shared += Math.min(count, b.counts.get(gram) || 0); });
+  return (2 * shared) / (a.total + b.total);
+};
+
+// --- Photos ---------------------------------------------------------------------
+
+const hashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let bits = parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16);
+    while (bits) {
+      bits &= bits - 1;
+      distance++;
+    }
+  }
+  return distance;
+};
+
+// Any photo of one showing the same picture as any photo of the other
+const shareAPicture = (a: string[], b: string[]): boolean =>
+  a.some(hashA => b.some(hashB => hashDistance(hashA, hashB) <= PHOTO_HASH_MAX_DISTANCE));
+
+const photoHashes = (prizes: Prize[]): Promise<Map<string, string | null>> =>
+  PhotoService.perceptualHashes(prizes.flatMap(prizePhotoIds));
+
+// Bit widths of the bands a hash is cut into. Two hashes within PHOTO_HASH_MAX_DISTANCE bits
+// differ in at most that many bands, so with one band more they agree on at least one.
+const HASH_BANDS = [6, 6, 6, 6, 6, 6, 6, 6, 6, 5, 5];
+
+const hashBands = (hash: string): string[] => {
+  const bits = Array.from(hash, digit => parseInt(digit, 16).toString(2).padStart(4, '0')).join('');
+  let offset = 0;
+  return HASH_BANDS.map((width, band) => {
+    const key = `${band}:${bits.slice(offset, offset + width)}`;
+    offset += width;
+    return key;
+  });
+};
+
+// --- Finding --------------------------------------------------------------------
+
+// What a prize is compared by, worked out once per prize
+interface Fingerprint {
+  prize: Prize;
+  name: NameGrams;
+  photoHashes: string[];
+}
+
+const fingerprint = (prize: Prize, hashes: Map<string, string | null>): Fingerprint => ({
+  prize,
+  name: nameGrams(prize.name),
+  photoHashes: prizePhotoIds(prize).flatMap(id => hashes.get(id) || []),
+});
+
+const reasonsFor = (a: Fingerprint, b: Fingerprint): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+  if (a.prize.barcode && b.prize.barcode) {
+    // Different codes are different products, however alike their names and pictures
+    if (findPrizesByBarcode([b.prize], a.prize.barcode).length === 0) return reasons;
+    reasons.push('barcode');
+  }
+  if (nameSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD) reasons.push('name');
+  if (shareAPicture(a.photoHashes, b.photoHashes)) reasons.push('photo');
+  return reasons;
+};
+
+// Existing prizes that are likely the same as one about to be added, most reasons first
+export const findDuplicatesOf = async (prize: Prize, existing: Prize[]): Promise<DuplicateMatch[]> => {
+  const candidates = existing.filter(p => p.id !== prize.id);
+  // Without a photo of its own there is nothing to compare the other photos with
+  const hashes = prizePhotoIds(prize).length > 0 ? await photoHashes([prize, ...candidates]) : new Map<string, string | null>();
+  const subject = fingerprint(prize, hashes);
+  return candidates
+    .map(p => ({ prize: p, reasons: reasonsFor(subject, fingerprint(p, hashes)) }))
+    .filter(match => match.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length);
+};
+
+// Positions of the fingerprints that share something with each one: a name bigram, a code or a
+// band of a photo hash. Only these pairs can have a reason, so the others are never compared.
+const candidatePairs = (fingerprints: Fingerprint[]): number[][] => {
+  const buckets = new Map<string, number[]>();
+  const addTo = (key: string, position: number) => {
+    const bucket = buckets.get(key);
+    if (!bucket) buckets.set(key, [position]);
+    else if (bucket[bucket.length - 1] !== position) bucket.push(position);
+  };
+  fingerprints.forEach(({ prize, photoHashes: hashes }, position) => {
+    if (prize.barcode) addTo(`jan:${barcodeMatchKey(prize.barcode)}`, position);
+    hashes.forEach(hash => hashBands(hash).forEach(band => addTo(`photo:${band}`, position)));
+  });
+
+  const candidates: Set<number>[] = fingerprints.map(() => new Set());
+  buckets.forEach(positions => positions.forEach((position, i) => {
+    for (let j = i + 1; j < positions.length; j++) candidates[position].add(positions[j]);
+  }));
+
+  // Names share many bigrams (「ぬい」, 「ぐる」…), so instead of pairing everything in a bigram's bucket
+  // the shared bigrams are counted and only names that can reach the threshold are kept
+  const nameBuckets = new Map<string, number[]>();
+  fingerprints.forEach(({ name }, position) => {
+    if (!name.key) return;
+    name.counts.forEach((_, gram) => {
+      const bucket = nameBuckets.get(gram);
+      if (bucket) bucket.push(position);
+      else nameBuckets.set(gram, [position]);
+    });
+  });
+  fingerprints.forEach(({ name }, position) => {
+    if (!name.key) return;
+    const shared = new Map<number, number>();
+    name.counts.forEach((count, gram) => {
+      (nameBuckets.get(gram) || []).forEach(other => {
+        if (other <= position) return;
+        shared.set(other, (shared.get(other) || 0) + Math.min(count, fingerprints[other].name.counts.get(gram) || 0));
+      });
+    });
+    shared.forEach((count, other) => {
+      if (2 * count >= NAME_SIMILARITY_THRESHOLD * (name.total + fingerprints[other].name.total)) candidates[position].add(other);
+    });
+  });
+  return candidates.map(set => Array.from(set));
+};
+
+// Every pair of likely duplicates among the prizes, most reasons first
+export const findDuplicatePairs = async (prizes: Prize[]): Promise<DuplicatePair[]> => {
+  const hashes = await photoHashes(prizes);
+  const fingerprints = [...prizes]
+    .sort((a, b) => a.acquisitionDate.localeCompare(b.acquisitionDate) || a.id.localeCompare(b.id))
+    .map(prize => fingerprint(prize, hashes));
+  const pairs: DuplicatePair[] = [];
+  candidatePairs(fingerprints).forEach((others, i) => {
+    others.forEach(j => {
+      const reasons = reasonsFor(fingerprints[i], fingerprints[j]);
+      if (reasons.length > 0) pairs.push({ first: fingerprints[i].prize, second: fingerprints[j].prize, reasons });
+    });
+  });
+  return pairs.sort((a, b) => b.reasons.length - a.reasons.length);
+};
+
+export const pairKey = (pair: DuplicatePair): string => `${pair.first.id}\u0000${pair.second.id}`;
+
+// --- Merging --------------------------------------------------------------------
+
+const addCosts = (a: PlayCost, b: PlayCost): PlayCost => ({
+  ...(a.plays !== undefined && b.plays !== undefined ? { plays: a.plays + b.plays } : {}),
+  ...(a.pricePerPlay !== undefined && a.pricePerPlay === b.pricePerPlay ? { pricePerPlay: a.pricePerPlay } : {}),
+  total: a.total + b.total,
+});
+
+const galleryOf = (photoIds: string[]): string[] | undefined =>
+  photoIds.length > 0 ? Array.from(new Set(photoIds)) : undefined;
+
+const joinNotes = (a?: string, b?: string): string | undefined => {
+  const notes = [a?.trim(), b?.trim()].filter((n, i, all): n is string => !!n && all.indexOf(n) === i);
+  return notes.length > 0 ? notes.join('\n') : undefined;
+};
+
+// Folds `sourceId` into `targetId`: quantities and placements add up, the history moves over,
+// the source's photos join the end of the gallery, and a code the target is missing is taken over.
+export const mergePrizes = (inventory: Inventory, targetId: string, sourceId: string): Inventory => {
+  const target = inventory.prizes.find(p => p.id === targetId);
+  const source = inventory.prizes.find(p => p.id === sourceId);
+  if (!target || !source || targetId === sourceId) return inventory;
+
+  // The source's store and acquisition cost go onto its history, so they stay with the wins they
+  // belong to instead of changing the target's; the cost lands on the first increase without one
+  let sourceCost = source.cost;
+  const movements = inventory.movements.map(m => {
+    if (m.prizeId !== sourceId) return m;
+    const moved = { ...m, prizeId: targetId, arcadeId: m.arcadeId || source.arcadeId };
+    if (sourceCost && m.delta > 0 && !m.cost) {
+      moved.cost = sourceCost;
+      sourceCost = undefined;
+    }
+    return moved;
+  });
+
+  const tags = Array.from(new Set([...(target.tags || []), ...(source.tags || [])]));
+  const merged: Prize = {
+    ...target,
+    quantity: target.quantity + source.quantity,
+    acquisitionDate: source.acquisitionDate < target.acquisitionDate ? source.acquisitionDate : target.acquisitionDate,
+    photoIds: galleryOf([...prizePhotoIds(target), ...prizePhotoIds(source)]),
+    photoId: undefined,
+    notes: joinNotes(target.notes, source.notes),
+    barcode: target.barcode || source.barcode,
+    tags: tags.length > 0 ? tags : undefined,
+    cost: target.cost && sourceCost ? addCosts(target.cost, sourceCost) : target.cost || sourceCost,
+    placements: cleanPlacements([...(target.placements || []), ...(source.placements || [])]),
+    updatedAt: new Date().toISOString(),
+  };
+
+  return {
+    ...inventory,
+    prizes: inventory.prizes.filter(p => p.id !== sourceId).map(p => (p.id === targetId ? merged : p)),
+    movements,
+  };
+};
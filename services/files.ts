@@ -0,0 +1,64 @@
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', url);
+  linkElement.setAttribute('download', fileName);
+  linkElement.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const readFileAsArrayBuffer = (file: Blob): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+// e.g. crane_game_inventory_2024-05-01.json
+export const datedFileName = (prefix: string, extension: string): string =>
+  `${prefix}_${new Date().toISOString().split('T')[0]}.${extension}`;
+
+// Draws an SVG chart onto a canvas and downloads it as PNG. Only presentation
+// attributes survive: page CSS (Tailwind classes) does not reach an SVG drawn as an image.
+export const downloadSvgAsPng = (svg: SVGSVGElement, fileName: string, scale = 2): Promise<void> => {
+  const { width, height } = svg.viewBox.baseVal;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const source = new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' });
+  const url = URL.createObjectURL(source);
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Failed to encode chart'));
+          return;
+        }
+        downloadBlob(blob, fileName);
+        resolve();
+      }, 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render chart'));
+    };
+    img.src = url;
+  });
+};
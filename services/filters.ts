@@ -0,0 +1,158 @@
+import { Manufacturer, MasterKind, Prize, PrizeCategory } from '../types';
+import { NO_MANUFACTURER } from '../constants';
+import { TagMatchMode, matchesTags } from './tags';
+import { NO_LOCATION, unplacedQuantity } from './locations';
+import { prizePhotoIds } from './photos';
+
+export type DisplayMode = 'card' | 'list' | 'dashboard';
+export type SortOrder = 'date-desc' | 'name-asc' | 'name-desc';
+export type PresenceFilter = 'any' | 'with' | 'without';
+
+export const sortOrderLabels: Record<SortOrder, string> = {
+  'date-desc': '獲得日が新しい順',
+  'name-asc': '名前順 (A→Z)',
+  'name-desc': '名前順 (Z→A)',
+};
+
+export interface PrizeFilter {
+  category: PrizeCategory | 'すべて';
+  manufacturers: Manufacturer[]; // Empty matches every manufacturer
+  dateFrom: string; // YYYY-MM-DD, '' for open-ended
+  dateTo: string;
+  minQuantity: number | null;
+  maxQuantity: number | null;
+  photo: PresenceFilter;
+  notes: PresenceFilter;
+  tags: string[]; // Empty matches every prize
+  tagMode: TagMatchMode; // 'and': every tag, 'or': any of them
+  location: string; // Location id, NO_LOCATION for prizes with unplaced items, '' for any
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filter: PrizeFilter;
+}
+
+// Everything that makes up the current view, as mirrored in the URL hash
+export interface ViewState {
+  search: string;
+  filter: PrizeFilter;
+  sortOrder: SortOrder;
+  displayMode: DisplayMode;
+}
+
+export const emptyFilter: PrizeFilter = {
+  category: 'すべて',
+  manufacturers: [],
+  dateFrom: '',
+  dateTo: '',
+  minQuantity: null,
+  maxQuantity: null,
+  photo: 'any',
+  notes: 'any',
+  tags: [],
+  tagMode: 'and',
+  location: '',
+};
+
+const defaultViewState: ViewState = { search: '', filter: emptyFilter, sortOrder: 'date-desc', displayMode: 'card' };
+
+const matchesPresence = (present: boolean, filter: PresenceFilter): boolean =>
+  filter === 'any' || (filter === 'with') === present;
+
+// `locationScope` is the filtered location and everything inside it (see locationWithDescendants)
+export const matchesFilter = (prize: Prize, filter: PrizeFilter, locationScope?: Set<string>): boolean => {
+  if (filter.category !== 'すべて' && prize.category !== filter.category) return false;
+  if (filter.manufacturers.length > 0 && !filter.manufacturers.includes(prize.manufacturer || NO_MANUFACTURER)) return false;
+  // Dates are YYYY-MM-DD, so they compare as strings
+  if (filter.dateFrom && prize.acquisitionDate < filter.dateFrom) return false;
+  if (filter.dateTo && prize.acquisitionDate > filter.dateTo) return false;
+  if (filter.minQuantity !== null && prize.quantity < filter.minQuantity) return false;
+  if (filter.maxQuantity !== null && prize.quantity > filter.maxQuantity) return false;
+  if (!matchesTags(prize, filter.tags, filter.tagMode)) return false;
+  if (filter.location === NO_LOCATION && unplacedQuantity(prize) === 0) return false;
+  if (filter.location && filter.location !== NO_LOCATION) {
+    const scope = locationScope || new Set([filter.location]);
+    if (!prize.placements?.some(p => scope.has(p.locationId))) return false;
+  }
+  return matchesPresence(prizePhotoIds(prize).length > 0, filter.photo) && matchesPresence(!!prize.notes?.trim(), filter.notes);
+};
+
+// Conditions set in the filter panel; category and tags have their own controls in the header
+export const countPanelFilters = (filter: PrizeFilter): number =>
+  [
+    filter.manufacturers.length > 0,
+    filter.dateFrom || filter.dateTo,
+    filter.minQuantity !== null || filter.maxQuantity !== null,
+    filter.photo !== 'any',
+    filter.notes !== 'any',
+    filter.location,
+  ].filter(Boolean).length;
+
+// Follows a renamed category or maker, so a filter on it keeps matching the same prizes
+export const renameInFilter = (filter: PrizeFilter, kind: MasterKind, oldName: string, newName: string): PrizeFilter => {
+  if (kind === 'category') return filter.category === oldName ? { ...filter, category: newName } : filter;
+  return filter.manufacturers.includes(oldName)
+    ? { ...filter, manufacturers: filter.manufacturers.map(m => (m === oldName ? newName : m)) }
+    : filter;
+};
+
+// --- URL hash ------------------------------------------------------------------------
+// e.g. #q=ちいかわ&category=ぬいぐるみ&maker=タイトー&maker=FuRyu&min=2&tag=限定&loc=none&sort=name-asc&view=list
+
+const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const parseCount = (value: string | null): number | null => {
+  if (value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 0 ? number : null;
+};
+
+const parsePresence = (value: string | null): PresenceFilter =>
+  value === 'with' || value === 'without' ? value : 'any';
+
+export const viewStateToHash = ({ search, filter, sortOrder, displayMode }: ViewState): string => {
+  const params = new URLSearchParams();
+  if (search) params.set('q', search);
+  if (filter.category !== emptyFilter.category) params.set('category', filter.category);
+  filter.manufacturers.forEach(m => params.append('maker', m));
+  if (filter.dateFrom) params.set('from', filter.dateFrom);
+  if (filter.dateTo) params.set('to', filter.dateTo);
+  if (filter.minQuantity !== null) params.set('min', String(filter.minQuantity));
+  if (filter.maxQuantity !== null) params.set('max', String(filter.maxQuantity));
+  if (filter.photo !== 'any') params.set('photo', filter.photo);
+  if (filter.notes !== 'any') params.set('notes', filter.notes);
+  filter.tags.forEach(t => params.append('tag', t));
+  if (filter.tagMode !== emptyFilter.tagMode) params.set('tagmode', filter.tagMode);
+  if (filter.location) params.set('loc', filter.location);
+  if (sortOrder !== defaultViewState.sortOrder) params.set('sort', sortOrder);
+  if (displayMode !== defaultViewState.displayMode) params.set('view', displayMode);
+  return params.toString();
+};
+
+// Malformed values fall back to the defaults, so any hand-edited URL still opens.
+// Category, maker and tag names and location ids are not checked: they are user data and may not be loaded yet.
+export const viewStateFromHash = (hash: string): ViewState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const sort = params.get('sort') as SortOrder;
+  const view = params.get('view');
+  return {
+    search: params.get('q') || '',
+    filter: {
+      category: params.get('category') || 'すべて',
+      manufacturers: params.getAll('maker').filter(Boolean),
+      dateFrom: isDate(params.get('from')) ? params.get('from')! : '',
+      dateTo: isDate(params.get('to')) ? params.get('to')! : '',
+      minQuantity: parseCount(params.get('min')),
+      maxQuantity: parseCount(params.get('max')),
+      photo: parsePresence(params.get('photo')),
+      notes: parsePresence(params.get('notes')),
+      tags: params.getAll('tag').filter(Boolean),
+      tagMode: params.get('tagmode') === 'or' ? 'or' : 'and',
+      location: params.get('loc') || '',
+    },
+    sortOrder: sort && Object.hasOwn(sortOrderLabels, sort) ? sort : defaultViewState.sortOrder,
+    displayMode: view === 'list' || view === 'dashboard' ? view : 'card',
+  };
+};
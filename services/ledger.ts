@@ -0,0 +1,65 @@
+import { MovementType, PlayCost, Prize, StockMovement } from '../types';
+
+export const movementTypeLabels: Record<MovementType, string> = {
+  won: '獲得',
+  bought: '購入',
+  gifted: '譲渡',
+  sold: '売却',
+  traded: '交換',
+  correction: '数量修正',
+};
+
+// Reasons offered by the quick picker, per direction of the change
+export const increaseMovementTypes: MovementType[] = ['won', 'bought', 'traded', 'correction'];
+export const decreaseMovementTypes: MovementType[] = ['gifted', 'sold', 'traded', 'correction'];
+
+// Used when +/- is pressed without picking a reason
+export const defaultMovementType = (delta: number): MovementType => (delta > 0 ? 'won' : 'gifted');
+
+export const todayString = (): string => new Date().toISOString().split('T')[0];
+
+export const createMovement = (
+  prizeId: string,
+  delta: number,
+  type: MovementType = defaultMovementType(delta),
+  options: { date?: string; memo?: string; arcadeId?: string; cost?: PlayCost } = {}
+): StockMovement => ({
+  id: `mv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+  prizeId,
+  type,
+  date: options.date || todayString(),
+  delta,
+  memo: options.memo?.trim() || undefined,
+  arcadeId: options.arcadeId,
+  cost: options.cost,
+  createdAt: new Date().toISOString(),
+});
+
+// Newest first; entries on the same day keep the order they were recorded in
+export const sortMovementsNewestFirst = (movements: StockMovement[]): StockMovement[] => {
+  return [...movements].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+};
+
+// Ledger entries for a bulk replacement of prizes (imports): new prizes count as
+// won on their acquisition date, changed quantities as corrections. Changes already
+// explained by `recorded` entries (e.g. history taken from a backup) are not repeated.
+export const movementsForReplacement = (
+  previous: Prize[],
+  next: Prize[],
+  memo: string,
+  recorded: StockMovement[] = []
+): StockMovement[] => {
+  const previousById = new Map(previous.map(p => [p.id, p]));
+  const recordedDelta = new Map<string, number>();
+  recorded.forEach(m => recordedDelta.set(m.prizeId, (recordedDelta.get(m.prizeId) || 0) + m.delta));
+
+  return next.flatMap(prize => {
+    const before = previousById.get(prize.id);
+    const delta = prize.quantity - (before?.quantity || 0) - (recordedDelta.get(prize.id) || 0);
+    if (delta === 0) return [];
+    if (!before && delta > 0) {
+      return [createMovement(prize.id, delta, 'won', { date: prize.acquisitionDate, memo })];
+    }
+    return [createMovement(prize.id, delta, 'correction', { memo })];
+  });
+};
@@ -0,0 +1,145 @@
+import { Prize } from '../types';
+import { NO_MANUFACTURER } from '../constants';
+import { describePlacements } from './locations';
+
+export type ListColumn = 'name' | 'category' | 'quantity' | 'acquisitionDate' | 'manufacturer' | 'location' | 'notes' | 'barcode';
+
+// Columns whose cells can be edited in place
+export type EditableColumn = 'name' | 'category' | 'manufacturer' | 'acquisitionDate' | 'notes';
+
+export interface ListColumnDefinition {
+  column: ListColumn;
+  label: string;
+  width: number; // Default width in px
+  editable: boolean;
+}
+
+export const listColumnDefinitions: ListColumnDefinition[] = [
+  { column: 'name', label: '景品名', width: 260, editable: true },
+  { column: 'category', label: 'カテゴリ', width: 140, editable: true },
+  { column: 'quantity', label: '数量', width: 150, editable: false },
+  { column: 'acquisitionDate', label: '獲得日', width: 140, editable: true },
+  { column: 'manufacturer', label: '会社', width: 140, editable: true },
+  { column: 'location', label: '保管場所', width: 200, editable: false },
+  { column: 'notes', label: '備考', width: 220, editable: true },
+  { column: 'barcode', label: 'JANコード', width: 150, editable: false },
+];
+
+const definitionsByColumn = new Map(listColumnDefinitions.map(d => [d.column, d]));
+
+export const listColumnDefinition = (column: ListColumn): ListColumnDefinition => definitionsByColumn.get(column)!;
+
+export const isEditableColumn = (column: ListColumn): column is EditableColumn => listColumnDefinition(column).editable;
+
+export const MIN_COLUMN_WIDTH = 72;
+
+export interface ListColumnLayout {
+  column: ListColumn;
+  visible: boolean;
+  width: number;
+}
+
+// Columns in display order, hidden ones included so they keep their place and width
+export type ListLayout = ListColumnLayout[];
+
+const hiddenByDefault: ListColumn[] = ['notes', 'barcode'];
+
+export const defaultListLayout = (): ListLayout =>
+  listColumnDefinitions.map(d => ({ column: d.column, visible: !hiddenByDefault.includes(d.column), width: d.width }));
+
+// Reads a stored layout, dropping columns that no longer exist and adding new ones (hidden) at the end
+export const normalizeListLayout = (stored: unknown): ListLayout => {
+  if (!Array.isArray(stored)) return defaultListLayout();
+  const seen = new Set<ListColumn>();
+  const layout: ListLayout = [];
+  stored.forEach(entry => {
+    const column = entry?.column as ListColumn;
+    if (!definitionsByColumn.has(column) || seen.has(column)) return;
+    seen.add(column);
+    const width = Number(entry.width);
+    layout.push({
+      column,
+      visible: entry.visible !== false,
+      width: Number.isFinite(width) ? Math.max(MIN_COLUMN_WIDTH, Math.round(width)) : listColumnDefinition(column).width,
+    });
+  });
+  listColumnDefinitions.forEach(d => {
+    if (!seen.has(d.column)) layout.push({ column: d.column, visible: false, width: d.width });
+  });
+  // The name is what identifies a row, so it cannot be hidden
+  return layout.map(c => (c.column === 'name' ? { ...c, visible: true } : c));
+};
+
+// Moves `column` to where `before` is (or to the end when `before` is null)
+export const moveListColumn = (layout: ListLayout, column: ListColumn, before: ListColumn | null): ListLayout => {
+  const moving = layout.find(c => c.column === column);
+  if (!moving || column === before) return layout;
+  const rest = layout.filter(c => c.column !== column);
+  const index = before ? rest.findIndex(c => c.column === before) : -1;
+  return index === -1 ? [...rest, moving] : [...rest.slice(0, index), moving, ...rest.slice(index)];
+};
+
+export const updateListColumn = (layout: ListLayout, column: ListColumn, changes: Partial<Omit<ListColumnLayout, 'column'>>): ListLayout =>
+  layout.map(c => (c.column === column ? { ...c, ...changes } : c));
+
+// --- Sorting --------------------------------------------------------------------
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ColumnSort {
+  column: ListColumn;
+  direction: SortDirection;
+}
+
+// Dates and counts are most useful newest / largest first
+const firstDirection = (column: ListColumn): SortDirection => (column === 'acquisitionDate' || column === 'quantity' ? 'desc' : 'asc');
+
+// Clicking a header cycles its column through first direction, the other one and unsorted. A plain
+// click sorts by that column alone; with Shift the column is added as the next key instead.
+export const nextColumnSorts = (sorts: ColumnSort[], column: ListColumn, additive: boolean): ColumnSort[] => {
+  const current = additive || sorts.length === 1 ? sorts.find(s => s.column === column) : undefined;
+  const next: ColumnSort | null = !current
+    ? { column, direction: firstDirection(column) }
+    : current.direction === firstDirection(column)
+      ? { column, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      : null;
+  if (!additive) return next ? [next] : [];
+  if (!current) return next ? [...sorts, next] : sorts;
+  return next ? sorts.map(s => (s.column === column ? next : s)) : sorts.filter(s => s.column !== column);
+};
+
+export const normalizeColumnSorts = (stored: unknown): ColumnSort[] =>
+  Array.isArray(stored)
+    ? stored.filter((s): s is ColumnSort => definitionsByColumn.has(s?.column) && (s.direction === 'asc' || s.direction === 'desc'))
+    : [];
+
+const sortValue = (prize: Prize, column: ListColumn, locationPaths: Record<string, string>): string | number => {
+  switch (column) {
+    case 'quantity': return prize.quantity;
+    case 'manufacturer': return prize.manufacturer === NO_MANUFACTURER ? '' : prize.manufacturer || '';
+    case 'location': return describePlacements(prize, locationPaths) || '';
+    case 'notes': return prize.notes?.trim() || '';
+    case 'barcode': return prize.barcode || '';
+    default: return prize[column];
+  }
+};
+
+// Sorted by each key in turn; empty cells go last in either direction. The sort is stable,
+// so prizes that tie on every key keep the order they came in.
+export const sortByColumns = (prizes: Prize[], sorts: ColumnSort[], locationPaths: Record<string, string>): Prize[] => {
+  if (sorts.length === 0) return prizes;
+  const keyed = prizes.map(prize => ({ prize, values: sorts.map(s => sortValue(prize, s.column, locationPaths)) }));
+  keyed.sort((a, b) => {
+    for (let i = 0; i < sorts.length; i++) {
+      const x = a.values[i];
+      const y = b.values[i];
+      if (x === y) continue;
+      if (x === '') return 1;
+      if (y === '') return -1;
+      const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y), 'ja');
+      if (order !== 0) return sorts[i].direction === 'asc' ? order : -order;
+    }
+    return 0;
+  });
+  return keyed.map(k => k.prize);
+};
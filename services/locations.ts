@@ -0,0 +1,237 @@
+import { Inventory, LocationKind, Placement, Prize, StorageLocation } from '../types';
+
+export const locationKindLabels: Record<LocationKind, string> = {
+  room: '部屋',
+  shelf: '棚',
+  box: '箱',
+};
+
+// Filter value for prizes with items not put anywhere yet; location ids never look like this
+export const NO_LOCATION = 'none';
+
+export type LocationFields = Omit<StorageLocation, 'id' | 'createdAt'>;
+
+export interface LocationNode {
+  location: StorageLocation;
+  depth: number;
+}
+
+// A prize's items kept directly at one location
+export interface LocationContent {
+  prize: Prize;
+  quantity: number;
+}
+
+// A location can only be put inside a larger kind: boxes on shelves or in rooms, shelves in rooms
+const kindRank: Record<LocationKind, number> = { room: 0, shelf: 1, box: 2 };
+
+export const createLocation = (fields: LocationFields): StorageLocation => ({
+  ...fields,
+  id: `loc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: new Date().toISOString(),
+});
+
+// Parents before their children, siblings by kind and name
+export const locationTree = (locations: StorageLocation[]): LocationNode[] => {
+  const ids = new Set(locations.map(l => l.id));
+  const children = new Map<string, StorageLocation[]>();
+  locations.forEach(l => {
+    // Locations whose parent is gone are shown at the top level
+    const parentId = l.parentId && ids.has(l.parentId) ? l.parentId : '';
+    children.set(parentId, [...(children.get(parentId) || []), l]);
+  });
+  const nodes: LocationNode[] = [];
+  const visit = (parentId: string, depth: number) => {
+    (children.get(parentId) || [])
+      .sort((a, b) => kindRank[a.kind] - kindRank[b.kind] || a.name.localeCompare(b.name, 'ja'))
+      .forEach(location => {
+        nodes.push({ location, depth });
+        visit(location.id, depth + 1);
+      });
+  };
+  visit('', 0);
+  return nodes;
+};
+
+// The location and every location it is inside, innermost first
+const withAncestors = (byId: Map<string, StorageLocation>, locationId: string): StorageLocation[] => {
+  const chain: StorageLocation[] = [];
+  const seen = new Set<string>();
+  for (let l = byId.get(locationId); l && !seen.has(l.id); l = l.parentId ? byId.get(l.parentId) : undefined) {
+    seen.add(l.id);
+    chain.push(l);
+  }
+  return chain;
+};
+
+// "リビング › 本棚 › 箱A" per location id
+export const locationPaths = (locations: StorageLocation[]): Record<string, string> => {
+  const byId = new Map(locations.map(l => [l.id, l]));
+  return Object.fromEntries(locations.map(location => [
+    location.id,
+    withAncestors(byId, location.id).map(l => l.name).reverse().join(' › '),
+  ]));
+};
+
+// The location and everything inside it
+export const locationWithDescendants = (locations: StorageLocation[], locationId: string): Set<string> => {
+  const ids = new Set([locationId]);
+  let added = true;
+  while (added) {
+    added = false;
+    locations.forEach(l => {
+      if (l.parentId && ids.has(l.parentId) && !ids.has(l.id)) {
+        ids.add(l.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+export const parentChoices = (locations: StorageLocation[], kind: LocationKind): StorageLocation[] =>
+  locationTree(locations).map(node => node.location).filter(l => kindRank[l.kind] < kindRank[kind]);
+
+export const validateLocation = (locations: StorageLocation[], fields: LocationFields, locationId?: string): string | null => {
+  if (!fields.name) return '名前を入力してください';
+  const parent = fields.parentId ? locations.find(l => l.id === fields.parentId) : undefined;
+  if (fields.parentId && !parent) return '入れ先の保管場所が見つかりません';
+  if (parent && kindRank[parent.kind] >= kindRank[fields.kind]) {
+    return `${locationKindLabels[parent.kind]}の中に${locationKindLabels[fields.kind]}は置けません`;
+  }
+  const child = locationId && locations.find(l => l.parentId === locationId && kindRank[l.kind] <= kindRank[fields.kind]);
+  if (child) return `中に${locationKindLabels[child.kind]}「${child.name}」があるため${locationKindLabels[fields.kind]}にはできません`;
+  if (fields.capacity !== undefined && (!Number.isInteger(fields.capacity) || fields.capacity <= 0)) {
+    return '容量は1以上の整数で入力してください';
+  }
+  if (locations.some(l => l.id !== locationId && l.name === fields.name && (l.parentId || '') === (fields.parentId || ''))) {
+    return `「${fields.name}」は同じ場所に既にあります`;
+  }
+  return null;
+};
+
+export const placedQuantity = (prize: Prize): number =>
+  (prize.placements || []).reduce((sum, p) => sum + p.quantity, 0);
+
+export const unplacedQuantity = (prize: Prize): number => Math.max(0, prize.quantity - placedQuantity(prize));
+
+// "リビング › 本棚 ×2、押入れ ×1（未配置 1）"; null when nothing is placed
+export const describePlacements = (prize: Prize, paths: Record<string, string>): string | null => {
+  const placements = (prize.placements || []).filter(p => paths[p.locationId]);
+  if (placements.length === 0) return null;
+  const unplaced = unplacedQuantity(prize);
+  const showCounts = placements.length > 1 || unplaced > 0;
+  const text = placements.map(p => (showCounts ? `${paths[p.locationId]} ×${p.quantity}` : paths[p.locationId])).join('、');
+  return unplaced > 0 ? `${text}（未配置 ${unplaced}）` : text;
+};
+
+// Items placed directly at each location id
+export const contentsByLocation = (prizes: Prize[]): Map<string, LocationContent[]> => {
+  const contents = new Map<string, LocationContent[]>();
+  prizes.forEach(prize => prize.placements?.forEach(({ locationId, quantity }) => {
+    contents.set(locationId, [...(contents.get(locationId) || []), { prize, quantity }]);
+  }));
+  return contents;
+};
+
+// Items in each location including its sub-locations, which is what its capacity is compared with
+export const locationOccupancy = (locations: StorageLocation[], prizes: Prize[]): Map<string, number> => {
+  const byId = new Map(locations.map(l => [l.id, l]));
+  const totals = new Map<string, number>();
+  prizes.forEach(prize => prize.placements?.forEach(({ locationId, quantity }) => {
+    withAncestors(byId, locationId).forEach(l => totals.set(l.id, (totals.get(l.id) || 0) + quantity));
+  }));
+  return totals;
+};
+
+// The location, or one it is inside, whose capacity moving `count` items in from `fromId` would exceed.
+// Locations that already hold the items (a shelf when moving from its box) are not affected.
+export const exceededCapacity = (
+  locations: StorageLocation[],
+  occupancy: Map<string, number>,
+  fromId: string | null,
+  toId: string,
+  count: number
+): StorageLocation | undefined => {
+  const byId = new Map(locations.map(l => [l.id, l]));
+  const holding = new Set(fromId ? withAncestors(byId, fromId).map(l => l.id) : []);
+  return withAncestors(byId, toId).find(l =>
+    !holding.has(l.id) && l.capacity !== undefined && (occupancy.get(l.id) || 0) + count > l.capacity
+  );
+};
+
+// Merges rows for the same location and drops empty ones; undefined when nothing is placed
+export const cleanPlacements = (placements: Placement[]): Placement[] | undefined => {
+  const totals = new Map<string, number>();
+  placements.forEach(p => {
+    if (p.locationId && p.quantity > 0) totals.set(p.locationId, (totals.get(p.locationId) || 0) + p.quantity);
+  });
+  return totals.size > 0 ? Array.from(totals, ([locationId, quantity]) => ({ locationId, quantity })) : undefined;
+};
+
+// Shrinks placements that add up to more than the prize's quantity after stock went down,
+// and drops those at locations that no longer exist.
+// Items taken out are assumed to come from the most recently added placements.
+const fitPlacements = (prize: Prize, locationIds: Set<string>): Prize => {
+  if (!prize.placements) return prize;
+  const placements = prize.placements.filter(p => locationIds.has(p.locationId));
+  let excess = placements.reduce((sum, p) => sum + p.quantity, 0) - prize.quantity;
+  if (excess <= 0 && placements.length === prize.placements.length && placements.length > 0 && placements.every(p => p.quantity > 0)) {
+    return prize;
+  }
+  const fitted: Placement[] = [];
+  for (let i = placements.length - 1; i >= 0; i--) {
+    const removed = Math.min(Math.max(excess, 0), placements[i].quantity);
+    excess -= removed;
+    if (placements[i].quantity > removed) fitted.unshift(removed > 0 ? { ...placements[i], quantity: placements[i].quantity - removed } : placements[i]);
+  }
+  return { ...prize, placements: fitted.length > 0 ? fitted : undefined };
+};
+
+export const fitAllPlacements = (inventory: Inventory): Inventory => {
+  const locationIds = new Set(inventory.locations.map(l => l.id));
+  let changed = false;
+  const prizes = inventory.prizes.map(prize => {
+    const fitted = fitPlacements(prize, locationIds);
+    if (fitted !== prize) changed = true;
+    return fitted;
+  });
+  return changed ? { ...inventory, prizes } : inventory;
+};
+
+// Moves up to `quantity` items of a prize; null stands for 未配置 on either side
+export const movePrizeItems = (prize: Prize, fromId: string | null, toId: string | null, quantity: number): Prize => {
+  const available = fromId === null
+    ? unplacedQuantity(prize)
+    : prize.placements?.find(p => p.locationId === fromId)?.quantity || 0;
+  const count = Math.min(quantity, available);
+  if (count <= 0 || fromId === toId) return prize;
+  const placements = (prize.placements || []).map(p => (p.locationId === fromId ? { ...p, quantity: p.quantity - count } : p));
+  if (toId !== null) placements.push({ locationId: toId, quantity: count });
+  return { ...prize, placements: cleanPlacements(placements), updatedAt: new Date().toISOString() };
+};
+
+// Locations from a backup this device does not have yet. Ids are random, so a shared id means the same place.
+export const mergeLocations = (local: StorageLocation[], incoming: StorageLocation[]): StorageLocation[] => {
+  const localIds = new Set(local.map(l => l.id));
+  const added = incoming.filter(l => !localIds.has(l.id));
+  return added.length > 0 ? [...local, ...added] : local;
+};
+
+// Deletes the location; what was inside moves up to its parent and its items become unplaced
+export const removeLocation = (inventory: Inventory, locationId: string): Inventory => {
+  const location = inventory.locations.find(l => l.id === locationId);
+  if (!location) return inventory;
+  const now = new Date().toISOString();
+  return {
+    ...inventory,
+    locations: inventory.locations
+      .filter(l => l.id !== locationId)
+      .map(l => (l.parentId === locationId ? { ...l, parentId: location.parentId } : l)),
+    prizes: inventory.prizes.map(p =>
+      p.placements?.some(pl => pl.locationId === locationId)
+        ? { ...p, placements: cleanPlacements(p.placements.filter(pl => pl.locationId !== locationId)), updatedAt: now }
+        : p
+    ),
+  };
+};
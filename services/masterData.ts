@@ -0,0 +1,127 @@
+import { Inventory, MasterItem, MasterKind, Prize } from '../types';
+import { NO_MANUFACTURER, defaultCategories, defaultManufacturers, masterColorPalette } from '../constants';
+
+export const masterKindLabels: Record<MasterKind, string> = {
+  category: 'カテゴリ',
+  manufacturer: 'メーカー',
+};
+
+// Names that cannot be used for an item: filter sentinels and the "no maker" value
+export const reservedMasterNames = ['すべて', NO_MANUFACTURER];
+
+export const createMasterItem = (kind: MasterKind, name: string, order: number, color?: string): MasterItem => ({
+  id: `mst_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  name,
+  color: color || masterColorPalette[order % masterColorPalette.length],
+  order,
+});
+
+// Fixed ids so installs seeded separately still line up when backups are merged
+export const defaultMasterItems = (): MasterItem[] => [
+  ...defaultCategories.map((name, i) => ({ ...createMasterItem('category', name, i), id: `category_default_${i}` })),
+  ...defaultManufacturers.map((name, i) => ({ ...createMasterItem('manufacturer', name, i), id: `manufacturer_default_${i}` })),
+];
+
+export const masterItemsOf = (masters: MasterItem[], kind: MasterKind, includeArchived = false): MasterItem[] =>
+  masters
+    .filter(m => m.kind === kind && (includeArchived || !m.archived))
+    .sort((a, b) => a.order - b.order);
+
+export const masterNamesOf = (masters: MasterItem[], kind: MasterKind, includeArchived = false): string[] =>
+  masterItemsOf(masters, kind, includeArchived).map(m => m.name);
+
+// Names offered for a prize's field: archived items only when the prize already uses them
+export const masterChoices = (items: MasterItem[], current: string): string[] => {
+  const names = items.filter(m => !m.archived || m.name === current).map(m => m.name);
+  return current && !names.includes(current) ? [...names, current] : names;
+};
+
+export const masterColors = (masters: MasterItem[], kind: MasterKind): Record<string, string> =>
+  Object.fromEntries(masters.filter(m => m.kind === kind).map(m => [m.name, m.color]));
+
+const prizeValue = (prize: Prize, kind: MasterKind): string =>
+  kind === 'category' ? prize.category : prize.manufacturer || NO_MANUFACTURER;
+
+export const countMasterUsage = (prizes: Prize[], kind: MasterKind): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  prizes.forEach(p => {
+    const value = prizeValue(p, kind);
+    counts[value] = (counts[value] || 0) + 1;
+  });
+  return counts;
+};
+
+// Imports can bring names this device has never seen; they get an item so
+// every value shown on a prize can be edited. Returns `masters` unchanged when nothing is missing.
+export const withMissingMasterItems = (masters: MasterItem[], prizes: Prize[]): MasterItem[] => {
+  const added: MasterItem[] = [];
+  (['category', 'manufacturer'] as MasterKind[]).forEach(kind => {
+    const known = new Set(masters.filter(m => m.kind === kind).map(m => m.name));
+    let order = masters.filter(m => m.kind === kind).reduce((max, m) => Math.max(max, m.order + 1), 0);
+    prizes.forEach(p => {
+      const name = prizeValue(p, kind);
+      if (known.has(name) || reservedMasterNames.includes(name)) return;
+      known.add(name);
+      added.push(createMasterItem(kind, name, order++));
+    });
+  });
+  return added.length > 0 ? [...masters, ...added] : masters;
+};
+
+export const ensureMasterItems = (inventory: Inventory): Inventory => {
+  const masters = withMissingMasterItems(inventory.masters, inventory.prizes);
+  return masters === inventory.masters ? inventory : { ...inventory, masters };
+};
+
+// Items from a backup whose name this device does not have yet
+export const mergeMasterItems = (local: MasterItem[], incoming: MasterItem[]): MasterItem[] => {
+  const known = new Set(local.map(m => `${m.kind}\u0000${m.name}`));
+  const localIds = new Set(local.map(m => m.id));
+  const added = incoming
+    .filter(m => !known.has(`${m.kind}\u0000${m.name}`))
+    .map(m => (localIds.has(m.id) ? { ...m, id: createMasterItem(m.kind, m.name, m.order).id } : m));
+  return added.length > 0 ? [...local, ...added] : local;
+};
+
+// Renames the item and rewrites every prize that uses the old name
+export const renameMasterItem = (inventory: Inventory, itemId: string, newName: string): Inventory => {
+  const item = inventory.masters.find(m => m.id === itemId);
+  if (!item || item.name === newName) return inventory;
+  const now = new Date().toISOString();
+  return {
+    ...inventory,
+    masters: inventory.masters.map(m => (m.id === itemId ? { ...m, name: newName } : m)),
+    prizes: inventory.prizes.map(p => {
+      if (prizeValue(p, item.kind) !== item.name) return p;
+      return item.kind === 'category'
+        ? { ...p, category: newName, updatedAt: now }
+        : { ...p, manufacturer: newName, updatedAt: now };
+    }),
+  };
+};
+
+// Swaps the item with its neighbour in the given direction
+export const moveMasterItem = (masters: MasterItem[], itemId: string, direction: -1 | 1): MasterItem[] => {
+  const item = masters.find(m => m.id === itemId);
+  if (!item) return masters;
+  const siblings = masterItemsOf(masters, item.kind, true);
+  const index = siblings.findIndex(m => m.id === itemId);
+  const neighbour = siblings[index + direction];
+  if (!neighbour) return masters;
+  // Orders are renumbered so items that share a number still move
+  const reordered = [...siblings];
+  reordered[index] = neighbour;
+  reordered[index + direction] = item;
+  const newOrder = new Map(reordered.map((m, i) => [m.id, i]));
+  return masters.map(m => (newOrder.has(m.id) && newOrder.get(m.id) !== m.order ? { ...m, order: newOrder.get(m.id)! } : m));
+};
+
+export const validateMasterName = (masters: MasterItem[], kind: MasterKind, name: string, itemId?: string): string | null => {
+  if (!name) return '名前を入力してください';
+  if (reservedMasterNames.includes(name)) return `「${name}」は使用できません`;
+  if (masters.some(m => m.kind === kind && m.name === name && m.id !== itemId)) {
+    return `${masterKindLabels[kind]}「${name}」は既にあります`;
+  }
+  return null;
+};
@@ -0,0 +1,157 @@
+import { Prize, StockMovement } from '../types';
+import { formatYen } from './costs';
+import { prizePhotoIds } from './photos';
+
+export type MergeChoice = 'local' | 'incoming';
+
+export type ComparedField = 'name' | 'quantity' | 'acquisitionDate' | 'category' | 'manufacturer' | 'notes' | 'barcode' | 'tags' | 'cost' | 'photo';
+
+export const comparedFieldLabels: Record<ComparedField, string> = {
+  name: '景品名',
+  quantity: '数量',
+  acquisitionDate: '獲得日',
+  category: 'カテゴリ',
+  manufacturer: 'メーカー',
+  notes: '備考',
+  barcode: 'JANコード',
+  tags: 'タグ',
+  cost: 'プレイ費用',
+  photo: '写真',
+};
+
+export interface PrizeConflict {
+  local: Prize;
+  incoming: Prize;
+  changedFields: ComparedField[];
+  matchedBy: 'id' | 'name';
+}
+
+export interface MergePlan {
+  added: Prize[]; // Only in the incoming file
+  conflicts: PrizeConflict[]; // In both, with differences
+  unchangedCount: number;
+  localOnly: Prize[]; // Only on this device
+}
+
+export interface MergeOptions {
+  matchByName: boolean;
+}
+
+const nameKey = (prize: Prize): string =>
+  `${prize.name.trim().toLowerCase()}\u0000${prize.manufacturer || '指定なし'}`;
+
+// Photos are re-stored under new ids on import, so only their number is compared
+export const fieldValue = (prize: Prize, field: ComparedField): string => {
+  switch (field) {
+    case 'photo': {
+      const count = prizePhotoIds(prize).length;
+      return count > 0 ? `${count}枚` : 'なし';
+    }
+    case 'quantity':
+      return String(prize.quantity);
+    case 'manufacturer':
+      return prize.manufacturer || '指定なし';
+    case 'tags':
+      return (prize.tags || []).join('、');
+    case 'cost':
+      return prize.cost ? formatYen(prize.cost.total) : '';
+    default:
+      return (prize[field] || '').trim();
+  }
+};
+
+const comparedFields = Object.keys(comparedFieldLabels) as ComparedField[];
+
+export const buildMergePlan = (local: Prize[], incoming: Prize[], { matchByName }: MergeOptions): MergePlan => {
+  const localById = new Map(local.map(p => [p.id, p]));
+  const localByName = new Map<string, Prize>();
+  if (matchByName) local.forEach(p => { if (!localByName.has(nameKey(p))) localByName.set(nameKey(p), p); });
+
+  const matchedLocalIds = new Set<string>();
+  const added: Prize[] = [];
+  const conflicts: PrizeConflict[] = [];
+  let unchangedCount = 0;
+
+  incoming.forEach(prize => {
+    let match = localById.get(prize.id);
+    let matchedBy: PrizeConflict['matchedBy'] = 'id';
+    if (!match && matchByName) {
+      match = localByName.get(nameKey(prize));
+      matchedBy = 'name';
+    }
+    if (!match || matchedLocalIds.has(match.id)) {
+      added.push(prize);
+      return;
+    }
+    matchedLocalIds.add(match.id);
+    const changedFields = comparedFields.filter(f => fieldValue(match!, f) !== fieldValue(prize, f));
+    if (changedFields.length === 0) {
+      unchangedCount++;
+    } else {
+      conflicts.push({ local: match, incoming: prize, changedFields, matchedBy });
+    }
+  });
+
+  return {
+    added,
+    conflicts,
+    unchangedCount,
+    localOnly: local.filter(p => !matchedLocalIds.has(p.id)),
+  };
+};
+
+// Records from older versions have no updatedAt; their acquisition date is the best guess
+const lastModified = (prize: Prize): string => prize.updatedAt || prize.acquisitionDate || '';
+
+export const newestChoice = ({ local, incoming }: PrizeConflict): MergeChoice =>
+  lastModified(incoming) > lastModified(local) ? 'incoming' : 'local';
+
+export interface MergeResult {
+  prizes: Prize[];
+  // Incoming prize id -> id in the result, for every prize whose incoming values were taken
+  adoptedIds: Map<string, string>;
+}
+
+export const applyMergePlan = (
+  local: Prize[],
+  plan: MergePlan,
+  choices: Record<string, MergeChoice>, // Keyed by local prize id
+  removeLocalOnly: boolean
+): MergeResult => {
+  const replacements = new Map<string, Prize>();
+  const adoptedIds = new Map<string, string>();
+  plan.conflicts.forEach(conflict => {
+    if (choices[conflict.local.id] === 'incoming') {
+      // Keep the local id so the stock history stays attached
+      replacements.set(conflict.local.id, { ...conflict.incoming, id: conflict.local.id });
+      adoptedIds.set(conflict.incoming.id, conflict.local.id);
+    }
+  });
+  const removedIds = new Set(removeLocalOnly ? plan.localOnly.map(p => p.id) : []);
+  const existingIds = new Set(local.map(p => p.id));
+
+  const added = plan.added.map(p => {
+    // An added prize could still collide with a local id when it was matched by name elsewhere
+    const id = existingIds.has(p.id) ? `${p.id}_${Date.now().toString(36)}` : p.id;
+    adoptedIds.set(p.id, id);
+    return id === p.id ? p : { ...p, id };
+  });
+
+  return {
+    prizes: [...local.filter(p => !removedIds.has(p.id)).map(p => replacements.get(p.id) || p), ...added],
+    adoptedIds,
+  };
+};
+
+// Ledger entries from the file for the prizes whose incoming values were taken,
+// re-pointed at their ids in the result. Entries already on this device are skipped.
+export const adoptedMovements = (
+  localMovements: StockMovement[],
+  incomingMovements: StockMovement[],
+  { adoptedIds }: MergeResult
+): StockMovement[] => {
+  const localIds = new Set(localMovements.map(m => m.id));
+  return incomingMovements
+    .filter(m => adoptedIds.has(m.prizeId) && !localIds.has(m.id))
+    .map(m => ({ ...m, prizeId: adoptedIds.get(m.prizeId)! }));
+};
@@ -0,0 +1,46 @@
+import { DecodedImage } from './photos';
+
+// Crop area as fractions of the (rotated) picture, so it survives scaling the preview
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Quarter turns clockwise
+export type Rotation = 0 | 90 | 180 | 270;
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// Smallest crop side, so the handles cannot be dragged over each other
+export const MIN_CROP_SIZE = 0.1;
+
+export const isFullCrop = (crop: CropRect): boolean =>
+  crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+
+export const rotateBy = (rotation: Rotation, quarterTurns: 1 | -1): Rotation =>
+  ((rotation + quarterTurns * 90 + 360) % 360) as Rotation;
+
+// The same area of the picture after turning it a quarter clockwise (1) or counterclockwise (-1)
+export const rotateCrop = (crop: CropRect, quarterTurns: 1 | -1): CropRect =>
+  quarterTurns === 1
+    ? { x: 1 - crop.y - crop.height, y: crop.x, width: crop.height, height: crop.width }
+    : { x: crop.y, y: 1 - crop.x - crop.width, width: crop.height, height: crop.width };
+
+// Draws the cropped area of the rotated picture, `scale` times its pixel size
+export const drawEdited = (img: DecodedImage, rotation: Rotation, crop: CropRect, scale = 1): HTMLCanvasElement => {
+  const sideways = rotation === 90 || rotation === 270;
+  const rotatedWidth = (sideways ? img.height : img.width) * scale;
+  const rotatedHeight = (sideways ? img.width : img.height) * scale;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width * rotatedWidth));
+  canvas.height = Math.max(1, Math.round(crop.height * rotatedHeight));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.translate(-crop.x * rotatedWidth + rotatedWidth / 2, -crop.y * rotatedHeight + rotatedHeight / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(img, (-img.width * scale) / 2, (-img.height * scale) / 2, img.width * scale, img.height * scale);
+  return canvas;
+};
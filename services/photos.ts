@@ -0,0 +1,283 @@
+import { Prize, PhotoRecord } from '../types';
+import { StorageService } from './storage';
+import { SettingsService } from './settings';
+
+export type PhotoVariant = 'thumbnail' | 'full';
+
+const FULL_MAX_SIZE = 1280;
+const FULL_QUALITY = 0.8;
+const THUMBNAIL_MAX_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.7;
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+interface UrlCacheEntry {
+  refs: number;
+  url?: string;
+  promise: Promise<string | undefined>;
+}
+
+// Object URLs are shared between every component showing the same photo
+// and revoked once the last one lets go.
+const urlCache = new Map<string, UrlCacheEntry>();
+
+// How long a photo is kept after a cleanup first finds no prize referring to it. Another open tab
+// may have stored a photo for a prize it has not saved yet, so a photo is only deleted once it has
+// been an orphan for a while. When each was first found is kept in the settings under 'photo-orphans'.
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Photos never change under an id, so neither do their hashes
+const hashCache = new Map<string, Promise<string | null>>();
+
+// Decoded picture; both kinds can be drawn onto a canvas
+export type DecodedImage = HTMLImageElement | ImageBitmap;
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to decode image'));
+    };
+    img.src = url;
+  });
+};
+
+// Phone cameras store pictures as shot and note in EXIF how to turn them, which a canvas
+// may ignore when it redraws the image. createImageBitmap is asked to apply it explicitly;
+// browsers without it apply EXIF orientation when decoding through <img>.
+export const decodeUpright = async (blob: Blob): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+      // Formats createImageBitmap cannot read (e.g. SVG) still decode through <img>
+    }
+  }
+  return loadImage(blob);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, quality = FULL_QUALITY): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+
+const scaleToBlob = (img: DecodedImage, maxSize: number, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    const ctx = canvas.getContext('2d');
+    ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    canvasToBlob(canvas, quality).then(resolve, reject);
+  });
+};
+
+// Difference hash: each of the 64 bits tells whether a pixel of a 9×8 grayscale copy is brighter
+// than its right neighbour, so resized or recompressed copies of a picture get (nearly) the same bits
+const differenceHash = (img: DecodedImage): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export class PhotoService {
+  // Turns the picked image upright, resizes it, generates its thumbnail and stores both.
+  // Returns the id to reference from Prize.photoIds.
+  static async savePhoto(source: Blob): Promise<string> {
+    const img = await decodeUpright(source);
+    const [blob, thumbnail] = await Promise.all([
+      scaleToBlob(img, FULL_MAX_SIZE, FULL_QUALITY),
+      scaleToBlob(img, THUMBNAIL_MAX_SIZE, THUMBNAIL_QUALITY),
+    ]);
+    const record: PhotoRecord = {
+      id: `photo_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      blob,
+      thumbnail,
+      hash: differenceHash(img),
+      createdAt: new Date().toISOString(),
+    };
+    await StorageService.putPhoto(record);
+    return record.id;
+  }
+
+  // Stores a photo made on another device under the id it has there. The full-size image
+  // is already scaled, so only the thumbnail is made here.
+  static async saveReceivedPhoto(photo: Omit<PhotoRecord, 'thumbnail'>): Promise<void> {
+    const img = await decodeUpright(photo.blob);
+    const thumbnail = await scaleToBlob(img, THUMBNAIL_MAX_SIZE, THUMBNAIL_QUALITY);
+    await StorageService.putPhoto({ ...photo, thumbnail, hash: photo.hash || differenceHash(img) });
+  }
+
+  // 16 hex digits; computed and stored on first use for photos saved without one.
+  // null when the photo is missing or cannot be decoded.
+  static perceptualHash(photoId: string): Promise<string | null> {
+    let hash = hashCache.get(photoId);
+    if (!hash) {
+      hash = (async () => {
+        const record = await StorageService.getPhoto(photoId);
+        if (!record) return null;
+        if (record.hash) return record.hash;
+        const computed = differenceHash(await loadImage(record.thumbnail));
+        await StorageService.putPhoto({ ...record, hash: computed });
+        return computed;
+      })().catch(error => {
+        console.warn(`Could not hash photo ${photoId}`, error);
+        return null;
+      });
+      hashCache.set(photoId, hash);
+    }
+    return hash;
+  }
+
+  // Hashes of many photos: the stored ones are read in one go and only photos saved
+  // before hashes existed are decoded, one at a time
+  static async perceptualHashes(photoIds: string[]): Promise<Map<string, string | null>> {
+    const unique = Array.from(new Set(photoIds));
+    const uncached = unique.filter(id => !hashCache.has(id));
+    const records = await StorageService.getPhotos(uncached);
+    records.forEach((record, i) => {
+      if (record?.hash) hashCache.set(uncached[i], Promise.resolve(record.hash));
+    });
+    const hashes = new Map<string, string | null>();
+    for (const photoId of unique) hashes.set(photoId, await this.perceptualHash(photoId));
+    return hashes;
+  }
+
+  static async acquireUrl(photoId: string, variant: PhotoVariant): Promise<string | undefined> {
+    const key = `${variant}:${photoId}`;
+    let entry = urlCache.get(key);
+    if (!entry) {
+      const newEntry: UrlCacheEntry = {
+        refs: 0,
+        promise: StorageService.getPhoto(photoId).then(record => {
+          if (!record) return undefined;
+          const url = URL.createObjectURL(variant === 'full' ? record.blob : record.thumbnail);
+          // Everybody may have released it while the record was loading
+          if (newEntry.refs === 0) {
+            URL.revokeObjectURL(url);
+            return undefined;
+          }
+          newEntry.url = url;
+          return url;
+        }),
+      };
+      entry = newEntry;
+      urlCache.set(key, entry);
+    }
+    entry.refs += 1;
+    return entry.promise;
+  }
+
+  static releaseUrl(photoId: string, variant: PhotoVariant): void {
+    const key = `${variant}:${photoId}`;
+    const entry = urlCache.get(key);
+    if (!entry) return;
+    entry.refs -= 1;
+    if (entry.refs > 0) return;
+    if (entry.url) URL.revokeObjectURL(entry.url);
+    urlCache.delete(key);
+  }
+
+  // The full-size photo, decoded for editing
+  static async decodePhoto(photoId: string): Promise<DecodedImage | undefined> {
+    const record = await StorageService.getPhoto(photoId);
+    return record ? decodeUpright(record.blob) : undefined;
+  }
+
+  // Moves inline data URLs (`photos`, legacy `photo`) into the photo store and a legacy
+  // single `photoId` into the gallery. Returns the prize list with only `photoIds` left.
+  static async extractInlinePhotos(prizes: Prize[]): Promise<Prize[]> {
+    if (!prizes.some(p => p.photo || p.photos || p.photoId)) return prizes;
+    const result: Prize[] = [];
+    for (const prize of prizes) {
+      if (!prize.photo && !prize.photos && !prize.photoId) {
+        result.push(prize);
+        continue;
+      }
+      const { photo, photos, photoId, ...rest } = prize;
+      const photoIds = [...(rest.photoIds || []), ...(photoId ? [photoId] : [])];
+      for (const dataUrl of photos || (photo ? [photo] : [])) {
+        try {
+          const blob = await (await fetch(dataUrl)).blob();
+          photoIds.push(await this.savePhoto(blob));
+        } catch (error) {
+          console.error(`Failed to convert photo of "${prize.name}"`, error);
+        }
+      }
+      result.push({ ...rest, photoIds: photoIds.length > 0 ? Array.from(new Set(photoIds)) : undefined });
+    }
+    return result;
+  }
+
+  // Inlines the full-size photos as data URLs so a JSON backup is self-contained
+  static async inlinePhotos(prizes: Prize[]): Promise<Prize[]> {
+    return Promise.all(prizes.map(async prize => {
+      const ids = prizePhotoIds(prize);
+      if (ids.length === 0) return prize;
+      const { photoIds: _photoIds, photoId: _photoId, ...rest } = prize;
+      const records = await Promise.all(ids.map(id => StorageService.getPhoto(id)));
+      const photos = await Promise.all(records.flatMap(record => (record ? [blobToDataUrl(record.blob)] : [])));
+      return photos.length > 0 ? { ...rest, photos } : rest;
+    }));
+  }
+
+  // Deletes stored photos that no prize has referred to for ORPHAN_GRACE_MS. Photos that are
+  // referred to again are forgotten as orphans, so their time starts over if they lose it again.
+  static async removeOrphans(prizes: Prize[]): Promise<void> {
+    const referenced = new Set(prizes.flatMap(prizePhotoIds));
+    const orphanIds = (await StorageService.getPhotoIds()).filter(id => !referenced.has(id));
+    const foundAt = SettingsService.get<Record<string, string>>('photo-orphans', {});
+    const now = new Date();
+    const cutoff = now.getTime() - ORPHAN_GRACE_MS;
+    const stale: string[] = [];
+    const pending: Record<string, string> = {};
+    orphanIds.forEach(id => {
+      const since = foundAt[id] || now.toISOString();
+      if (Date.parse(since) < cutoff) stale.push(id);
+      else pending[id] = since;
+    });
+    await StorageService.deletePhotos(stale);
+    SettingsService.set('photo-orphans', pending);
+  }
+}
+
+// Every photo of a prize in gallery order, including a single one stored before galleries
+export const prizePhotoIds = (prize: Prize): string[] =>
+  prize.photoIds || (prize.photoId ? [prize.photoId] : []);
+
+export const coverPhotoId = (prize: Prize): string | undefined => prizePhotoIds(prize)[0];
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
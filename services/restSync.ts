@@ -0,0 +1,49 @@
+import { PullResult, PushResult, SyncAdapter, SyncError, SyncRecord } from './sync';
+
+// Talks to server/sync-server.mjs, or anything else with the same two endpoints:
+//   GET  /changes?since=<cursor>  -> { records, cursor, hasMore }
+//   POST /changes  { records }    -> { rejected }
+export class RestSyncAdapter implements SyncAdapter {
+  private readonly baseUrl: string;
+  private readonly token: string;
+
+  constructor(baseUrl: string, token: string) {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+    this.token = token.trim();
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        },
+      });
+    } catch {
+      throw new SyncError('同期サーバーに接続できません。');
+    }
+    if (response.status === 401) throw new SyncError('同期サーバーの認証に失敗しました。トークンを確認してください。');
+    if (!response.ok) throw new SyncError(`同期サーバーでエラーが発生しました (${response.status})。`);
+    try {
+      return await response.json();
+    } catch {
+      throw new SyncError('同期サーバーの応答を読み取れません。');
+    }
+  }
+
+  async push(records: SyncRecord[]): Promise<PushResult> {
+    const result = await this.request<Partial<PushResult>>('/changes', { method: 'POST', body: JSON.stringify({ records }) });
+    return { rejected: Array.isArray(result.rejected) ? result.rejected : [] };
+  }
+
+  async pull(cursor: string | null): Promise<PullResult> {
+    const result = await this.request<Partial<PullResult>>(`/changes?since=${encodeURIComponent(cursor || '0')}`);
+    if (!Array.isArray(result.records) || typeof result.cursor !== 'string') {
+      throw new SyncError('同期サーバーの応答の形式が不正です。');
+    }
+    return { records: result.records, cursor: result.cursor, hasMore: !!result.hasMore };
+  }
+}
@@ -0,0 +1,292 @@
+import { Prize } from '../types';
+
+export type SearchField = 'name' | 'notes' | 'manufacturer' | 'category' | 'barcode';
+
+export type MatchRange = [start: number, end: number]; // Indices into the original text, end exclusive
+export type MatchRanges = Partial<Record<SearchField, MatchRange[]>>;
+
+export interface SearchTerm {
+  field: SearchField | null; // null searches every field
+  text: string; // Normalized
+}
+
+const searchFields: SearchField[] = ['name', 'notes', 'manufacturer', 'category', 'barcode'];
+
+// Prefixes accepted in "field:value" terms
+const fieldAliases: Record<string, SearchField> = {
+  '名前': 'name',
+  '景品名': 'name',
+  'name': 'name',
+  '備考': 'notes',
+  'メモ': 'notes',
+  'notes': 'notes',
+  'note': 'notes',
+  'メーカー': 'manufacturer',
+  '会社': 'manufacturer',
+  'maker': 'manufacturer',
+  'manufacturer': 'manufacturer',
+  'カテゴリ': 'category',
+  'カテゴリー': 'category',
+  'category': 'category',
+  'jan': 'barcode',
+  'janコード': 'barcode',
+  'バーコード': 'barcode',
+  'barcode': 'barcode',
+};
+
+// --- Normalization --------------------------------------------------------------
+
+interface NormalizedText {
+  text: string;
+  // For each normalized character, the range of original characters it came from
+  starts: number[];
+  ends: number[];
+}
+
+const isHalfWidthSoundMark = (char: string) => char === 'ﾞ' || char === 'ﾟ';
+
+const toHiragana = (text: string): string =>
+  text.replace(/[ァ-ヶヽヾ]/g, c => String.fromCharCode(c.charCodeAt(0) - 0x60));
+
+// NFKC folds full-/half-width forms, then katakana is folded into hiragana and case is dropped
+const normalizeSegment = (segment: string): string => toHiragana(segment.normalize('NFKC').toLowerCase());
+
+export const normalizeForSearch = (text: string): string => normalizeWithPositions(text).text;
+
+// Normalizes piece by piece so match positions can be mapped back onto the original text
+const normalizeWithPositions = (original: string): NormalizedText => {
+  const chars = Array.from(original);
+  const result: NormalizedText = { text: '', starts: [], ends: [] };
+  let offset = 0;
+  for (let i = 0; i < chars.length; i++) {
+    let segment = chars[i];
+    // Half-width ｶﾞ is two characters that NFKC composes into one
+    while (i + 1 < chars.length && isHalfWidthSoundMark(chars[i + 1])) segment += chars[++i];
+    const normalized = normalizeSegment(segment);
+    for (let k = 0; k < normalized.length; k++) {
+      result.starts.push(offset);
+      result.ends.push(offset + segment.length);
+    }
+    result.text += normalized;
+    offset += segment.length;
+  }
+  return result;
+};
+
+// Prizes are immutable snapshots, so their normalized fields can be cached by identity
+const normalizedCache = new WeakMap<Prize, Record<SearchField, NormalizedText>>();
+
+const normalizedFields = (prize: Prize): Record<SearchField, NormalizedText> => {
+  let cached = normalizedCache.get(prize);
+  if (!cached) {
+    cached = {
+      name: normalizeWithPositions(prize.name),
+      notes: normalizeWithPositions(prize.notes || ''),
+      manufacturer: normalizeWithPositions(prize.manufacturer || ''),
+      category: normalizeWithPositions(prize.category),
+      barcode: normalizeWithPositions(prize.barcode || ''),
+    };
+    normalizedCache.set(prize, cached);
+  }
+  return cached;
+};
+
+// --- Query parsing ----------------------------------------------------------------
+
+// The query is normalized before it is split, so the aliases are too (メーカー -> めーかー)
+const normalizedAliases = new Map(Object.entries(fieldAliases).map(([alias, field]) => [normalizeForSearch(alias), field]));
+
+// Terms are separated by spaces; "quoted phrases" keep theirs, e.g. 備考:"ゲーセン 限定"
+export const parseSearchQuery = (input: string): SearchTerm[] => {
+  const tokens = normalizeForSearch(input).match(/(?:[^\s:"]+:)?"[^"]*"?|\S+/g) || [];
+  return tokens.flatMap(token => {
+    let field: SearchField | null = null;
+    let text = token;
+    const colon = token.indexOf(':');
+    if (colon > 0) {
+      const alias = normalizedAliases.get(token.slice(0, colon));
+      if (alias) {
+        field = alias;
+        text = token.slice(colon + 1);
+      }
+    }
+    text = text.replace(/^"|"$/g, '').trim();
+    return text ? [{ field, text }] : [];
+  });
+};
+
+// --- Matching ---------------------------------------------------------------------
+
+// Typos tolerated per term length; short terms must match exactly
+const maxTypos = (length: number): number => (length >= 7 ? 2 : length >= 4 ? 1 : 0);
+
+// Approximate substring search (Sellers): the best span of `text` within
+// `maxDistance` edits of `pattern`, or null.
+const fuzzyFind = (pattern: string, text: string, maxDistance: number): MatchRange | null => {
+  const m = pattern.length;
+  let costs = Array.from({ length: m + 1 }, (_, i) => i);
+  let starts = new Array<number>(m + 1).fill(0);
+  let best: { distance: number; range: MatchRange } | null = null;
+
+  for (let j = 1; j <= text.length; j++) {
+    const nextCosts = [0];
+    const nextStarts = [j];
+    for (let i = 1; i <= m; i++) {
+      const substitute = costs[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      const skipText = costs[i] + 1;
+      const skipPattern = nextCosts[i - 1] + 1;
+      if (substitute <= skipText && substitute <= skipPattern) {
+        nextCosts.push(substitute);
+        nextStarts.push(starts[i - 1]);
+      } else if (skipText <= skipPattern) {
+        nextCosts.push(skipText);
+        nextStarts.push(starts[i]);
+      } else {
+        nextCosts.push(skipPattern);
+        nextStarts.push(nextStarts[i - 1]);
+      }
+    }
+    costs = nextCosts;
+    starts = nextStarts;
+    if (costs[m] <= maxDistance && (!best || costs[m] < best.distance) && j > starts[m]) {
+      best = { distance: costs[m], range: [starts[m], j] };
+    }
+  }
+  return best?.range || null;
+};
+
+const findExact = (term: string, field: NormalizedText): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  let index = field.text.indexOf(term);
+  while (index !== -1) {
+    ranges.push([index, index + term.length]);
+    index = field.text.indexOf(term, index + term.length);
+  }
+  return ranges;
+};
+
+const findFuzzy = (term: string, field: NormalizedText): MatchRange[] => {
+  const typos = maxTypos(term.length);
+  const range = typos > 0 ? fuzzyFind(term, field.text, typos) : null;
+  return range ? [range] : [];
+};
+
+const toOriginal = (field: NormalizedText, ranges: MatchRange[]): MatchRange[] =>
+  ranges.map(([start, end]) => [field.starts[start], field.ends[end - 1]]);
+
+// Every term has to match somewhere; returns the matched ranges per field, or null.
+// Typos are only tolerated for terms that match no field exactly.
+export const matchPrize = (prize: Prize, terms: SearchTerm[]): MatchRanges | null => {
+  const fields = normalizedFields(prize);
+  const matches: MatchRanges = {};
+  for (const term of terms) {
+    const scope = term.field ? [term.field] : searchFields;
+    let found = false;
+    for (const find of [findExact, findFuzzy]) {
+      scope.forEach(field => {
+        const ranges = find(term.text, fields[field]);
+        if (ranges.length === 0) return;
+        matches[field] = [...(matches[field] || []), ...toOriginal(fields[field], ranges)];
+        found = true;
+      });
+      if (found) break;
+    }
+    if (!found) return null;
+  }
+  return matches;
+};
+
+// --- Index ------------------------------------------------------------------------
+
+// Every character and pair of adjacent characters in a prize's normalized fields
+const gramCache = new WeakMap<Prize, string[]>();
+
+const gramsOf = (prize: Prize): string[] => {
+  let cached = gramCache.get(prize);
+  if (!cached) {
+    const grams = new Set<string>();
+    Object.values(normalizedFields(prize)).forEach(({ text }) => {
+      for (let i = 0; i < text.length; i++) {
+        grams.add(text[i]);
+        if (i + 1 < text.length) grams.add(text.slice(i, i + 2));
+      }
+    });
+    cached = [...grams];
+    gramCache.set(prize, cached);
+  }
+  return cached;
+};
+
+export interface SearchIndex {
+  prizes: Prize[];
+  postings: Map<string, number[]>; // For each gram, the positions in `prizes` that contain it
+}
+
+export const buildSearchIndex = (prizes: Prize[]): SearchIndex => {
+  const postings = new Map<string, number[]>();
+  prizes.forEach((prize, position) => {
+    gramsOf(prize).forEach(gram => {
+      const list = postings.get(gram);
+      if (list) list.push(position);
+      else postings.set(gram, [position]);
+    });
+  });
+  return { prizes, postings };
+};
+
+// Positions of the prizes that may match `term`, or null when the index cannot rule any out.
+// A term of m characters found with k typos still has at least m - 1 - 2k of its pairs in the text.
+const candidatesFor = (index: SearchIndex, term: string): number[] | null => {
+  if (term.length === 1) return index.postings.get(term) || [];
+  const needed = term.length - 1 - 2 * maxTypos(term.length);
+  if (needed <= 0) return null;
+  const counts = new Uint16Array(index.prizes.length);
+  const candidates: number[] = [];
+  for (let i = 0; i + 1 < term.length; i++) {
+    (index.postings.get(term.slice(i, i + 2)) || []).forEach(position => {
+      if (++counts[position] === needed) candidates.push(position);
+    });
+  }
+  return candidates;
+};
+
+// The same results as running matchPrize over every prize, checking only those the index leaves
+export const searchPrizes = (index: SearchIndex, terms: SearchTerm[]): Map<string, MatchRanges> => {
+  let candidates: number[] | null = null;
+  for (const term of terms) {
+    const found = candidatesFor(index, term.text);
+    if (!found) continue;
+    if (candidates) {
+      const inBoth = new Set(found);
+      candidates = candidates.filter(position => inBoth.has(position));
+    } else {
+      candidates = found;
+    }
+    if (candidates.length === 0) break;
+  }
+  const matches = new Map<string, MatchRanges>();
+  (candidates ? candidates.map(position => index.prizes[position]) : index.prizes).forEach(prize => {
+    const ranges = matchPrize(prize, terms);
+    if (ranges) matches.set(prize.id, ranges);
+  });
+  return matches;
+};
+
+// A window of `text` around the first match, for places that cannot show the whole text
+export const snippetAround = (
+  text: string,
+  ranges: MatchRange[] | undefined,
+  radius = 20
+): { text: string; ranges: MatchRange[] } => {
+  if (!ranges || ranges.length === 0 || text.length <= radius * 2) return { text, ranges: ranges || [] };
+  const start = Math.max(0, ranges[0][0] - radius);
+  const end = Math.min(text.length, ranges[0][1] + radius);
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    text: prefix + text.slice(start, end) + (end < text.length ? '…' : ''),
+    ranges: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift]),
+  };
+};
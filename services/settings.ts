@@ -0,0 +1,22 @@
+// Small UI preferences kept in localStorage; inventory data lives in IndexedDB
+
+const SETTINGS_PREFIX = 'crane-stock-';
+
+export class SettingsService {
+  static get<T>(key: string, fallback: T): T {
+    try {
+      const data = localStorage.getItem(SETTINGS_PREFIX + key);
+      return data ? JSON.parse(data) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  static set<T>(key: string, value: T): void {
+    try {
+      localStorage.setItem(SETTINGS_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to store setting "${key}"`, error);
+    }
+  }
+}
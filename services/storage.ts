@@ -1,58 +1,456 @@
-
-import { Prize } from '../types';
+import { Arcade, Collection, Inventory, MasterItem, Prize, PhotoRecord, StockMovement, StorageLocation } from '../types';
+import { defaultMasterItems } from './masterData';
 
 const DB_NAME = 'CraneStockDB';
 const STORE_NAME = 'prizes';
-const DB_VERSION = 1;
+const PHOTO_STORE_NAME = 'photos';
+const MOVEMENT_STORE_NAME = 'movements';
+const DRAFT_STORE_NAME = 'drafts';
+const MASTER_STORE_NAME = 'masters';
+const ARCADE_STORE_NAME = 'arcades';
+const LOCATION_STORE_NAME = 'locations';
+const COLLECTION_STORE_NAME = 'collections';
+const OUTBOX_STORE_NAME = 'outbox';
+const DB_VERSION = 10;
+
+// Single record in the draft store holding unsaved edits
+const PENDING_DRAFT_KEY = 'pending';
+
+// Key of the single-array record used by schema v1
+const LEGACY_INVENTORY_KEY = 'current_inventory';
+
+export interface RecordChanges<T> {
+  upserts: T[];
+  deletedIds: string[];
+}
+
+export type PrizeChanges = RecordChanges<Prize>;
+
+export interface InventoryChanges {
+  prizes: PrizeChanges;
+  movements: RecordChanges<StockMovement>;
+  masters?: RecordChanges<MasterItem>; // Missing in journals written before master data existed
+  arcades?: RecordChanges<Arcade>; // Likewise for the arcade registry
+  locations?: RecordChanges<StorageLocation>; // And for storage locations
+  collections?: RecordChanges<Collection>; // And for collections
+}
+
+const noChanges = <T>(): RecordChanges<T> => ({ upserts: [], deletedIds: [] });
+
+export type InventoryStore = keyof Inventory;
+
+// A record saved on this device that the sync server has not received yet.
+// One entry per record: later saves overwrite it, so only the latest state is sent.
+export interface OutboxEntry {
+  key: string; // "<store>:<id>"
+  store: InventoryStore;
+  id: string;
+  changedAt: string;
+  deleted: boolean;
+}
+
+// Recovery journal: edits made since the last save, relative to the stored inventory
+export interface RecoveryDraft {
+  changes: InventoryChanges;
+  updatedAt: string;
+}
 
 export class StorageService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
   private static openDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME);
+        const db = request.result;
+        const transaction = request.transaction!;
+
+        if (event.oldVersion < 2) {
+          this.upgradeToV2(db, transaction);
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(PHOTO_STORE_NAME, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          const movementStore = db.createObjectStore(MOVEMENT_STORE_NAME, { keyPath: 'id' });
+          movementStore.createIndex('prizeId', 'prizeId', { unique: false });
+          movementStore.createIndex('date', 'date', { unique: false });
+        }
+        if (event.oldVersion < 5) {
+          db.createObjectStore(DRAFT_STORE_NAME);
+        }
+        if (event.oldVersion < 6) {
+          // Categories and manufacturers used to be fixed lists; start from those
+          const masterStore = db.createObjectStore(MASTER_STORE_NAME, { keyPath: 'id' });
+          defaultMasterItems().forEach(item => masterStore.put(item));
+        }
+        if (event.oldVersion < 7) {
+          db.createObjectStore(ARCADE_STORE_NAME, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 8) {
+          db.createObjectStore(LOCATION_STORE_NAME, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 9) {
+          // Existing prizes have no collectionId; the default collection is added for them on load
+          db.createObjectStore(COLLECTION_STORE_NAME, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 10) {
+          // Starts empty: the first sync sends everything
+          db.createObjectStore(OUTBOX_STORE_NAME, { keyPath: 'key' });
         }
       };
 
-      request.onsuccess = (event) => {
-        resolve((event.target as IDBOpenDBRequest).result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
       };
 
-      request.onerror = (event) => {
-        reject((event.target as IDBOpenDBRequest).error);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
       };
     });
+
+    return this.dbPromise;
   }
 
-  static async savePrizes(prizes: Prize[]): Promise<void> {
+  // v1 kept every prize in one array under 'current_inventory'.
+  // v2 stores each prize as its own record keyed by id.
+  private static upgradeToV2(db: IDBDatabase, transaction: IDBTransaction): void {
+    const createPrizeStore = () => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('category', 'category', { unique: false });
+      store.createIndex('manufacturer', 'manufacturer', { unique: false });
+      store.createIndex('acquisitionDate', 'acquisitionDate', { unique: false });
+      return store;
+    };
+
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      createPrizeStore();
+      return;
+    }
+
+    const legacyRequest = transaction.objectStore(STORE_NAME).get(LEGACY_INVENTORY_KEY);
+    legacyRequest.onsuccess = () => {
+      const legacyPrizes: Prize[] = Array.isArray(legacyRequest.result) ? legacyRequest.result : [];
+      db.deleteObjectStore(STORE_NAME);
+      const store = createPrizeStore();
+      legacyPrizes.forEach(prize => {
+        if (prize && prize.id) store.put(prize);
+      });
+    };
+  }
+
+  private static async runTransactionOn(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => void
+  ): Promise<void> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      work(transaction);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private static async runTransaction(
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => void,
+    storeName: string = STORE_NAME
+  ): Promise<void> {
+    return this.runTransactionOn([storeName], mode, transaction => {
+      work(transaction.objectStore(storeName));
+    });
+  }
+
+  private static async getAllRecords<T>(storeName: string): Promise<T[]> {
     const db = await this.openDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(prizes, 'current_inventory');
+      const transaction = db.transaction(storeName, 'readonly');
+      const request = transaction.objectStore(storeName).getAll();
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => resolve(request.result || []);
       request.onerror = () => reject(request.error);
     });
   }
 
+  private static writeChanges<T>(store: IDBObjectStore, { upserts, deletedIds }: RecordChanges<T>): void {
+    upserts.forEach(record => store.put(record));
+    deletedIds.forEach(id => store.delete(id));
+  }
+
+  private static queueChanges<T extends { id: string }>(
+    outbox: IDBObjectStore,
+    store: InventoryStore,
+    { upserts, deletedIds }: RecordChanges<T>,
+    changedAt: string
+  ): void {
+    const put = (id: string, deleted: boolean) => outbox.put({ key: `${store}:${id}`, store, id, changedAt, deleted } as OutboxEntry);
+    upserts.forEach(record => put(record.id, false));
+    deletedIds.forEach(id => put(id, true));
+  }
+
+  // Replaces the whole inventory. Use for imports and clear-all.
+  static async savePrizes(prizes: Prize[]): Promise<void> {
+    return this.runTransaction('readwrite', store => {
+      store.clear();
+      prizes.forEach(prize => store.put(prize));
+    });
+  }
+
+  // Writes only the records that changed since the last save
+  static async applyChanges(changes: PrizeChanges): Promise<void> {
+    if (changes.upserts.length === 0 && changes.deletedIds.length === 0) return;
+    return this.runTransaction('readwrite', store => {
+      this.writeChanges(store, changes);
+    });
+  }
+
+  // Every collection is committed together so the history never disagrees with the stored
+  // quantities, nor prizes with renamed categories, deleted stores, locations or collections.
+  // The changes are also queued for sync, except those that came from the sync server (queue: false).
+  static async saveInventoryChanges({
+    prizes,
+    movements,
+    masters = noChanges(),
+    arcades = noChanges(),
+    locations = noChanges(),
+    collections = noChanges(),
+  }: InventoryChanges, { queue = true }: { queue?: boolean } = {}): Promise<void> {
+    const storeNames = [STORE_NAME, MOVEMENT_STORE_NAME, MASTER_STORE_NAME, ARCADE_STORE_NAME, LOCATION_STORE_NAME, COLLECTION_STORE_NAME, OUTBOX_STORE_NAME];
+    return this.runTransactionOn(storeNames, 'readwrite', transaction => {
+      this.writeChanges(transaction.objectStore(STORE_NAME), prizes);
+      this.writeChanges(transaction.objectStore(MOVEMENT_STORE_NAME), movements);
+      this.writeChanges(transaction.objectStore(MASTER_STORE_NAME), masters);
+      this.writeChanges(transaction.objectStore(ARCADE_STORE_NAME), arcades);
+      this.writeChanges(transaction.objectStore(LOCATION_STORE_NAME), locations);
+      this.writeChanges(transaction.objectStore(COLLECTION_STORE_NAME), collections);
+      if (!queue) return;
+      const outbox = transaction.objectStore(OUTBOX_STORE_NAME);
+      const changedAt = new Date().toISOString();
+      this.queueChanges(outbox, 'prizes', prizes, changedAt);
+      this.queueChanges(outbox, 'movements', movements, changedAt);
+      this.queueChanges(outbox, 'masters', masters, changedAt);
+      this.queueChanges(outbox, 'arcades', arcades, changedAt);
+      this.queueChanges(outbox, 'locations', locations, changedAt);
+      this.queueChanges(outbox, 'collections', collections, changedAt);
+    });
+  }
+
+  static async loadOutbox(): Promise<OutboxEntry[]> {
+    return this.getAllRecords<OutboxEntry>(OUTBOX_STORE_NAME);
+  }
+
+  // Drops entries once the server has them. An entry saved again in the meantime stays queued.
+  static async removeFromOutbox(entries: OutboxEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    return this.runTransaction('readwrite', store => {
+      entries.forEach(entry => {
+        const request = store.get(entry.key);
+        request.onsuccess = () => {
+          if (request.result?.changedAt === entry.changedAt) store.delete(entry.key);
+        };
+      });
+    }, OUTBOX_STORE_NAME);
+  }
+
+  static async clearOutbox(): Promise<void> {
+    return this.runTransaction('readwrite', store => {
+      store.clear();
+    }, OUTBOX_STORE_NAME);
+  }
+
+  static async putPrize(prize: Prize): Promise<void> {
+    return this.runTransaction('readwrite', store => {
+      store.put(prize);
+    });
+  }
+
+  static async deletePrize(prizeId: string): Promise<void> {
+    return this.runTransaction('readwrite', store => {
+      store.delete(prizeId);
+    });
+  }
+
   static async loadPrizes(): Promise<Prize[]> {
+    return this.getAllRecords<Prize>(STORE_NAME);
+  }
+
+  static async loadMovements(): Promise<StockMovement[]> {
+    return this.getAllRecords<StockMovement>(MOVEMENT_STORE_NAME);
+  }
+
+  static async loadMasters(): Promise<MasterItem[]> {
+    return this.getAllRecords<MasterItem>(MASTER_STORE_NAME);
+  }
+
+  static async loadArcades(): Promise<Arcade[]> {
+    return this.getAllRecords<Arcade>(ARCADE_STORE_NAME);
+  }
+
+  static async loadLocations(): Promise<StorageLocation[]> {
+    return this.getAllRecords<StorageLocation>(LOCATION_STORE_NAME);
+  }
+
+  static async loadCollections(): Promise<Collection[]> {
+    return this.getAllRecords<Collection>(COLLECTION_STORE_NAME);
+  }
+
+  static async loadPrizesByIndex(
+    indexName: 'category' | 'manufacturer' | 'acquisitionDate',
+    query: IDBValidKey | IDBKeyRange
+  ): Promise<Prize[]> {
     const db = await this.openDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get('current_inventory');
+      const request = transaction.objectStore(STORE_NAME).index(indexName).getAll(query);
 
-      request.onsuccess = () => {
-        resolve(request.result || []);
-      };
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  static async putPhoto(photo: PhotoRecord): Promise<void> {
+    return this.runTransaction('readwrite', store => {
+      store.put(photo);
+    }, PHOTO_STORE_NAME);
+  }
+
+  static async getPhoto(photoId: string): Promise<PhotoRecord | undefined> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PHOTO_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(PHOTO_STORE_NAME).get(photoId);
+
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
+  // Several photos in one transaction; undefined where one is missing
+  static async getPhotos(photoIds: string[]): Promise<(PhotoRecord | undefined)[]> {
+    if (photoIds.length === 0) return [];
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PHOTO_STORE_NAME, 'readonly');
+      const store = transaction.objectStore(PHOTO_STORE_NAME);
+      const results: (PhotoRecord | undefined)[] = new Array(photoIds.length);
+      photoIds.forEach((id, i) => {
+        const request = store.get(id);
+        request.onsuccess = () => { results[i] = request.result; };
+      });
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  static async getPhotoIds(): Promise<string[]> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PHOTO_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(PHOTO_STORE_NAME).getAllKeys();
+
+      request.onsuccess = () => resolve((request.result || []) as string[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  static async deletePhotos(photoIds: string[]): Promise<void> {
+    if (photoIds.length === 0) return;
+    return this.runTransaction('readwrite', store => {
+      photoIds.forEach(id => store.delete(id));
+    }, PHOTO_STORE_NAME);
+  }
+
+  static async saveDraft(draft: RecoveryDraft): Promise<void> {
+    return this.runTransaction('readwrite', store => {
+      store.put(draft, PENDING_DRAFT_KEY);
+    }, DRAFT_STORE_NAME);
+  }
+
+  static async loadDraft(): Promise<RecoveryDraft | null> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(DRAFT_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(DRAFT_STORE_NAME).get(PENDING_DRAFT_KEY);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  static async clearDraft(): Promise<void> {
+    return this.runTransaction('readwrite', store => {
+      store.delete(PENDING_DRAFT_KEY);
+    }, DRAFT_STORE_NAME);
+  }
+
+  // Computes the per-record changes between two snapshots of a store.
+  // Records are treated as immutable, so reference equality means unchanged.
+  static diffRecords<T extends { id: string }>(previous: T[], next: T[]): RecordChanges<T> {
+    const previousById = new Map(previous.map(r => [r.id, r]));
+    const nextIds = new Set(next.map(r => r.id));
+    return {
+      upserts: next.filter(r => previousById.get(r.id) !== r),
+      deletedIds: previous.filter(r => !nextIds.has(r.id)).map(r => r.id),
+    };
+  }
+
+  static diffInventory(previous: Inventory, next: Inventory): InventoryChanges {
+    return {
+      prizes: this.diffRecords(previous.prizes, next.prizes),
+      movements: this.diffRecords(previous.movements, next.movements),
+      masters: this.diffRecords(previous.masters, next.masters),
+      arcades: this.diffRecords(previous.arcades, next.arcades),
+      locations: this.diffRecords(previous.locations, next.locations),
+      collections: this.diffRecords(previous.collections, next.collections),
+    };
+  }
+
+  static applyInventoryChanges(inventory: Inventory, changes: InventoryChanges): Inventory {
+    return {
+      prizes: this.applyRecordChanges(inventory.prizes, changes.prizes),
+      movements: this.applyRecordChanges(inventory.movements, changes.movements),
+      masters: this.applyRecordChanges(inventory.masters, changes.masters || noChanges()),
+      arcades: this.applyRecordChanges(inventory.arcades, changes.arcades || noChanges()),
+      locations: this.applyRecordChanges(inventory.locations, changes.locations || noChanges()),
+      collections: this.applyRecordChanges(inventory.collections, changes.collections || noChanges()),
+    };
+  }
+
+  static countChanges({
+    prizes,
+    movements,
+    masters = noChanges(),
+    arcades = noChanges(),
+    locations = noChanges(),
+    collections = noChanges(),
+  }: InventoryChanges): number {
+    return [prizes, movements, masters, arcades, locations, collections].reduce((sum, c) => sum + c.upserts.length + c.deletedIds.length, 0);
+  }
+
+  // Inverse of diffRecords: replays changes on top of a snapshot
+  static applyRecordChanges<T extends { id: string }>(records: T[], { upserts, deletedIds }: RecordChanges<T>): T[] {
+    const deleted = new Set(deletedIds);
+    const upsertsById = new Map(upserts.map(r => [r.id, r]));
+    const result = records
+      .filter(r => !deleted.has(r.id))
+      .map(r => upsertsById.get(r.id) || r);
+    const existingIds = new Set(records.map(r => r.id));
+    return [...result, ...upserts.filter(r => !existingIds.has(r.id))];
+  }
+
   // localStorageからの移行用
   static getLocalStorageData(): Prize[] | null {
     try {
@@ -0,0 +1,302 @@
+import { Inventory, Prize, StockMovement } from '../types';
+import { InventoryChanges, InventoryStore, OutboxEntry, RecordChanges, StorageService } from './storage';
+import { PhotoService, blobToDataUrl, prizePhotoIds } from './photos';
+import { SettingsService } from './settings';
+import { isValidArcade, isValidCollection, isValidLocation, isValidMasterItem, isValidMovement, validatePrize } from './backup';
+
+// Photos go as records of their own, next to the inventory stores
+export type SyncStore = InventoryStore | 'photos';
+
+// One record as exchanged with a sync server. The server only looks at the envelope.
+export interface SyncRecord {
+  store: SyncStore;
+  id: string;
+  updatedAt: string; // When the change was saved on the device that made it; the newer change wins
+  deviceId: string;
+  deleted?: boolean; // Tombstone: the record was deleted and `data` is missing
+  data?: unknown; // Prizes refer to their photos by id; a photo's data is a SyncedPhoto
+}
+
+// A photo on the wire. Photos never change under an id, so each one is sent once and
+// a device that already has the id keeps its own copy.
+interface SyncedPhoto {
+  dataUrl: string; // Full-size image; the thumbnail is made again on arrival
+  hash?: string;
+  createdAt: string;
+}
+
+export interface PushResult {
+  rejected: string[]; // "<store>:<id>" of records the server already had a newer change for
+}
+
+export interface PullResult {
+  records: SyncRecord[];
+  cursor: string; // Pass to the next pull to get only what changed after this one
+  hasMore: boolean;
+}
+
+// Transport to a sync backend; see RestSyncAdapter for the reference one
+export interface SyncAdapter {
+  push(records: SyncRecord[]): Promise<PushResult>;
+  pull(cursor: string | null): Promise<PullResult>;
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  url: string;
+  token: string;
+}
+
+export interface SyncState {
+  cursor: string | null; // null until the first sync with the configured server
+  lastSyncedAt: string | null;
+}
+
+export interface SyncOutcome {
+  changes: InventoryChanges; // Received from other devices, already stored
+  sent: number;
+  received: number;
+  conflicts: number; // Records changed both here and on another device, settled by the newer change
+}
+
+export class SyncError extends Error {}
+
+export const defaultSyncSettings: SyncSettings = { enabled: false, url: '', token: '' };
+
+export const initialSyncState: SyncState = { cursor: null, lastSyncedAt: null };
+
+const PUSH_BATCH_SIZE = 50;
+
+const inventoryStores: InventoryStore[] = ['prizes', 'movements', 'masters', 'arcades', 'locations', 'collections'];
+
+export const syncKey = (store: SyncStore, id: string): string => `${store}:${id}`;
+
+// Tells this device's records apart from those of other devices on the server
+export const getDeviceId = (): string => {
+  const stored = SettingsService.get<string>('device-id', '');
+  if (stored) return stored;
+  const deviceId = `dev_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+  SettingsService.set('device-id', deviceId);
+  return deviceId;
+};
+
+interface DatedRecord {
+  id: string;
+  updatedAt?: string;
+  createdAt?: string;
+  acquisitionDate?: string;
+}
+
+// On the first sync every record goes out with the time it last changed, as far as it is known,
+// so a device joining with old data does not overwrite newer records on the server
+const lastChanged = (record: DatedRecord): string =>
+  record.updatedAt || record.createdAt || record.acquisitionDate || new Date(0).toISOString();
+
+const emptyChanges = (): Required<InventoryChanges> => ({
+  prizes: { upserts: [], deletedIds: [] },
+  movements: { upserts: [], deletedIds: [] },
+  masters: { upserts: [], deletedIds: [] },
+  arcades: { upserts: [], deletedIds: [] },
+  locations: { upserts: [], deletedIds: [] },
+  collections: { upserts: [], deletedIds: [] },
+});
+
+const outgoingRecords = async (saved: Inventory, outbox: OutboxEntry[] | null, deviceId: string): Promise<SyncRecord[]> => {
+  const records: SyncRecord[] = [];
+  if (outbox === null) {
+    inventoryStores.forEach(store => (saved[store] as DatedRecord[]).forEach(record => {
+      records.push({ store, id: record.id, updatedAt: lastChanged(record), deviceId, data: record });
+    }));
+  } else {
+    const byKey = new Map(inventoryStores.flatMap(store =>
+      (saved[store] as { id: string }[]).map(record => [syncKey(store, record.id), record] as const)
+    ));
+    outbox.forEach(entry => {
+      const record = entry.deleted ? undefined : byKey.get(entry.key);
+      records.push(record
+        ? { store: entry.store, id: entry.id, updatedAt: entry.changedAt, deviceId, data: record }
+        : { store: entry.store, id: entry.id, updatedAt: entry.changedAt, deviceId, deleted: true });
+    });
+  }
+  return records;
+};
+
+// Photos of the outgoing prizes that the server does not have yet; every one of them when
+// starting over with a server. They go first, so they are there by the time the prizes are.
+const outgoingPhotos = async (prizes: Prize[], everything: boolean, deviceId: string): Promise<SyncRecord[]> => {
+  const records: SyncRecord[] = [];
+  for (const photoId of new Set(prizes.flatMap(prizePhotoIds))) {
+    const photo = await StorageService.getPhoto(photoId);
+    if (!photo || (photo.syncedAt && !everything)) continue;
+    const data: SyncedPhoto = { dataUrl: await blobToDataUrl(photo.blob), hash: photo.hash, createdAt: photo.createdAt };
+    records.push({ store: 'photos', id: photo.id, updatedAt: photo.createdAt, deviceId, data });
+  }
+  return records;
+};
+
+const markPhotosSynced = async (photoIds: string[]): Promise<void> => {
+  const syncedAt = new Date().toISOString();
+  for (const photoId of photoIds) {
+    const photo = await StorageService.getPhoto(photoId);
+    if (photo && !photo.syncedAt) await StorageService.putPhoto({ ...photo, syncedAt });
+  }
+};
+
+const isSyncedPhoto = (data: unknown): data is SyncedPhoto =>
+  !!data && typeof (data as SyncedPhoto).dataUrl === 'string' && typeof (data as SyncedPhoto).createdAt === 'string';
+
+// Photos already stored here under the same id are left as they are
+const receivePhotos = async (records: SyncRecord[]): Promise<void> => {
+  for (const record of records) {
+    if (record.deleted || !isSyncedPhoto(record.data) || await StorageService.getPhoto(record.id)) continue;
+    const { dataUrl, hash, createdAt } = record.data;
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      await PhotoService.saveReceivedPhoto({ id: record.id, blob, hash, createdAt, syncedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error(`Failed to store synced photo ${record.id}`, error);
+    }
+  }
+};
+
+// validatePrize leaves photo ids out, since a backup carries the photos themselves
+const photoIdsOf = (data: unknown): string[] => {
+  const photoIds = (data as Prize | undefined)?.photoIds;
+  return Array.isArray(photoIds) ? photoIds.filter((id): id is string => typeof id === 'string') : [];
+};
+
+// Records that do not hold what their store keeps are left out, as a backup would leave them out
+const receiveRecord = <T extends { id: string }>(
+  changes: RecordChanges<T>,
+  record: SyncRecord,
+  isValid: (raw: unknown) => raw is T
+): void => {
+  if (record.deleted) {
+    changes.deletedIds.push(record.id);
+    return;
+  }
+  const data = record.data && typeof record.data === 'object' ? { ...record.data, id: record.id } : record.data;
+  if (isValid(data)) changes.upserts.push(data);
+  else console.warn(`Skipped synced ${record.store} record ${record.id}`);
+};
+
+const incomingChanges = async (records: SyncRecord[]): Promise<InventoryChanges> => {
+  const changes = emptyChanges();
+  const prizes: Prize[] = [];
+  await receivePhotos(records.filter(record => record.store === 'photos'));
+  records.forEach(record => {
+    switch (record.store) {
+      case 'photos':
+        return;
+      case 'prizes': {
+        if (record.deleted) {
+          changes.prizes.deletedIds.push(record.id);
+          return;
+        }
+        const { prize, messages } = validatePrize(record.data);
+        const photoIds = photoIdsOf(record.data);
+        if (prize) prizes.push(photoIds.length > 0 ? { ...prize, photoIds } : prize);
+        else console.warn(`Skipped synced prize ${record.id}: ${messages.join(', ')}`);
+        return;
+      }
+      // The prize of a movement may arrive in a later sync
+      case 'movements':
+        return receiveRecord(changes.movements, record, (raw: unknown): raw is StockMovement => isValidMovement(raw));
+      case 'masters':
+        return receiveRecord(changes.masters, record, isValidMasterItem);
+      case 'arcades':
+        return receiveRecord(changes.arcades, record, isValidArcade);
+      case 'locations':
+        return receiveRecord(changes.locations, record, isValidLocation);
+      case 'collections':
+        return receiveRecord(changes.collections, record, isValidCollection);
+    }
+  });
+  // Devices that have not been updated yet still send their photos inline
+  changes.prizes.upserts = await PhotoService.extractInlinePhotos(prizes);
+  return changes;
+};
+
+// Sends what was saved here since the last sync, then stores what other devices sent.
+// `saved` must be what is in IndexedDB, so save pending edits first.
+export const syncInventory = async (
+  adapter: SyncAdapter,
+  saved: Inventory,
+  state: SyncState
+): Promise<{ outcome: SyncOutcome; state: SyncState }> => {
+  const deviceId = getDeviceId();
+  const outbox = await StorageService.loadOutbox();
+  const records = await outgoingRecords(saved, state.cursor === null ? null : outbox, deviceId);
+  const outgoingPrizes = records.filter(r => r.store === 'prizes' && r.data).map(r => r.data as Prize);
+  const photos = await outgoingPhotos(outgoingPrizes, state.cursor === null, deviceId);
+  const outgoing = [...photos, ...records];
+
+  const rejected = new Set<string>();
+  for (let i = 0; i < outgoing.length; i += PUSH_BATCH_SIZE) {
+    const result = await adapter.push(outgoing.slice(i, i + PUSH_BATCH_SIZE));
+    result.rejected.forEach(key => rejected.add(key));
+  }
+  await StorageService.removeFromOutbox(outbox);
+  // A rejected photo is one the server already has
+  await markPhotosSynced(photos.map(r => r.id));
+
+  // The server keeps only the latest change per record, so later pages never repeat an older one
+  const incoming = new Map<string, SyncRecord>();
+  let cursor = state.cursor;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await adapter.pull(cursor);
+    page.records
+      .filter(record => record.deviceId !== deviceId)
+      .forEach(record => incoming.set(syncKey(record.store, record.id), record));
+    cursor = page.cursor;
+    hasMore = page.hasMore && page.records.length > 0;
+  }
+
+  // Records saved here while the sync was running: the newer change wins either way
+  const pending = new Map((await StorageService.loadOutbox()).map(entry => [entry.key, entry]));
+  const overridden: OutboxEntry[] = [];
+  const accepted = Array.from(incoming.values()).filter(record => {
+    const entry = pending.get(syncKey(record.store, record.id));
+    if (!entry) return true;
+    if (entry.changedAt > record.updatedAt) return false;
+    overridden.push(entry);
+    return true;
+  });
+  const changes = await incomingChanges(accepted);
+  await StorageService.saveInventoryChanges(changes, { queue: false });
+  await StorageService.removeFromOutbox(overridden);
+
+  return {
+    outcome: {
+      changes,
+      sent: records.length,
+      received: accepted.filter(record => record.store !== 'photos').length,
+      conflicts: rejected.size + overridden.length + (incoming.size - accepted.length),
+    },
+    state: { cursor, lastSyncedAt: new Date().toISOString() },
+  };
+};
+
+// Leaves out received changes to records edited here after `saved` was taken.
+// Those edits are newer; they get saved and win on the next sync.
+export const withoutLocalEdits = (changes: InventoryChanges, saved: Inventory, current: Inventory): InventoryChanges => {
+  const untouchedChanges = <T extends { id: string }>(storeChanges: RecordChanges<T> | undefined, savedRecords: T[], currentRecords: T[]): RecordChanges<T> => {
+    if (!storeChanges) return { upserts: [], deletedIds: [] };
+    const savedById = new Map(savedRecords.map(r => [r.id, r]));
+    const currentById = new Map(currentRecords.map(r => [r.id, r]));
+    const untouched = (id: string) => savedById.get(id) === currentById.get(id);
+    return {
+      upserts: storeChanges.upserts.filter(r => untouched(r.id)),
+      deletedIds: storeChanges.deletedIds.filter(untouched),
+    };
+  };
+  return {
+    prizes: untouchedChanges(changes.prizes, saved.prizes, current.prizes),
+    movements: untouchedChanges(changes.movements, saved.movements, current.movements),
+    masters: untouchedChanges(changes.masters, saved.masters, current.masters),
+    arcades: untouchedChanges(changes.arcades, saved.arcades, current.arcades),
+    locations: untouchedChanges(changes.locations, saved.locations, current.locations),
+    collections: untouchedChanges(changes.collections, saved.collections, current.collections),
+  };
+};
@@ -0,0 +1,51 @@
+import { Prize } from '../types';
+import { normalizeForSearch } from './search';
+
+export type TagMatchMode = 'and' | 'or';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// " #ﾎﾟｹﾓﾝ" -> "ポケモン"; width is folded so the same tag is not counted twice
+export const normalizeTag = (input: string): string =>
+  input.normalize('NFKC').trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+
+// Adds a tag unless an equivalent one (same after kana/width folding) is already there
+export const addTag = (tags: string[], input: string): string[] => {
+  const tag = normalizeTag(input);
+  if (!tag) return tags;
+  const key = normalizeForSearch(tag);
+  return tags.some(t => normalizeForSearch(t) === key) ? tags : [...tags, tag];
+};
+
+// Most used first, then in Japanese collation order
+export const countTags = (prizes: Prize[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  prizes.forEach(p => p.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, 'ja'));
+};
+
+// Suggestions for the tag input: prefix matches before partial ones, ignoring kana and width
+export const suggestTags = (known: TagCount[], input: string, exclude: string[], limit = 8): string[] => {
+  const query = normalizeForSearch(normalizeTag(input));
+  const excluded = new Set(exclude.map(normalizeForSearch));
+  const candidates = known.filter(({ tag }) => !excluded.has(normalizeForSearch(tag)));
+  if (!query) return candidates.slice(0, limit).map(c => c.tag);
+  const prefix: string[] = [];
+  const partial: string[] = [];
+  candidates.forEach(({ tag }) => {
+    const normalized = normalizeForSearch(tag);
+    if (normalized.startsWith(query)) prefix.push(tag);
+    else if (normalized.includes(query)) partial.push(tag);
+  });
+  return [...prefix, ...partial].slice(0, limit);
+};
+
+export const matchesTags = (prize: Prize, tags: string[], mode: TagMatchMode): boolean => {
+  if (tags.length === 0) return true;
+  const own = prize.tags || [];
+  return mode === 'and' ? tags.every(t => own.includes(t)) : tags.some(t => own.includes(t));
+};
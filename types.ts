@@ -1,6 +1,65 @@
-export type PrizeCategory = 'マスコット' | 'ぬいぐるみ' | 'フィギュア' | 'その他';
+// Names of master items (see MasterItem); prizes store the name, so renames rewrite them
+export type PrizeCategory = string;
+export type Manufacturer = string; // '指定なし' when unknown
 
-export type Manufacturer = '指定なし' | 'バンダイナムコ' | 'タイトー' | 'SEGA FAVE' | 'FuRyu' | 'Parade' | 'SK' | 'その他';
+export type MasterKind = 'category' | 'manufacturer';
+
+// User-managed category / manufacturer
+export interface MasterItem {
+  id: string;
+  kind: MasterKind;
+  name: string;
+  color: string; // #rrggbb
+  order: number;
+  archived?: boolean; // Hidden from new entries, kept for existing prizes
+}
+
+// Separate list of prizes sharing the device, e.g. per family member or per house.
+// Categories, makers, arcades and storage locations are shared by every collection.
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Game center where prizes are won
+export interface Arcade {
+  id: string;
+  name: string;
+  chain?: string; // e.g. GiGO, タイトーステーション
+  area?: string; // e.g. 秋葉原
+  machineTypes: string[]; // 3本爪, 橋渡し, ...
+  notes?: string;
+  archived?: boolean; // Hidden from new entries, kept for existing prizes
+  createdAt: string;
+}
+
+// 部屋 → 棚 → 箱
+export type LocationKind = 'room' | 'shelf' | 'box';
+
+// Place in the house where prizes are kept
+export interface StorageLocation {
+  id: string;
+  name: string;
+  kind: LocationKind;
+  parentId?: string; // Missing for top-level locations; always of a larger kind
+  capacity?: number; // Items that fit, including those in sub-locations
+  notes?: string;
+  createdAt: string;
+}
+
+// Part of a prize's quantity kept at one location; the rest is unplaced
+export interface Placement {
+  locationId: string;
+  quantity: number;
+}
+
+// Money spent on plays. `total` is always set; plays × price when both are known.
+export interface PlayCost {
+  plays?: number;
+  pricePerPlay?: number; // Yen
+  total: number; // Yen
+}
 
 export interface Prize {
   id: string;
@@ -9,6 +68,50 @@ export interface Prize {
   acquisitionDate: string;
   category: PrizeCategory;
   manufacturer?: Manufacturer;
-  photo?: string; // Base64 encoded image data, now optional
+  photoIds?: string[]; // Keys into the photo store in gallery order; the first is the cover
+  photoId?: string; // Single photo from before galleries; moved into photoIds on load
+  photos?: string[]; // Inline data URLs in backups and sync records; moved to the photo store on import
+  photo?: string; // Legacy inline Base64 image; moved to the photo store on load/import
   notes?: string;
+  barcode?: string; // JAN/EAN or UPC digits from the tag
+  tags?: string[]; // Free-form labels such as franchise or event names
+  arcadeId?: string; // Store it was won at
+  cost?: PlayCost; // Spent on the acquisition entered with the prize
+  placements?: Placement[]; // Never more than `quantity` in total
+  collectionId?: string; // Missing on records from before collections; they belong to the default one
+  updatedAt?: string; // ISO timestamp of the last edit; missing on records from older versions
+}
+
+export interface PhotoRecord {
+  id: string;
+  blob: Blob; // Full-size image, only read by the zoom view
+  thumbnail: Blob;
+  hash?: string; // Perceptual hash for finding duplicates; missing on photos stored before it existed
+  createdAt: string;
+  syncedAt?: string; // Set once the photo is on the sync server (or came from it)
+}
+
+// 獲得 / 購入 / 譲渡 / 売却 / 交換 / 数量修正
+export type MovementType = 'won' | 'bought' | 'gifted' | 'sold' | 'traded' | 'correction';
+
+export interface StockMovement {
+  id: string;
+  prizeId: string;
+  type: MovementType;
+  date: string; // YYYY-MM-DD
+  delta: number; // Positive when stock increased
+  memo?: string;
+  arcadeId?: string; // Store of a 'won' entry; when missing the prize's store is assumed
+  cost?: PlayCost; // Spent on this win, recorded from the history
+  createdAt: string;
+}
+
+// Everything the save button persists
+export interface Inventory {
+  prizes: Prize[];
+  movements: StockMovement[];
+  masters: MasterItem[];
+  arcades: Arcade[];
+  locations: StorageLocation[];
+  collections: Collection[];
 }
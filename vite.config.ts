@@ -1,18 +1,66 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+const SERVICE_WORKER_FILE = 'sw.js';
+
+const listFiles = (dir: string, prefix = ''): string[] =>
+  !fs.existsSync(dir) ? [] : fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]
+  );
+
+// Builds service-worker.js into sw.js with every emitted and public file to precache,
+// and a version that changes whenever any of them does
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'crane-stock-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const template = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8');
+      const hash = createHash('sha256').update(template);
+      const urls = new Set<string>(['index.html']);
+      Object.values(bundle).forEach(output => {
+        if (output.fileName.endsWith('.map')) return;
+        urls.add(output.fileName);
+        hash.update(output.fileName).update(output.type === 'chunk' ? output.code : output.source);
+      });
+      listFiles(publicDir).forEach(file => {
+        urls.add(file);
+        hash.update(file).update(fs.readFileSync(path.join(publicDir, file)));
+      });
+      this.emitFile({
+        type: 'asset',
+        fileName: SERVICE_WORKER_FILE,
+        source: template
+          .replace('__BUILD_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+          .replace('__PRECACHE_URLS__', JSON.stringify([...urls].sort())),
+      });
+    },
+  };
+};
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.APP_VERSION': JSON.stringify(process.env.npm_package_version || '0.0.0'),
+        // The dev server has no service worker, so offline support is only on in builds
+        'process.env.SERVICE_WORKER_URL': JSON.stringify(command === 'build' ? SERVICE_WORKER_FILE : '')
       },
       resolve: {
         alias: {